@@ -1,12 +1,12 @@
 import Anthropic from "@anthropic-ai/sdk";
-import { ModelRefusalError, type ChatMessage, type ModelAdapter, type Usage } from "../types.js";
+import { ModelRefusalError, type ChatMessage, type ModelAdapter, type ModelConfig, type Usage } from "../types.js";
 
-// Verified against the installed @anthropic-ai/sdk Model union and Anthropic's
-// models list at build time (2026-07). Fable 5 has no "high" reasoning knob in
-// the OpenAI sense: thinking is always on and the `thinking` param must be
-// omitted. The closest control is output_config.effort, whose default — "high"
-// — matches the spirit of the other models' settings, so we set it explicitly.
-const MODEL = "claude-fable-5";
+// Written for Claude Fable 5 (claude-fable-5, verified against the installed
+// @anthropic-ai/sdk Model union and Anthropic's models list, 2026-07). Fable 5
+// has no "high" reasoning knob in the OpenAI sense: thinking is always on and
+// the `thinking` param must be omitted. The closest control is
+// output_config.effort, which models.json sets via reasoningEffort.
+const DEFAULT_MAX_TOKENS = 8000; // must leave room for always-on thinking
 
 function toAnthropicMessages(messages: ChatMessage[]): Anthropic.MessageParam[] {
   return messages.map((m): Anthropic.MessageParam => {
@@ -31,16 +31,16 @@ function usageOf(u: Anthropic.Usage): Usage {
   };
 }
 
-export function makeFableAdapter(): ModelAdapter {
-  const client = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+export function makeAnthropicAdapter(cfg: ModelConfig, apiKey: string | undefined): ModelAdapter {
+  const client = new Anthropic({ apiKey });
 
   async function create(messages: Anthropic.MessageParam[], system?: string) {
     // No `thinking` param (always on for Fable 5) and no fallbacks: a refusal
     // is surfaced as a failed trial, not silently re-served by another model.
     const res = await client.messages.create({
-      model: MODEL,
-      max_tokens: 8000, // must leave room for always-on thinking
-      output_config: { effort: "high" },
+      model: cfg.model,
+      max_tokens: cfg.maxTokens ?? DEFAULT_MAX_TOKENS,
+      ...(cfg.reasoningEffort ? { output_config: { effort: cfg.reasoningEffort } } : {}),
       ...(system ? { system } : {}),
       messages,
     });
@@ -49,8 +49,10 @@ export function makeFableAdapter(): ModelAdapter {
   }
 
   return {
-    key: "fable",
-    modelId: MODEL,
+    key: cfg.key,
+    modelId: cfg.model,
+    images: cfg.images,
+    pricing: cfg.pricing,
     async preflight() {
       const res = await create([{ role: "user", content: "Reply with OK" }]);
       return res.model;
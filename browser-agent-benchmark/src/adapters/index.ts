@@ -0,0 +1,9 @@
+import { makeAnthropicAdapter } from "./anthropic.js";
+import { makeOpenAICompatibleAdapter } from "./openai.js";
+import type { ModelAdapter, ModelConfig } from "../types.js";
+
+export function makeAdapter(cfg: ModelConfig): ModelAdapter {
+  const apiKey = cfg.apiKeyEnv ? process.env[cfg.apiKeyEnv] : undefined;
+  if (cfg.apiKeyEnv && !apiKey) throw new Error(`model ${cfg.key}: ${cfg.apiKeyEnv} is not set (see .env.example)`);
+  return cfg.provider === "anthropic" ? makeAnthropicAdapter(cfg, apiKey) : makeOpenAICompatibleAdapter(cfg, apiKey);
+}
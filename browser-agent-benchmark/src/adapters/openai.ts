@@ -1,7 +1,5 @@
 import OpenAI from "openai";
-import type { ChatMessage, ModelAdapter, Usage } from "../types.js";
-
-const MODEL = "gpt-5.6-sol";
+import type { ChatMessage, ModelAdapter, ModelConfig, Usage } from "../types.js";
 
 function toOpenAIMessages(system: string, messages: ChatMessage[]) {
   const out: OpenAI.Chat.ChatCompletionMessageParam[] = [{ role: "system", content: system }];
@@ -27,25 +25,59 @@ function usageOf(u: OpenAI.CompletionUsage | undefined | null): Usage {
   return { input: u?.prompt_tokens ?? 0, output: u?.completion_tokens ?? 0 };
 }
 
-export function makeSolAdapter(): ModelAdapter {
-  const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+/** Any OpenAI-compatible chat completions endpoint: OpenAI itself, xAI, a local server, the mock model. */
+export function makeOpenAICompatibleAdapter(cfg: ModelConfig, apiKey: string | undefined): ModelAdapter {
+  const client = new OpenAI({
+    // the SDK insists on a key; endpoints without auth ignore it
+    apiKey: apiKey ?? "unused",
+    ...(cfg.baseURL ? { baseURL: cfg.baseURL } : {}),
+  });
+
+  // Some OpenAI-compatible APIs take `reasoning_effort` on some models and
+  // reject it on others (e.g. grok versions that always reason). With
+  // reasoningEffortOptional we probe once at runtime instead of guessing; the
+  // fallback is logged so it's not silent. Without it a rejection is an error.
+  let effortSupported: boolean | null = cfg.reasoningEffort ? null : false;
+
+  async function complete(messages: OpenAI.Chat.ChatCompletionMessageParam[]) {
+    if (effortSupported !== false) {
+      try {
+        const res = await client.chat.completions.create({
+          model: cfg.model,
+          reasoning_effort: cfg.reasoningEffort,
+          messages,
+        });
+        effortSupported = true;
+        return res;
+      } catch (err) {
+        if (
+          cfg.reasoningEffortOptional &&
+          effortSupported === null &&
+          err instanceof OpenAI.APIError &&
+          /reasoning_effort/i.test(String(err.message))
+        ) {
+          effortSupported = false;
+          console.error(`[${cfg.key}] ${cfg.model} rejected reasoning_effort; continuing without it (model reasons by default)`);
+        } else {
+          throw err;
+        }
+      }
+    }
+    return client.chat.completions.create({ model: cfg.model, messages });
+  }
+
   return {
-    key: "sol",
-    modelId: MODEL,
+    key: cfg.key,
+    modelId: cfg.model,
+    images: cfg.images,
+    pricing: cfg.pricing,
     async preflight() {
-      const res = await client.chat.completions.create({
-        model: MODEL,
-        reasoning_effort: "high",
-        messages: [{ role: "user", content: "Reply with OK" }],
-      });
-      return res.model;
+      const res = await complete([{ role: "user", content: "Reply with OK" }]);
+      if (!cfg.reasoningEffort) return res.model;
+      return `${res.model}${effortSupported ? ` (reasoning_effort=${cfg.reasoningEffort})` : " (no reasoning_effort param)"}`;
     },
     async step(system, messages) {
-      const res = await client.chat.completions.create({
-        model: MODEL,
-        reasoning_effort: "high",
-        messages: toOpenAIMessages(system, messages),
-      });
+      const res = await complete(toOpenAIMessages(system, messages));
       return { text: res.choices[0]?.message?.content ?? "", usage: usageOf(res.usage) };
     },
   };
@@ -1,8 +1,24 @@
 import fs from "node:fs";
 import path from "node:path";
-import { costUsd } from "./pricing.js";
+import { MODELS_FILE } from "./models.js";
+import { costUsd, pricingOf } from "./pricing.js";
 import { c as col } from "./colors.js";
-import type { Category, ModelKey, Outcome, TrialRecord } from "./types.js";
+import { mcnemarExact, pairedPermutationTest, wilsonInterval } from "./stats.js";
+import { renderReport } from "./report.js";
+import type {
+  AnalysisSummary,
+  Category,
+  FlakyTask,
+  ModelKey,
+  ModelSummary,
+  Outcome,
+  PairComparison,
+  RateSummary,
+  TrialRecord,
+} from "./types.js";
+
+/** Differences with p below this are called significant in the output. */
+const ALPHA = 0.05;
 
 function median(xs: number[]): number {
   if (xs.length === 0) return 0;
@@ -15,24 +31,77 @@ function pct(n: number, d: number): string {
   return d === 0 ? "-" : `${((100 * n) / d).toFixed(0)}% (${n}/${d})`;
 }
 
-interface ModelSummary {
-  modelId: string;
-  trials: number;
-  passed: number;
-  successRate: number;
-  byCategory: Record<string, { trials: number; passed: number; successRate: number }>;
-  medianSteps: number;
-  medianWallTimeMs: number;
-  tokens: { input: number; output: number };
-  totalCostUsd: number;
-  costPerCompletedTaskUsd: number | null;
-  failures: Record<Outcome, number>;
+function interval(ci: { low: number; high: number }): string {
+  return `[${(100 * ci.low).toFixed(0)}–${(100 * ci.high).toFixed(0)}%]`;
+}
+
+function rate(trials: number, passed: number): RateSummary {
+  return { trials, passed, successRate: trials ? passed / trials : 0, ci: wilsonInterval(passed, trials) };
+}
+
+function compare(records: TrialRecord[], a: ModelKey, b: ModelKey): PairComparison {
+  const byKey = new Map<string, TrialRecord>();
+  for (const r of records) if (r.model === b) byKey.set(`${r.taskId}:${r.trial}`, r);
+
+  let pairedTrials = 0;
+  let onlyA = 0;
+  let onlyB = 0;
+  const perTask = new Map<string, { a: number; b: number; n: number }>();
+  for (const ra of records) {
+    if (ra.model !== a) continue;
+    const rb = byKey.get(`${ra.taskId}:${ra.trial}`);
+    if (!rb) continue;
+    pairedTrials++;
+    if (ra.pass && !rb.pass) onlyA++;
+    if (rb.pass && !ra.pass) onlyB++;
+    const t = perTask.get(ra.taskId) ?? { a: 0, b: 0, n: 0 };
+    t.a += Number(ra.pass);
+    t.b += Number(rb.pass);
+    t.n++;
+    perTask.set(ra.taskId, t);
+  }
+
+  const diffs = [...perTask.values()].map((t) => (t.a - t.b) / t.n);
+  return {
+    a,
+    b,
+    pairedTrials,
+    onlyA,
+    onlyB,
+    mcnemarP: mcnemarExact(onlyA, onlyB),
+    tasks: diffs.length,
+    meanTaskDiff: diffs.length ? diffs.reduce((s, d) => s + d, 0) / diffs.length : 0,
+    permutationP: pairedPermutationTest(diffs),
+  };
+}
+
+function flakyTasks(records: TrialRecord[], models: ModelKey[]): FlakyTask[] {
+  const out: FlakyTask[] = [];
+  for (const model of models) {
+    const byTask = new Map<string, TrialRecord[]>();
+    for (const r of records) {
+      if (r.model === model) byTask.set(r.taskId, [...(byTask.get(r.taskId) ?? []), r]);
+    }
+    for (const [taskId, trials] of byTask) {
+      const passed = trials.filter((r) => r.pass).length;
+      if (trials.length > 1 && passed > 0 && passed < trials.length) {
+        out.push({ model, taskId, passed, trials: trials.length, outcomes: trials.sort((x, y) => x.trial - y.trial).map((r) => r.outcome) });
+      }
+    }
+  }
+  return out;
 }
 
 function main() {
-  const file = process.argv[2];
-  if (!file) {
-    console.error("usage: npm run analyze -- results/<runid>.jsonl");
+  const argv = process.argv.slice(2);
+  let file: string | undefined;
+  let config = MODELS_FILE;
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--config") config = argv[++i];
+    else file = argv[i];
+  }
+  if (!file || !config) {
+    console.error("usage: npm run analyze -- results/<runid>.jsonl [--config models.json]");
     process.exit(1);
   }
   const records = fs
@@ -45,7 +114,7 @@ function main() {
     process.exit(1);
   }
 
-  const models = [...new Set(records.map((r) => r.model))] as ModelKey[];
+  const models: ModelKey[] = [...new Set(records.map((r) => r.model))];
   const categories = [...new Set(records.map((r) => r.category))] as Category[];
   const summary: Record<string, ModelSummary> = {};
 
@@ -55,22 +124,19 @@ function main() {
     const byCategory: ModelSummary["byCategory"] = {};
     for (const cat of categories) {
       const c = mine.filter((r) => r.category === cat);
-      const p = c.filter((r) => r.pass).length;
-      byCategory[cat] = { trials: c.length, passed: p, successRate: c.length ? p / c.length : 0 };
+      byCategory[cat] = rate(c.length, c.filter((r) => r.pass).length);
     }
     const tokens = {
       input: mine.reduce((s, r) => s + r.usage.input, 0),
       output: mine.reduce((s, r) => s + r.usage.output, 0),
     };
-    const totalCost = costUsd(model, tokens);
+    const totalCost = costUsd(pricingOf(records, model, config), tokens);
     const failures = { pass: 0, model_failure: 0, infra_web_failure: 0, unclassified: 0 } as Record<Outcome, number>;
     for (const r of mine) failures[r.outcome]++;
 
     summary[model] = {
       modelId: mine[0].modelId,
-      trials: mine.length,
-      passed: passed.length,
-      successRate: mine.length ? passed.length / mine.length : 0,
+      ...rate(mine.length, passed.length),
       byCategory,
       medianSteps: median(mine.map((r) => r.steps.length)),
       medianWallTimeMs: median(mine.map((r) => r.wallTimeMs)),
@@ -83,12 +149,12 @@ function main() {
 
   for (const model of models) {
     const s = summary[model];
-    const rate = s.successRate >= 0.5 ? col.green : s.successRate > 0 ? col.yellow : col.red;
+    const color = s.successRate >= 0.5 ? col.green : s.successRate > 0 ? col.yellow : col.red;
     console.log(`\n${col.bold(`=== ${col.magenta(model)} (${s.modelId}) ===`)}`);
-    console.log(`  ${col.bold("success")}: ${rate(pct(s.passed, s.trials))}`);
+    console.log(`  ${col.bold("success")}: ${color(pct(s.passed, s.trials))} ${col.dim(interval(s.ci))}`);
     for (const cat of categories) {
       const cs = s.byCategory[cat];
-      console.log(`    ${col.cyan(cat.padEnd(14))} ${pct(cs.passed, cs.trials)}`);
+      console.log(`    ${col.cyan(cat.padEnd(14))} ${pct(cs.passed, cs.trials)} ${col.dim(cs.trials ? interval(cs.ci) : "")}`);
     }
     console.log(`  ${col.dim("median steps:")} ${s.medianSteps}`);
     console.log(`  ${col.dim("median wall time:")} ${(s.medianWallTimeMs / 1000).toFixed(1)}s`);
@@ -99,9 +165,47 @@ function main() {
     );
   }
 
-  const outPath = path.join(path.dirname(file), "summary.json");
-  fs.writeFileSync(outPath, JSON.stringify({ source: path.basename(file), generatedAt: new Date().toISOString(), models: summary }, null, 2));
+  const comparisons: PairComparison[] = [];
+  for (let i = 0; i < models.length; i++) {
+    for (let j = i + 1; j < models.length; j++) comparisons.push(compare(records, models[i], models[j]));
+  }
+  if (comparisons.length) {
+    console.log(`\n${col.bold("=== paired comparisons ===")} ${col.dim("(significance from the per-task permutation test; p-values unadjusted)")}`);
+    for (const cmp of comparisons) {
+      // The permutation test is the primary test: tasks are the paired unit. McNemar pairs trial n of
+      // one model with trial n of the other, which are independent runs, so it is shown for reference only.
+      const sig = cmp.permutationP < ALPHA ? col.bold("significant") : col.dim("not significant");
+      console.log(
+        `  ${col.magenta(cmp.a)} vs ${col.magenta(cmp.b)}: ${cmp.onlyA} vs ${cmp.onlyB} discordant of ${cmp.pairedTrials} trials, ` +
+          `McNemar p=${cmp.mcnemarP.toFixed(3)}; mean per-task diff ${(100 * cmp.meanTaskDiff).toFixed(0)}pp over ${cmp.tasks} tasks, ` +
+          `permutation p=${cmp.permutationP.toFixed(3)} — ${sig}`,
+      );
+    }
+  }
+
+  const flaky = flakyTasks(records, models);
+  if (flaky.length) {
+    console.log(`\n${col.bold("=== flaky tasks ===")} ${col.dim("(trials disagree)")}`);
+    for (const f of flaky) {
+      console.log(`  ${col.magenta(f.model.padEnd(6))} ${col.cyan(f.taskId)} ${f.passed}/${f.trials} ${col.dim(f.outcomes.join(", "))}`);
+    }
+  }
+
+  const analysis: AnalysisSummary = {
+    source: path.basename(file),
+    generatedAt: new Date().toISOString(),
+    models: summary,
+    comparisons,
+    flakyTasks: flaky,
+  };
+  const outDir = path.dirname(file);
+  const outPath = path.join(outDir, "summary.json");
+  fs.writeFileSync(outPath, JSON.stringify(analysis, null, 2));
+  const report = renderReport(analysis, { alpha: ALPHA });
+  fs.writeFileSync(path.join(outDir, "report.md"), report.markdown);
+  fs.writeFileSync(path.join(outDir, "report.html"), report.html);
   console.log(`\n${col.bold("Chart-ready summary:")} ${col.cyan(outPath)}`);
+  console.log(`${col.bold("Report:")} ${col.cyan(path.join(outDir, "report.md"))} ${col.dim("(+ report.html)")}`);
 }
 
 main();
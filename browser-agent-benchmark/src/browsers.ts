@@ -0,0 +1,84 @@
+import { Hyperbrowser } from "@hyperbrowser/sdk";
+import { chromium, type Browser, type Page } from "playwright-core";
+
+export interface BrowserHandle {
+  page: Page;
+  /** Never throws; a trial must not fail on teardown. */
+  close(): Promise<void>;
+}
+
+export interface BrowserProvider {
+  kind: "hyperbrowser" | "local";
+  open(): Promise<BrowserHandle>;
+}
+
+/** Fresh Hyperbrowser session per trial, driven over CDP. */
+export function hyperbrowserProvider(hb: Hyperbrowser): BrowserProvider {
+  return {
+    kind: "hyperbrowser",
+    async open() {
+      const session = await hb.sessions.create({ timeoutMinutes: 5 });
+      let browser: Browser | undefined;
+      try {
+        browser = await chromium.connectOverCDP(session.wsEndpoint);
+        const context = browser.contexts()[0] ?? (await browser.newContext());
+        const page = context.pages()[0] ?? (await context.newPage());
+        return {
+          page,
+          async close() {
+            try {
+              await browser?.close();
+            } catch {}
+            try {
+              await hb.sessions.stop(session.id);
+            } catch {}
+          },
+        };
+      } catch (err) {
+        try {
+          await browser?.close();
+        } catch {}
+        try {
+          await hb.sessions.stop(session.id);
+        } catch {}
+        throw err;
+      }
+    },
+  };
+}
+
+// Fixed viewport so screenshots of fixture pages are identical across runs.
+const LOCAL_VIEWPORT = { width: 1280, height: 800 };
+
+/**
+ * Headless Chromium on this machine, fresh per trial. Uses CHROMIUM_PATH when
+ * set, otherwise the browser installed by `npx playwright-core install chromium`.
+ */
+export function localProvider(): BrowserProvider {
+  return {
+    kind: "local",
+    async open() {
+      const browser = await chromium.launch({
+        headless: true,
+        ...(process.env.CHROMIUM_PATH ? { executablePath: process.env.CHROMIUM_PATH } : {}),
+      });
+      try {
+        const context = await browser.newContext({ viewport: LOCAL_VIEWPORT, deviceScaleFactor: 1 });
+        const page = await context.newPage();
+        return {
+          page,
+          async close() {
+            try {
+              await browser.close();
+            } catch {}
+          },
+        };
+      } catch (err) {
+        try {
+          await browser.close();
+        } catch {}
+        throw err;
+      }
+    },
+  };
+}
@@ -0,0 +1,139 @@
+import fs from "node:fs";
+import { MODELS_FILE } from "./models.js";
+import { costUsd, pricingOf } from "./pricing.js";
+import { c as col } from "./colors.js";
+import type { ModelKey, TrialRecord } from "./types.js";
+
+// Run-to-run regression diff: `npm run diff -- results/a.jsonl results/b.jsonl`.
+// Trials are matched by model:task:trial; only matched trials enter the
+// comparison, so a partial rerun is compared like for like. Exits 1 when any
+// model's success rate on matched trials drops by more than --max-drop
+// percentage points, so it can gate CI.
+
+const DEFAULT_MAX_DROP_PP = 5;
+
+function parseArgs(argv: string[]) {
+  const files: string[] = [];
+  let maxDrop = DEFAULT_MAX_DROP_PP;
+  let config = MODELS_FILE;
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--max-drop") maxDrop = Number(argv[++i]);
+    else if (argv[i] === "--config") config = argv[++i];
+    else files.push(argv[i]);
+  }
+  if (files.length !== 2 || !config) {
+    console.error("usage: npm run diff -- results/<before>.jsonl results/<after>.jsonl [--max-drop <pp>] [--config models.json]");
+    process.exit(1);
+  }
+  if (!Number.isFinite(maxDrop) || maxDrop < 0) throw new Error("--max-drop must be a non-negative number of percentage points");
+  return { before: files[0], after: files[1], maxDrop, config };
+}
+
+function load(file: string): Map<string, TrialRecord> {
+  const out = new Map<string, TrialRecord>();
+  for (const line of fs.readFileSync(file, "utf8").split("\n")) {
+    if (!line.trim()) continue;
+    const r = JSON.parse(line) as TrialRecord;
+    // a resumed run can append the same trial twice; the last write wins
+    out.set(`${r.model}:${r.taskId}:${r.trial}`, r);
+  }
+  return out;
+}
+
+function median(xs: number[]): number {
+  if (xs.length === 0) return 0;
+  const s = [...xs].sort((a, b) => a - b);
+  const mid = Math.floor(s.length / 2);
+  return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+}
+
+function meanStepLatencyMs(r: TrialRecord): number {
+  return r.steps.length ? r.steps.reduce((s, st) => s + st.latencyMs, 0) / r.steps.length : 0;
+}
+
+function signed(n: number, digits = 0, unit = ""): string {
+  const s = `${n > 0 ? "+" : ""}${n.toFixed(digits)}${unit}`;
+  return n > 0 ? col.yellow(s) : n < 0 ? col.green(s) : col.dim(s);
+}
+
+function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const before = load(args.before);
+  const after = load(args.after);
+
+  const matched = [...before.keys()].filter((k) => after.has(k));
+  const onlyBefore = [...before.keys()].filter((k) => !after.has(k)).length;
+  const onlyAfter = [...after.keys()].filter((k) => !before.has(k)).length;
+  const modes = (m: Map<string, TrialRecord>) => [...new Set([...m.values()].map((r) => r.observation ?? "screenshot"))].join(",");
+  console.log(col.bold(`${args.before} -> ${args.after}`));
+  console.log(col.dim(`observation: ${modes(before)} -> ${modes(after)}`));
+  console.log(col.dim(`${matched.length} matched trials; ${onlyBefore} only in before, ${onlyAfter} only in after (ignored)`));
+  if (matched.length === 0) {
+    console.error("no trials in common");
+    process.exit(1);
+  }
+
+  const pairs = matched.map((k) => ({ key: k, a: before.get(k)!, b: after.get(k)! }));
+  const models: ModelKey[] = [...new Set(pairs.map((p) => p.a.model))];
+  const regressions: string[] = [];
+
+  console.log(`\n${col.bold("=== per model (matched trials) ===")}`);
+  for (const model of models) {
+    const mine = pairs.filter((p) => p.a.model === model);
+    const n = mine.length;
+    const passA = mine.filter((p) => p.a.pass).length;
+    const passB = mine.filter((p) => p.b.pass).length;
+    const deltaPp = (100 * (passB - passA)) / n;
+    const costA = costUsd(pricingOf([...before.values()], model, args.config), {
+      input: mine.reduce((s, p) => s + p.a.usage.input, 0),
+      output: mine.reduce((s, p) => s + p.a.usage.output, 0),
+    });
+    const costB = costUsd(pricingOf([...after.values()], model, args.config), {
+      input: mine.reduce((s, p) => s + p.b.usage.input, 0),
+      output: mine.reduce((s, p) => s + p.b.usage.output, 0),
+    });
+    const stepsA = median(mine.map((p) => p.a.steps.length));
+    const stepsB = median(mine.map((p) => p.b.steps.length));
+    const wallA = median(mine.map((p) => p.a.wallTimeMs)) / 1000;
+    const wallB = median(mine.map((p) => p.b.wallTimeMs)) / 1000;
+    const latA = median(mine.map((p) => meanStepLatencyMs(p.a)));
+    const latB = median(mine.map((p) => meanStepLatencyMs(p.b)));
+
+    const dropped = -deltaPp > args.maxDrop;
+    if (dropped) regressions.push(`${model}: ${(-deltaPp).toFixed(1)}pp drop`);
+    const successDelta = deltaPp < 0 ? (dropped ? col.red : col.yellow)(`${deltaPp.toFixed(1)}pp`) : col.green(`+${deltaPp.toFixed(1)}pp`);
+
+    console.log(`\n${col.bold(col.magenta(model))} ${col.dim(`(${n} trials)`)}`);
+    console.log(`  success       ${passA}/${n} -> ${passB}/${n} (${successDelta})`);
+    console.log(`  median steps  ${stepsA} -> ${stepsB} (${signed(stepsB - stepsA, 1)})`);
+    console.log(`  median wall   ${wallA.toFixed(1)}s -> ${wallB.toFixed(1)}s (${signed(wallB - wallA, 1, "s")})`);
+    console.log(`  step latency  ${latA.toFixed(0)}ms -> ${latB.toFixed(0)}ms median per-step (${signed(latB - latA, 0, "ms")})`);
+    console.log(`  cost          $${costA.toFixed(2)} -> $${costB.toFixed(2)} (${signed(costB - costA, 2)})`);
+  }
+
+  const toFail = pairs.filter((p) => p.a.pass && !p.b.pass);
+  const toPass = pairs.filter((p) => !p.a.pass && p.b.pass);
+  const reclassified = pairs.filter((p) => !p.a.pass && !p.b.pass && p.a.outcome !== p.b.outcome);
+
+  if (toFail.length) {
+    console.log(`\n${col.bold(col.red(`=== pass -> fail (${toFail.length}) ===`))}`);
+    for (const p of toFail) console.log(`  ${p.key}  ${col.dim(`${p.b.outcome}${p.b.failureDetail ? `: ${p.b.failureDetail}` : ""}`)}`);
+  }
+  if (toPass.length) {
+    console.log(`\n${col.bold(col.green(`=== fail -> pass (${toPass.length}) ===`))}`);
+    for (const p of toPass) console.log(`  ${p.key}  ${col.dim(`was ${p.a.outcome}`)}`);
+  }
+  if (reclassified.length) {
+    console.log(`\n${col.bold(`=== outcome changed, still failing (${reclassified.length}) ===`)}`);
+    for (const p of reclassified) console.log(`  ${p.key}  ${p.a.outcome} -> ${p.b.outcome}`);
+  }
+  if (!toFail.length && !toPass.length && !reclassified.length) console.log(`\n${col.dim("No pass/fail flips or outcome changes.")}`);
+
+  if (regressions.length) {
+    console.error(`\n${col.red(col.bold("REGRESSION"))} (max drop ${args.maxDrop}pp): ${regressions.join("; ")}`);
+    process.exit(1);
+  }
+  console.log(`\n${col.green("OK")} ${col.dim(`no model dropped more than ${args.maxDrop}pp`)}`);
+}
+
+main();
@@ -0,0 +1,66 @@
+import fs from "node:fs";
+import path from "node:path";
+import { startFixtureServer } from "./server.js";
+import { detectBotWall, validatePassCondition } from "../scorer.js";
+import { c } from "../colors.js";
+import type { Task } from "../types.js";
+
+// Offline sanity check for CI: every fixture task's pages load, and
+// detectBotWall fires on the bot_protected fixtures and nowhere else.
+// No browser or model is involved, so it costs nothing to run.
+
+function pageText(html: string): { title: string; body: string } {
+  const title = html.match(/<title>([\s\S]*?)<\/title>/i)?.[1] ?? "";
+  const body = (html.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? "")
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  return { title, body: body.slice(0, 2000) };
+}
+
+async function main() {
+  const server = await startFixtureServer();
+  let failed = 0;
+  try {
+    const text = fs
+      .readFileSync(path.join(import.meta.dirname, "..", "..", "tasks.fixtures.json"), "utf8")
+      .replaceAll("{{FIXTURE_ORIGIN}}", server.origin);
+    const tasks = JSON.parse(text).tasks as Task[];
+    for (const task of tasks) validatePassCondition(task.passCondition, `task ${task.id}`);
+
+    for (const task of tasks) {
+      const urls = [task.startUrl];
+      if (task.passCondition.type === "urlReached") urls.push(task.passCondition.value);
+
+      for (const url of urls) {
+        const res = await fetch(url);
+        const { title, body } = pageText(await res.text());
+        const expectWall = task.category === "bot_protected" && url === task.startUrl;
+        const wall = detectBotWall(title, body);
+        const problems = [
+          ...(res.status >= 400 && !expectWall ? [`HTTP ${res.status}`] : []),
+          ...(wall !== expectWall ? [`detectBotWall=${wall}, expected ${expectWall}`] : []),
+        ];
+        const label = `${c.cyan(task.id)} ${c.dim(new URL(url).pathname)}`;
+        if (problems.length) {
+          failed++;
+          console.log(`${c.red("FAIL")} ${label}: ${problems.join("; ")}`);
+        } else {
+          console.log(`${c.green("ok")}   ${label}`);
+        }
+      }
+    }
+  } finally {
+    await server.close();
+  }
+  if (failed) {
+    console.error(`\n${failed} fixture check(s) failed`);
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
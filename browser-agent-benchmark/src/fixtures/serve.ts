@@ -0,0 +1,21 @@
+import { startFixtureServer } from "./server.js";
+import { c } from "../colors.js";
+
+// Standalone server for browsing the fixture site by hand or pointing an
+// external browser at it: `npm run fixtures -- --port 4173`.
+async function main() {
+  const i = process.argv.indexOf("--port");
+  const port = i >= 0 ? Number(process.argv[i + 1]) : 4173;
+  if (!Number.isInteger(port) || port < 0) throw new Error("--port must be a non-negative integer");
+
+  const server = await startFixtureServer(port);
+  console.log(`${c.bold("Fixture site:")} ${c.cyan(server.origin)} ${c.dim("(Ctrl-C to stop)")}`);
+  process.once("SIGINT", () => {
+    void server.close().then(() => process.exit(0));
+  });
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,59 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { route } from "./site.js";
+
+export interface FixtureServer {
+  origin: string;
+  close(): Promise<void>;
+}
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) reject(new Error("request body too large"));
+    });
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+/** Serves the fixture site on 127.0.0.1. Port 0 picks a free port. */
+export async function startFixtureServer(port = 0): Promise<FixtureServer> {
+  const server = http.createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url ?? "/", "http://fixture.local");
+      const form = req.method === "POST" ? new URLSearchParams(await readBody(req)) : new URLSearchParams();
+      const out = route(req.method ?? "GET", url, form);
+      if (out.redirect) {
+        res.writeHead(out.status, { location: out.redirect });
+        res.end();
+        return;
+      }
+      res.writeHead(out.status, { "content-type": "text/html; charset=utf-8", "cache-control": "no-store" });
+      res.end(out.html ?? "");
+    } catch (err) {
+      res.writeHead(500, { "content-type": "text/plain" });
+      res.end(String(err instanceof Error ? err.message : err));
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, "127.0.0.1", resolve);
+  });
+  const { port: bound } = server.address() as AddressInfo;
+
+  return {
+    origin: `http://127.0.0.1:${bound}`,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
@@ -0,0 +1,515 @@
+// Fixture pages for offline runs. Everything is generated from constants so a
+// page renders byte-identically on every run; no clocks, no randomness.
+
+export interface FixtureResponse {
+  status: number;
+  html?: string;
+  redirect?: string;
+}
+
+const STYLE = `
+  body { font-family: system-ui, sans-serif; margin: 0; color: #1f2328; }
+  header { background: #24292f; color: #fff; padding: 12px 24px; }
+  header a { color: #fff; margin-right: 16px; text-decoration: none; }
+  main { max-width: 880px; margin: 24px auto; padding: 0 24px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #d0d7de; padding: 6px 10px; text-align: left; }
+  label { display: block; margin: 12px 0 4px; }
+  input, select, textarea { font-size: 15px; padding: 6px; width: 320px; }
+  button { font-size: 15px; padding: 8px 16px; margin-top: 16px; cursor: pointer; }
+  .pager a, .pager span { margin-right: 8px; }
+  .steps span { margin-right: 12px; color: #8c959f; }
+  .steps .current { color: #1f2328; font-weight: bold; }
+  .overlay { position: fixed; inset: 0; background: rgba(0, 0, 0, 0.6); display: flex; align-items: center; justify-content: center; }
+  .dialog { background: #fff; padding: 24px; max-width: 420px; border-radius: 8px; }
+  .error { color: #cf222e; }
+  .menu { position: relative; display: inline-block; }
+  .menu ul { display: none; position: absolute; background: #fff; border: 1px solid #d0d7de; margin: 0; padding: 8px 16px; list-style: none; }
+  .menu:hover ul { display: block; }
+`;
+
+function esc(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function layout(title: string, body: string): string {
+  return `<!doctype html>
+<html lang="en">
+<head><meta charset="utf-8"><title>${esc(title)}</title><style>${STYLE}</style></head>
+<body>
+<header><a href="/">Fixture Co.</a><a href="/docs">Docs</a><a href="/parts">Parts catalog</a><a href="/contact">Contact</a><a href="/shop">Shop</a></header>
+<main>
+${body}
+</main>
+</body>
+</html>`;
+}
+
+function hidden(fields: Record<string, string>): string {
+  return Object.entries(fields)
+    .map(([k, v]) => `<input type="hidden" name="${esc(k)}" value="${esc(v)}">`)
+    .join("\n");
+}
+
+// --- home ----------------------------------------------------------------
+
+function home(): string {
+  return layout(
+    "Fixture Co. — Home",
+    `<h1>Fixture Co.</h1>
+<p>Fixture Co. makes replacement parts for lighthouse lamps. Founded in 1911 in the harbour town of Varn, the company now ships to 14 countries.</p>
+<ul>
+  <li><a href="/docs">Documentation</a></li>
+  <li><a href="/parts">Parts catalog</a></li>
+  <li><a href="/contact">Contact form</a></li>
+  <li><a href="/shop">Shop</a></li>
+  <li><a href="/offers">Current offers</a></li>
+  <li><a href="/datasheets">Datasheets</a></li>
+  <li><a href="/portal">Dealer portal</a></li>
+</ul>`,
+  );
+}
+
+// --- docs: nested navigation ---------------------------------------------
+
+const DOCS: Record<string, { title: string; body: string }> = {
+  "": {
+    title: "Documentation",
+    body: `<p>Pick a section.</p>
+<ul>
+  <li><a href="/docs/installation">Installation</a></li>
+  <li><a href="/docs/maintenance">Maintenance</a></li>
+</ul>`,
+  },
+  installation: {
+    title: "Installation",
+    body: `<p>Mount the lamp housing before wiring. See the sub-pages for details.</p>
+<ul>
+  <li><a href="/docs/installation/wiring">Wiring</a></li>
+  <li><a href="/docs/installation/mounting">Mounting</a></li>
+</ul>`,
+  },
+  "installation/wiring": {
+    title: "Wiring",
+    body: `<p>All Fixture Co. lamps run on a 24 V supply. Use 2.5 mm² copper cable for runs under 30 metres.</p>`,
+  },
+  "installation/mounting": {
+    title: "Mounting",
+    body: `<p>Tighten the four M8 mounting bolts to 22 N·m.</p>`,
+  },
+  maintenance: {
+    title: "Maintenance",
+    body: `<p>Routine care for installed lamps.</p>
+<ul>
+  <li><a href="/docs/maintenance/lenses">Cleaning lenses</a></li>
+  <li><a href="/docs/maintenance/bulbs">Replacing bulbs</a></li>
+</ul>`,
+  },
+  "maintenance/lenses": {
+    title: "Cleaning lenses",
+    body: `<p>Clean Fresnel lenses every 90 days with a lint-free cloth and distilled water.</p>`,
+  },
+  "maintenance/bulbs": {
+    title: "Replacing bulbs",
+    body: `<p>The rated bulb life is 6,000 hours. Replace with part FX-1007.</p>`,
+  },
+};
+
+function docs(slug: string): FixtureResponse {
+  const doc = DOCS[slug];
+  if (!doc) return notFound();
+  const crumbs = slug
+    ? `<p><a href="/docs">Docs</a>${slug
+        .split("/")
+        .map((_, i, parts) => {
+          const sub = parts.slice(0, i + 1).join("/");
+          return ` / <a href="/docs/${sub}">${esc(DOCS[sub]?.title ?? sub)}</a>`;
+        })
+        .join("")}</p>`
+    : "";
+  return { status: 200, html: layout(`${doc.title} — Fixture Co. Docs`, `${crumbs}<h1>${esc(doc.title)}</h1>\n${doc.body}`) };
+}
+
+// --- parts catalog: paginated table --------------------------------------
+
+const PAGE_SIZE = 10;
+const PART_NAMES = ["Lens clip", "Bulb", "Gasket", "Reflector", "Fuse", "Mount bracket", "Prism", "Cable gland"];
+const PART_GRADES = ["Standard", "Marine", "Heavy-duty"];
+
+export interface Part {
+  sku: string;
+  name: string;
+  price: number;
+  stock: number;
+}
+
+export const PARTS: Part[] = Array.from({ length: 48 }, (_, i) => ({
+  sku: `FX-${1001 + i}`,
+  name: `${PART_GRADES[i % PART_GRADES.length]} ${PART_NAMES[(i * 5) % PART_NAMES.length].toLowerCase()}`,
+  price: 4.5 + ((i * 37) % 90) + ((i * 13) % 100) / 100,
+  stock: (i * 7) % 23,
+}));
+
+function parts(query: URLSearchParams): FixtureResponse {
+  const pages = Math.ceil(PARTS.length / PAGE_SIZE);
+  const page = Number(query.get("page") ?? "1");
+  if (!Number.isInteger(page) || page < 1 || page > pages) return notFound();
+
+  const rows = PARTS.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE)
+    .map((p) => `<tr data-sku="${p.sku}"><td>${p.sku}</td><td>${esc(p.name)}</td><td>$${p.price.toFixed(2)}</td><td>${p.stock}</td></tr>`)
+    .join("\n");
+  const pager = Array.from({ length: pages }, (_, i) =>
+    i + 1 === page ? `<span class="current">${i + 1}</span>` : `<a href="/parts?page=${i + 1}">${i + 1}</a>`,
+  ).join("");
+  const next = page < pages ? `<a id="next-page" href="/parts?page=${page + 1}">Next &rarr;</a>` : "";
+
+  return {
+    status: 200,
+    html: layout(
+      `Parts catalog — page ${page} of ${pages}`,
+      `<h1>Parts catalog</h1>
+<p>Page ${page} of ${pages}. Prices in USD.</p>
+<table id="parts">
+<thead><tr><th>SKU</th><th>Name</th><th>Unit price</th><th>In stock</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+<p class="pager">${pager} ${next}</p>`,
+    ),
+  };
+}
+
+// --- contact form --------------------------------------------------------
+
+const TOPICS = ["General question", "Order status", "Returns", "Dealer enquiry"];
+
+function contactForm(error?: string, values: Record<string, string> = {}): string {
+  const options = TOPICS.map((t) => `<option${values.topic === t ? " selected" : ""}>${t}</option>`).join("");
+  return layout(
+    "Contact us — Fixture Co.",
+    `<h1>Contact us</h1>
+${error ? `<p class="error" id="form-error">${esc(error)}</p>` : ""}
+<form id="contact" method="post" action="/contact">
+  <label for="name">Full name</label>
+  <input id="name" name="name" value="${esc(values.name ?? "")}">
+  <label for="email">Email</label>
+  <input id="email" name="email" type="email" value="${esc(values.email ?? "")}">
+  <label for="topic">Topic</label>
+  <select id="topic" name="topic">${options}</select>
+  <label for="message">Message</label>
+  <textarea id="message" name="message" rows="4">${esc(values.message ?? "")}</textarea>
+  <label><input type="checkbox" id="subscribe" name="subscribe" value="yes" style="width:auto"> Send me the newsletter</label>
+  <button type="submit" id="send">Send message</button>
+</form>`,
+  );
+}
+
+function contactSubmit(form: URLSearchParams): FixtureResponse {
+  const values = Object.fromEntries(form);
+  if (!values.name?.trim() || !values.email?.includes("@")) {
+    return { status: 422, html: contactForm("Please enter your name and a valid email address.", values) };
+  }
+  const q = new URLSearchParams({
+    name: values.name.trim(),
+    email: values.email.trim(),
+    topic: values.topic ?? TOPICS[0],
+    subscribe: values.subscribe === "yes" ? "yes" : "no",
+  });
+  return { status: 303, redirect: `/contact/thanks?${q}` };
+}
+
+function contactThanks(query: URLSearchParams): FixtureResponse {
+  const name = query.get("name") ?? "";
+  return {
+    status: 200,
+    html: layout(
+      "Message sent — Fixture Co.",
+      `<h1>Thanks, ${esc(name)}!</h1>
+<div id="confirmation" data-name="${esc(name)}" data-email="${esc(query.get("email") ?? "")}" data-topic="${esc(query.get("topic") ?? "")}" data-subscribe="${esc(query.get("subscribe") ?? "no")}">
+<p>We received your message about <strong>${esc(query.get("topic") ?? "")}</strong> and will reply to ${esc(query.get("email") ?? "")}.</p>
+</div>`,
+    ),
+  };
+}
+
+// --- shop: multi-step checkout -------------------------------------------
+// State travels in hidden fields and query strings, so every step is a plain
+// GET/POST with no server-side session to leak between trials.
+
+const SHOP_ITEMS = [
+  { id: "lamp-s", name: "Harbour lamp S", price: 129 },
+  { id: "lamp-m", name: "Harbour lamp M", price: 189 },
+  { id: "lamp-xl", name: "Harbour lamp XL", price: 249 },
+];
+const SHIPPING = { standard: 9, express: 24 } as const;
+
+function steps(current: number): string {
+  return `<p class="steps">${["Cart", "Shipping", "Payment", "Review"]
+    .map((s, i) => `<span${i === current ? ' class="current"' : ""}>${i + 1}. ${s}</span>`)
+    .join("")}</p>`;
+}
+
+function shop(): string {
+  const rows = SHOP_ITEMS.map(
+    (item) => `<tr><td>${item.name}</td><td>$${item.price}</td><td>
+<form method="post" action="/shop/cart"><input type="hidden" name="item" value="${item.id}"><input name="qty" type="number" value="1" min="1" max="9" style="width:60px"><button id="add-${item.id}" type="submit">Add to cart</button></form></td></tr>`,
+  ).join("\n");
+  return layout(
+    "Shop — Fixture Co.",
+    `<h1>Shop</h1>
+<table id="products"><thead><tr><th>Product</th><th>Price</th><th></th></tr></thead>
+<tbody>
+${rows}
+</tbody></table>`,
+  );
+}
+
+function orderFields(form: URLSearchParams): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const k of ["item", "qty", "fullName", "address", "city", "shipping", "cardNumber"]) {
+    const v = form.get(k);
+    if (v !== null) out[k] = v;
+  }
+  return out;
+}
+
+function orderSummary(o: Record<string, string>): string {
+  const item = SHOP_ITEMS.find((i) => i.id === o.item)!;
+  const qty = Number(o.qty);
+  const ship = o.shipping ? SHIPPING[o.shipping as keyof typeof SHIPPING] : 0;
+  const total = item.price * qty + ship;
+  return `<table id="summary">
+<tr><th>Item</th><td>${item.name} × ${qty}</td></tr>
+${o.shipping ? `<tr><th>Shipping</th><td>${o.shipping} ($${ship})</td></tr>` : ""}
+<tr><th>Total</th><td id="order-total">$${total}</td></tr>
+</table>`;
+}
+
+function checkout(path: string, form: URLSearchParams): FixtureResponse {
+  const o = orderFields(form);
+  const qty = Number(o.qty);
+  if (!SHOP_ITEMS.some((i) => i.id === o.item) || !Number.isInteger(qty) || qty < 1 || qty > 9) {
+    return { status: 400, html: layout("Invalid order — Fixture Co.", `<h1>Invalid order</h1><p><a href="/shop">Back to shop</a></p>`) };
+  }
+
+  if (path === "/shop/cart") {
+    return {
+      status: 200,
+      html: layout(
+        "Cart — Fixture Co.",
+        `${steps(0)}<h1>Your cart</h1>
+${orderSummary(o)}
+<form method="post" action="/shop/shipping">${hidden(o)}<button id="checkout" type="submit">Proceed to checkout</button></form>`,
+      ),
+    };
+  }
+
+  if (path === "/shop/shipping") {
+    return {
+      status: 200,
+      html: layout(
+        "Shipping — Fixture Co.",
+        `${steps(1)}<h1>Shipping details</h1>
+<form method="post" action="/shop/payment">${hidden({ item: o.item, qty: o.qty })}
+  <label for="fullName">Full name</label><input id="fullName" name="fullName">
+  <label for="address">Street address</label><input id="address" name="address">
+  <label for="city">City</label><input id="city" name="city">
+  <label for="shipping">Shipping method</label>
+  <select id="shipping" name="shipping"><option value="standard">Standard ($${SHIPPING.standard})</option><option value="express">Express ($${SHIPPING.express})</option></select>
+  <button id="to-payment" type="submit">Continue to payment</button>
+</form>`,
+      ),
+    };
+  }
+
+  if (!o.fullName?.trim() || !o.address?.trim() || !o.city?.trim() || !(o.shipping in SHIPPING)) {
+    return {
+      status: 422,
+      html: layout(
+        "Shipping — Fixture Co.",
+        `${steps(1)}<p class="error" id="form-error">Name, address and city are required.</p>
+<form method="post" action="/shop/shipping">${hidden({ item: o.item, qty: o.qty })}<button type="submit">Back to shipping</button></form>`,
+      ),
+    };
+  }
+
+  if (path === "/shop/payment") {
+    return {
+      status: 200,
+      html: layout(
+        "Payment — Fixture Co.",
+        `${steps(2)}<h1>Payment</h1>
+<p>Use the test card 4242 4242 4242 4242.</p>
+<form method="post" action="/shop/review">${hidden(o)}
+  <label for="cardNumber">Card number</label><input id="cardNumber" name="cardNumber">
+  <button id="to-review" type="submit">Review order</button>
+</form>`,
+      ),
+    };
+  }
+
+  if (o.cardNumber?.replace(/\s/g, "") !== "4242424242424242") {
+    return {
+      status: 402,
+      html: layout(
+        "Payment declined — Fixture Co.",
+        `${steps(2)}<p class="error" id="form-error">Card declined.</p>
+<form method="post" action="/shop/payment">${hidden({ ...o, cardNumber: "" })}<button type="submit">Try again</button></form>`,
+      ),
+    };
+  }
+
+  if (path === "/shop/review") {
+    return {
+      status: 200,
+      html: layout(
+        "Review order — Fixture Co.",
+        `${steps(3)}<h1>Review your order</h1>
+${orderSummary(o)}
+<p>Ship to ${esc(o.fullName)}, ${esc(o.address)}, ${esc(o.city)}.</p>
+<form method="post" action="/shop/place">${hidden(o)}<button id="place-order" type="submit">Place order</button></form>`,
+      ),
+    };
+  }
+
+  // /shop/place: the order number is derived from the order itself so reruns match.
+  const orderNo = `FX-${(o.item.length * 1000 + qty * 100 + o.city.trim().length).toString().padStart(5, "0")}`;
+  const q = new URLSearchParams({ order: orderNo, item: o.item, qty: o.qty, shipping: o.shipping, city: o.city.trim() });
+  return { status: 303, redirect: `/shop/complete?${q}` };
+}
+
+function checkoutComplete(query: URLSearchParams): FixtureResponse {
+  return {
+    status: 200,
+    html: layout(
+      "Order placed — Fixture Co.",
+      `<h1>Thank you for your order</h1>
+<div id="order-complete" data-item="${esc(query.get("item") ?? "")}" data-qty="${esc(query.get("qty") ?? "")}" data-shipping="${esc(query.get("shipping") ?? "")}" data-city="${esc(query.get("city") ?? "")}">
+<p>Your order number is <strong id="order-number">${esc(query.get("order") ?? "")}</strong>.</p>
+</div>`,
+    ),
+  };
+}
+
+// --- offers: modal that must be dismissed --------------------------------
+
+function offers(): string {
+  return layout(
+    "Current offers — Fixture Co.",
+    `<h1>Current offers</h1>
+<p>Spring maintenance sale: 15% off all reflectors.</p>
+<button id="reveal">Reveal discount code</button>
+<p id="code" hidden>Your discount code is <strong>LAMP-7731</strong>.</p>
+<div class="overlay" id="newsletter-modal" role="dialog" aria-modal="true" aria-labelledby="modal-title">
+  <div class="dialog">
+    <h2 id="modal-title">Join our newsletter</h2>
+    <p>Get lamp maintenance tips every month.</p>
+    <input id="modal-email" placeholder="you@example.com">
+    <button id="modal-subscribe">Subscribe</button>
+    <button id="modal-close" aria-label="Close">No thanks</button>
+  </div>
+</div>
+<script>
+  document.getElementById("modal-close").onclick = () => document.getElementById("newsletter-modal").remove();
+  document.getElementById("modal-subscribe").onclick = () => document.getElementById("newsletter-modal").remove();
+  document.getElementById("reveal").onclick = () => { document.getElementById("code").hidden = false; };
+</script>`,
+  );
+}
+
+// --- datasheets: hover menu, new tab, late content ------------------------
+// The product list only shows on hover, datasheets open in a new tab, and the
+// ratings table is filled in after a fixed delay (no clock reads, so the
+// rendered content never varies).
+
+const DATASHEETS: Record<string, { name: string; watts: number; lumens: number }> = {
+  "lamp-s": { name: "Harbour lamp S", watts: 250, lumens: 18_000 },
+  "lamp-m": { name: "Harbour lamp M", watts: 450, lumens: 34_000 },
+  "lamp-xl": { name: "Harbour lamp XL", watts: 1000, lumens: 81_000 },
+};
+
+function datasheets(): string {
+  return layout(
+    "Datasheets — Fixture Co.",
+    `<h1>Datasheets</h1>
+<p>Technical datasheets for every lamp we sell.</p>
+<div class="menu">
+  <button id="datasheet-menu">Choose a product ▾</button>
+  <ul>
+    ${Object.entries(DATASHEETS)
+      .map(([id, d]) => `<li><a href="/datasheets/${id}" target="_blank">${esc(d.name)}</a></li>`)
+      .join("\n    ")}
+  </ul>
+</div>`,
+  );
+}
+
+function datasheet(id: string): FixtureResponse {
+  const d = DATASHEETS[id];
+  if (!d) return notFound();
+  return {
+    status: 200,
+    html: layout(
+      `${d.name} datasheet — Fixture Co.`,
+      `<h1>${esc(d.name)} datasheet</h1>
+<p id="loading">Loading ratings…</p>
+<table id="ratings" hidden>
+  <tr><th>Rated power</th><td>${d.watts} W</td></tr>
+  <tr><th>Luminous flux</th><td>${d.lumens.toLocaleString("en-US")} lm</td></tr>
+</table>
+<script>
+  setTimeout(() => { document.getElementById("loading").remove(); document.getElementById("ratings").hidden = false; }, 2000);
+</script>`,
+    ),
+  };
+}
+
+// --- dealer portal: fake bot wall ----------------------------------------
+// Mimics a Cloudflare-style interstitial that never clears, so bot_protected
+// trials here must end as infra_web_failure via detectBotWall.
+
+function portal(): string {
+  return `<!doctype html>
+<html lang="en">
+<head><meta charset="utf-8"><title>Just a moment...</title><style>${STYLE}</style></head>
+<body>
+<main id="cf-challenge">
+<h1>Checking your browser before accessing the dealer portal</h1>
+<p>Verify you are human by completing the action below.</p>
+<label><input type="checkbox" id="captcha-box" style="width:auto"> I am not a robot</label>
+<p>Enable JavaScript and cookies to continue.</p>
+</main>
+<script>
+  document.getElementById("captcha-box").onchange = (e) => { setTimeout(() => { e.target.checked = false; }, 1500); };
+</script>
+</body>
+</html>`;
+}
+
+function notFound(): FixtureResponse {
+  return { status: 404, html: layout("Not found — Fixture Co.", `<h1>Page not found</h1><p><a href="/">Home</a></p>`) };
+}
+
+export function route(method: string, url: URL, form: URLSearchParams): FixtureResponse {
+  const path = url.pathname.replace(/\/$/, "") || "/";
+
+  if (method === "GET") {
+    if (path === "/") return { status: 200, html: home() };
+    if (path === "/docs" || path.startsWith("/docs/")) return docs(path.slice("/docs/".length));
+    if (path === "/parts") return parts(url.searchParams);
+    if (path === "/contact") return { status: 200, html: contactForm() };
+    if (path === "/contact/thanks") return contactThanks(url.searchParams);
+    if (path === "/shop") return { status: 200, html: shop() };
+    if (path === "/shop/complete") return checkoutComplete(url.searchParams);
+    if (path === "/offers") return { status: 200, html: offers() };
+    if (path === "/datasheets") return { status: 200, html: datasheets() };
+    if (path.startsWith("/datasheets/")) return datasheet(path.slice("/datasheets/".length));
+    if (path === "/portal") return { status: 403, html: portal() };
+  }
+  if (method === "POST") {
+    if (path === "/contact") return contactSubmit(form);
+    if (path.startsWith("/shop/")) return checkout(path, form);
+  }
+  return notFound();
+}
@@ -1,26 +1,69 @@
-import { Hyperbrowser } from "@hyperbrowser/sdk";
-import { chromium, type Page } from "playwright-core";
-import { ModelRefusalError, type Action, type ChatMessage, type ModelAdapter, type StepLog, type Task, type Usage } from "./types.js";
+import type { Page } from "playwright-core";
+import type { BrowserProvider } from "./browsers.js";
+import { conditionSelectors } from "./scorer.js";
+import { indexSelector, observe, type ObservationMode } from "./observe.js";
+import type { Trajectory } from "./trajectory.js";
+import {
+  ModelRefusalError,
+  type Action,
+  type ChatMessage,
+  type ModelAdapter,
+  type StepLog,
+  type Target,
+  type Task,
+  type Usage,
+} from "./types.js";
 
 export const MAX_STEPS = 20;
 export const WALL_CLOCK_MS = 3 * 60 * 1000;
+/** Upper bound for wait_for, both the fixed delay and waiting on an element or text. */
+const WAIT_MAX_MS = 10_000;
 
-// One system prompt for all models. Committed here; never tuned per model.
-export const SYSTEM_PROMPT = `You control a web browser to complete one task. Each turn you receive the current page URL, title, and a screenshot. Reply with EXACTLY ONE action as a single JSON object and nothing else.
+const OBSERVATION_PROMPT: Record<ObservationMode, string> = {
+  screenshot: "the current page URL, title, and a screenshot",
+  axtree: "the current page URL, title, and a pruned accessibility tree of the page in which interactive elements are numbered [n]",
+  dom: "the current page URL, title, a numbered list of the page's interactive elements ([n]), and the page's visible text",
+  hybrid: "the current page URL, title, a screenshot, and a numbered list of the page's interactive elements ([n])",
+};
+
+// One system prompt per observation mode, identical for all models. Committed
+// here; never tuned per model.
+export function systemPrompt(mode: ObservationMode): string {
+  const indexed = mode !== "screenshot";
+  const target = (verb: string, extra = "") =>
+    indexed
+      ? `{"action":"${verb}","index":<n>${extra}} or {"action":"${verb}","selector":"<css selector>"${extra}}`
+      : `{"action":"${verb}","selector":"<css selector>"${extra}}`;
+  return `You control a web browser to complete one task. Each turn you receive ${OBSERVATION_PROMPT[mode]}. Reply with EXACTLY ONE action as a single JSON object and nothing else.
 
 Actions:
-{"action":"click","selector":"<css selector>"}
-{"action":"type","selector":"<css selector>","text":"<text>"} (clears the field, then types)
+${target("click")}
+${target("type", ',"text":"<text>"')} (clears the field, then types)
 {"action":"navigate","url":"<absolute url>"}
 {"action":"scroll","direction":"up"} or {"action":"scroll","direction":"down"}
+${target("select_option", ',"option":"<option label or value>"')} (picks an option of a <select>)
+${target("hover")}
+{"action":"keypress","key":"<key, e.g. Enter, Escape, Tab, ArrowDown>"} (to the focused element; add ${indexed ? '"index" or "selector"' : '"selector"'} to focus an element first)
+{"action":"go_back"} (the browser's back button)
+{"action":"wait_for","selector":"<css selector>"} or {"action":"wait_for","text":"<visible text>"} (waits up to ${WAIT_MAX_MS / 1000}s for it to appear) or {"action":"wait_for","ms":<1 to ${WAIT_MAX_MS}>}
+{"action":"switch_tab","tab":<n>} (open tabs are listed when there is more than one; a tab the page opens becomes current by itself)
 {"action":"extract","answer":"<answer text>"} (records your answer to the task)
 {"action":"done"} (ends the task; if the task asks for information, extract first, then done)
 
-Rules: use standard CSS selectors. Steps are limited, so act decisively.`;
+Rules: ${indexed ? "prefer element indices from the latest observation (they change every turn); otherwise use" : "use"} standard CSS selectors. Steps are limited, so act decisively.`;
+}
+
+export const SYSTEM_PROMPT = systemPrompt("screenshot");
 
 const FORMAT_REMINDER =
   'Your reply was not a single valid action JSON object. Reply with exactly one JSON object from the action list, e.g. {"action":"done"} — no prose, no code fences.';
 
+function parseTarget(a: Record<string, unknown>): Target | null {
+  if (typeof a.selector === "string") return { selector: a.selector };
+  if (typeof a.index === "number" && Number.isInteger(a.index) && a.index >= 0) return { index: a.index };
+  return null;
+}
+
 export function parseAction(text: string): Action | null {
   let t = text.trim();
   const fence = t.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
@@ -34,16 +77,40 @@ export function parseAction(text: string): Action | null {
   if (typeof obj !== "object" || obj === null) return null;
   const a = obj as Record<string, unknown>;
   switch (a.action) {
-    case "click":
-      return typeof a.selector === "string" ? { action: "click", selector: a.selector } : null;
-    case "type":
-      return typeof a.selector === "string" && typeof a.text === "string"
-        ? { action: "type", selector: a.selector, text: a.text }
-        : null;
+    case "click": {
+      const target = parseTarget(a);
+      return target ? { action: "click", ...target } : null;
+    }
+    case "type": {
+      const target = parseTarget(a);
+      return target && typeof a.text === "string" ? { action: "type", ...target, text: a.text } : null;
+    }
     case "navigate":
       return typeof a.url === "string" ? { action: "navigate", url: a.url } : null;
     case "scroll":
       return a.direction === "up" || a.direction === "down" ? { action: "scroll", direction: a.direction } : null;
+    case "select_option": {
+      const target = parseTarget(a);
+      return target && typeof a.option === "string" ? { action: "select_option", ...target, option: a.option } : null;
+    }
+    case "hover": {
+      const target = parseTarget(a);
+      return target ? { action: "hover", ...target } : null;
+    }
+    case "keypress": {
+      if (typeof a.key !== "string" || !a.key) return null;
+      const target = a.selector !== undefined || a.index !== undefined ? parseTarget(a) : {};
+      return target ? { action: "keypress", ...target, key: a.key } : null;
+    }
+    case "go_back":
+      return { action: "go_back" };
+    case "wait_for":
+      if (typeof a.selector === "string") return { action: "wait_for", selector: a.selector };
+      if (typeof a.text === "string") return { action: "wait_for", text: a.text };
+      if (typeof a.ms === "number" && a.ms > 0 && a.ms <= WAIT_MAX_MS) return { action: "wait_for", ms: a.ms };
+      return null;
+    case "switch_tab":
+      return typeof a.tab === "number" && Number.isInteger(a.tab) && a.tab >= 0 ? { action: "switch_tab", tab: a.tab } : null;
     case "extract":
       return typeof a.answer === "string" ? { action: "extract", answer: a.answer } : null;
     case "done":
@@ -53,13 +120,22 @@ export function parseAction(text: string): Action | null {
   }
 }
 
-async function execute(page: Page, action: Action): Promise<void> {
+async function resolveTarget(page: Page, target: Target): Promise<string> {
+  if ("selector" in target) return target.selector;
+  const selector = indexSelector(target.index);
+  // Fail fast instead of waiting out the click timeout on a stale index
+  if (!(await page.$(selector))) throw new Error(`no element [${target.index}] on the page; indices refer to the latest observation`);
+  return selector;
+}
+
+/** Runs one action; returns the page the agent is on afterwards (switch_tab changes it). */
+async function execute(page: Page, action: Action): Promise<Page> {
   switch (action.action) {
     case "click":
-      await page.click(action.selector, { timeout: 10_000 });
+      await page.click(await resolveTarget(page, action), { timeout: 10_000 });
       break;
     case "type":
-      await page.fill(action.selector, action.text, { timeout: 10_000 });
+      await page.fill(await resolveTarget(page, action), action.text, { timeout: 10_000 });
       break;
     case "navigate":
       await page.goto(action.url, { waitUntil: "domcontentloaded", timeout: 20_000 });
@@ -67,12 +143,65 @@ async function execute(page: Page, action: Action): Promise<void> {
     case "scroll":
       await page.mouse.wheel(0, action.direction === "down" ? 600 : -600);
       break;
+    case "select_option":
+      // a string matches an option by value or by label
+      await page.selectOption(await resolveTarget(page, action), action.option, { timeout: 10_000 });
+      break;
+    case "hover":
+      await page.hover(await resolveTarget(page, action), { timeout: 10_000 });
+      break;
+    case "keypress":
+      if ("selector" in action || "index" in action) {
+        await page.press(await resolveTarget(page, action), action.key, { timeout: 10_000 });
+      } else {
+        await page.keyboard.press(action.key);
+      }
+      break;
+    case "go_back":
+      if (!(await page.goBack({ waitUntil: "domcontentloaded", timeout: 20_000 }))) throw new Error("no previous page in this tab");
+      break;
+    case "wait_for":
+      if ("ms" in action) await page.waitForTimeout(action.ms);
+      else if ("selector" in action) await page.waitForSelector(action.selector, { timeout: WAIT_MAX_MS });
+      else await page.getByText(action.text).first().waitFor({ timeout: WAIT_MAX_MS });
+      break;
+    case "switch_tab": {
+      const pages = page.context().pages();
+      const tab = pages[action.tab];
+      if (!tab) throw new Error(`no tab ${action.tab}; ${pages.length} open`);
+      await tab.bringToFront();
+      return tab;
+    }
     case "extract":
     case "done":
       break;
   }
+  return page;
+}
+
+/** Tab list for the observation; empty while only one tab is open. */
+async function describeTabs(current: Page): Promise<string> {
+  const pages = current.context().pages();
+  if (pages.length < 2) return "";
+  const lines = await Promise.all(
+    pages.map(async (p, i) => {
+      const title = await p.title().catch(() => "");
+      return `[${i}] ${JSON.stringify(title)} ${p.url()}${p === current ? " (current)" : ""}`;
+    }),
+  );
+  return `\nTabs:\n${lines.join("\n")}`;
+}
+
+export interface ElementProbe {
+  exists: boolean;
+  /** textContent with whitespace collapsed */
+  text: string | null;
+  /** form field value; "true"/"false" for checkboxes and radios */
+  value: string | null;
 }
 
+const MISSING: ElementProbe = { exists: false, text: null, value: null };
+
 export interface TrialResult {
   steps: StepLog[];
   finalAnswer: string | null;
@@ -80,7 +209,8 @@ export interface TrialResult {
   visitedUrls: string[];
   finalTitle: string;
   finalBodySnippet: string;
-  elementFound: boolean | null; // only checked for elementExists tasks
+  /** final-page state of every selector the pass condition references */
+  elements: Record<string, ElementProbe>;
   refused: boolean;
   wallTimeMs: number;
   usage: Usage;
@@ -88,7 +218,19 @@ export interface TrialResult {
   infraError?: string;
 }
 
-export async function runTrial(hb: Hyperbrowser, adapter: ModelAdapter, task: Task): Promise<TrialResult> {
+export interface TrialOptions {
+  observation?: ObservationMode;
+  trajectory?: Trajectory;
+}
+
+export async function runTrial(
+  browsers: BrowserProvider,
+  adapter: ModelAdapter,
+  task: Task,
+  { observation = "screenshot", trajectory }: TrialOptions = {},
+): Promise<TrialResult> {
+  const system = systemPrompt(observation);
+  const withImage = observation === "screenshot" || observation === "hybrid";
   const start = Date.now();
   const deadline = start + WALL_CLOCK_MS;
   const steps: StepLog[] = [];
@@ -100,15 +242,18 @@ export async function runTrial(hb: Hyperbrowser, adapter: ModelAdapter, task: Ta
   let finalUrl: string | null = null;
   let finalTitle = "";
   let finalBodySnippet = "";
-  let elementFound: boolean | null = null;
+  const elements: Record<string, ElementProbe> = {};
 
-  const session = await hb.sessions.create({ timeoutMinutes: 5 });
-  let browser;
+  const handle = await browsers.open();
+  const close = handle.close;
+  let page = handle.page;
+  // A tab the page opens (target=_blank, window.open) becomes current, as it
+  // would for a person; switch_tab goes back.
+  let opened: Page | null = null;
+  page.context().on("page", (p) => {
+    opened = p;
+  });
   try {
-    browser = await chromium.connectOverCDP(session.wsEndpoint);
-    const context = browser.contexts()[0] ?? (await browser.newContext());
-    const page = context.pages()[0] ?? (await context.newPage());
-
     try {
       await page.goto(task.startUrl, { waitUntil: "domcontentloaded", timeout: 30_000 });
     } catch (err) {
@@ -121,21 +266,38 @@ export async function runTrial(hb: Hyperbrowser, adapter: ModelAdapter, task: Ta
       let done = false;
 
       for (let n = 1; n <= MAX_STEPS && !done && Date.now() < deadline; n++) {
-        // Observation: one format for all models. Only the latest screenshot
-        // is sent as an image; older observations stay as text.
-        for (const m of messages) delete m.imageB64;
-        const shot = await page.screenshot({ type: "png" });
-        visitedUrls.push(page.url());
+        // Observation: one format for all models within a run. Only the latest
+        // screenshot / page text is sent; older observations shrink to URL + title.
+        for (const m of messages) {
+          delete m.imageB64;
+          if (m.pageText) m.text = m.text.replace(m.pageText, "");
+          delete m.pageText;
+        }
+        // Trajectories keep a screenshot even when the model doesn't get one
+        const shot = withImage || trajectory ? await page.screenshot({ type: "png" }) : null;
+        const url = page.url();
+        const title = await page.title();
+        const pageObs = await observe(page, observation);
+        visitedUrls.push(url);
+        const pageText = pageObs.text ? `\n${pageObs.text}` : "";
         const obs =
-          `URL: ${page.url()}\nTitle: ${await page.title()}` +
-          (lastExecError ? `\nPrevious action failed: ${lastExecError}` : "");
-        messages.push({ role: "user", text: obs, imageB64: shot.toString("base64") });
+          `URL: ${url}\nTitle: ${title}` +
+          (await describeTabs(page)) +
+          (lastExecError ? `\nPrevious action failed: ${lastExecError}` : "") +
+          pageText;
+        messages.push({
+          role: "user",
+          text: obs,
+          ...(withImage && shot ? { imageB64: shot.toString("base64") } : {}),
+          ...(pageText ? { pageText } : {}),
+        });
         lastExecError = undefined;
 
         const t0 = Date.now();
-        let reply = await adapter.step(SYSTEM_PROMPT, messages);
+        let reply = await adapter.step(system, messages);
         usage.input += reply.usage.input;
         usage.output += reply.usage.output;
+        const replies = [reply.text];
         let action = parseAction(reply.text);
         let parseError = false;
 
@@ -143,7 +305,8 @@ export async function runTrial(hb: Hyperbrowser, adapter: ModelAdapter, task: Ta
           // one retry with a format reminder; second failure = no-op error step
           messages.push({ role: "assistant", text: reply.text });
           messages.push({ role: "user", text: FORMAT_REMINDER });
-          reply = await adapter.step(SYSTEM_PROMPT, messages);
+          reply = await adapter.step(system, messages);
+          replies.push(reply.text);
           usage.input += reply.usage.input;
           usage.output += reply.usage.output;
           action = parseAction(reply.text);
@@ -152,29 +315,43 @@ export async function runTrial(hb: Hyperbrowser, adapter: ModelAdapter, task: Ta
         const latencyMs = Date.now() - t0;
         messages.push({ role: "assistant", text: reply.text });
 
+        const observed = { url, title, png: shot, replies, observation: pageObs.text };
+
         if (!action) {
-          steps.push({ n, action: { raw: reply.text }, parseError: true, latencyMs, usage: reply.usage });
+          const step: StepLog = { n, action: { raw: reply.text }, parseError: true, latencyMs, usage: reply.usage };
+          steps.push(step);
+          trajectory?.addStep(step, observed);
           continue;
         }
 
         let execError: string | undefined;
         try {
-          await execute(page, action);
+          page = await execute(page, action);
         } catch (err) {
           execError = String(err instanceof Error ? err.message : err).slice(0, 300);
           lastExecError = execError;
         }
+        const popup: Page | null = opened;
+        opened = null;
+        if (popup) {
+          page = popup;
+          await page.waitForLoadState("domcontentloaded", { timeout: 10_000 }).catch(() => {});
+        }
+        // the current tab closed itself (window.close()): fall back to the last open one
+        if (page.isClosed()) page = page.context().pages().at(-1) ?? page;
         if (action.action === "extract") finalAnswer = action.answer;
         if (action.action === "done") done = true;
 
-        steps.push({
+        const step: StepLog = {
           n,
           action,
           ...(parseError ? { parseError: true as const } : {}),
           ...(execError ? { execError } : {}),
           latencyMs,
           usage: reply.usage,
-        });
+        };
+        steps.push(step);
+        trajectory?.addStep(step, observed);
       }
     }
 
@@ -186,23 +363,37 @@ export async function runTrial(hb: Hyperbrowser, adapter: ModelAdapter, task: Ta
     } catch {
       /* page may be gone; scorer works with what we have */
     }
-    if (task.passCondition.type === "elementExists") {
+    if (trajectory) {
+      let png: Buffer | null = null;
       try {
-        elementFound = (await page.$(task.passCondition.selector)) !== null;
+        png = await page.screenshot({ type: "png" });
+      } catch {}
+      trajectory.setFinal(finalUrl, finalTitle, png);
+    }
+    for (const selector of conditionSelectors(task.passCondition)) {
+      try {
+        const el = await page.$(selector);
+        elements[selector] = el
+          ? await el.evaluate((node): ElementProbe => {
+              let value: string | null = null;
+              if (node instanceof HTMLInputElement) {
+                value = node.type === "checkbox" || node.type === "radio" ? String(node.checked) : node.value;
+              } else if (node instanceof HTMLSelectElement || node instanceof HTMLTextAreaElement) {
+                value = node.value;
+              }
+              return { exists: true, text: (node.textContent ?? "").replace(/\s+/g, " ").trim(), value };
+            })
+          : MISSING;
       } catch {
-        elementFound = false;
+        elements[selector] = MISSING;
       }
     }
   } catch (err) {
     if (err instanceof ModelRefusalError) refused = true;
     else throw err;
   } finally {
-    try {
-      await browser?.close();
-    } catch {}
-    try {
-      await hb.sessions.stop(session.id);
-    } catch {}
+    trajectory?.save();
+    await close();
   }
 
   return {
@@ -212,7 +403,7 @@ export async function runTrial(hb: Hyperbrowser, adapter: ModelAdapter, task: Ta
     visitedUrls,
     finalTitle,
     finalBodySnippet,
-    elementFound,
+    elements,
     refused,
     wallTimeMs: Date.now() - start,
     usage,
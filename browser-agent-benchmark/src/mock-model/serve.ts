@@ -0,0 +1,31 @@
+import fs from "node:fs";
+import { startMockModelServer } from "./server.js";
+import { c } from "../colors.js";
+
+// `npm run mock-model -- [--port 4010] [--script replies.json]`, where the
+// script is a JSON array of reply strings, one per turn. The "mock" entry in
+// models.json points at the default port.
+async function main() {
+  const argv = process.argv.slice(2);
+  let port = 4010;
+  let script: string[] | undefined;
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--port") port = Number(argv[++i]);
+    else if (argv[i] === "--script") script = JSON.parse(fs.readFileSync(argv[++i], "utf8")) as string[];
+  }
+  if (!Number.isInteger(port) || port < 0) throw new Error("--port must be a non-negative integer");
+  if (script && (!Array.isArray(script) || !script.every((r) => typeof r === "string"))) {
+    throw new Error("--script must be a JSON array of reply strings");
+  }
+
+  const server = await startMockModelServer(port, script);
+  console.log(`${c.bold("Mock model:")} ${c.cyan(server.baseURL)} ${c.dim("(Ctrl-C to stop)")}`);
+  process.once("SIGINT", () => {
+    void server.close().then(() => process.exit(0));
+  });
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,107 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+
+// A deterministic OpenAI-compatible chat completions endpoint for exercising
+// the whole pipeline (config, adapter, loop, scorer, analyzer) offline and at
+// zero cost. It is not a model: it answers from a fixed script, indexed by how
+// many assistant turns the request already holds.
+
+export interface MockModelServer {
+  baseURL: string;
+  close(): Promise<void>;
+}
+
+interface ChatRequest {
+  model?: string;
+  messages?: { role: string; content: unknown }[];
+}
+
+// Observations are large (screenshots, page text); only a hard cap.
+const MAX_BODY_BYTES = 32 * 1024 * 1024;
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) reject(new Error("request body too large"));
+    });
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+function textOf(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) return content.map((p: { text?: string }) => p.text ?? "").join("");
+  return "";
+}
+
+/** Default script: answer with the page title, then stop. */
+function defaultReply(turn: number, lastUser: string): string {
+  if (turn > 0) return JSON.stringify({ action: "done" });
+  const title = lastUser.match(/^Title: (.*)$/m)?.[1] ?? "";
+  return JSON.stringify({ action: "extract", answer: title });
+}
+
+/**
+ * Serves POST /v1/chat/completions and GET /v1/models on 127.0.0.1. With a
+ * `script`, turn n replies with script[n] (then {"action":"done"} once it runs
+ * out); otherwise the default script above. Port 0 picks a free port.
+ */
+export async function startMockModelServer(port = 0, script?: string[]): Promise<MockModelServer> {
+  const server = http.createServer(async (req, res) => {
+    const json = (status: number, body: unknown) => {
+      res.writeHead(status, { "content-type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+    try {
+      const url = new URL(req.url ?? "/", "http://mock.local");
+      if (req.method === "GET" && url.pathname === "/v1/models") {
+        json(200, { object: "list", data: [{ id: "mock-agent", object: "model", owned_by: "local" }] });
+        return;
+      }
+      if (req.method !== "POST" || url.pathname !== "/v1/chat/completions") {
+        json(404, { error: { message: `no route for ${req.method} ${url.pathname}` } });
+        return;
+      }
+      const body = JSON.parse(await readBody(req)) as ChatRequest;
+      const messages = body.messages ?? [];
+      const turn = messages.filter((m) => m.role === "assistant").length;
+      const lastUser = textOf(messages.filter((m) => m.role === "user").at(-1)?.content);
+      const reply = script ? (script[turn] ?? JSON.stringify({ action: "done" })) : defaultReply(turn, lastUser);
+      // usage is a chars/4 estimate, so token counts and cost stay plausible in reports
+      const promptChars = messages.reduce((s, m) => s + textOf(m.content).length, 0);
+      json(200, {
+        id: `chatcmpl-mock-${Date.now()}`,
+        object: "chat.completion",
+        created: Math.floor(Date.now() / 1000),
+        model: body.model ?? "mock-agent",
+        choices: [{ index: 0, message: { role: "assistant", content: reply }, finish_reason: "stop" }],
+        usage: {
+          prompt_tokens: Math.ceil(promptChars / 4),
+          completion_tokens: Math.ceil(reply.length / 4),
+          total_tokens: Math.ceil(promptChars / 4) + Math.ceil(reply.length / 4),
+        },
+      });
+    } catch (err) {
+      json(400, { error: { message: String(err instanceof Error ? err.message : err) } });
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, "127.0.0.1", resolve);
+  });
+  const { port: bound } = server.address() as AddressInfo;
+
+  return {
+    baseURL: `http://127.0.0.1:${bound}/v1`,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
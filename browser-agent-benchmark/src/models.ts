@@ -0,0 +1,69 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { ModelConfig, ModelKey } from "./types.js";
+
+// Which models a run compares lives in models.json, not in code: any
+// OpenAI-compatible endpoint or the Anthropic API, with its prices and whether
+// it can see screenshots. Validated up front so a typo fails before any trial.
+
+export const MODELS_FILE = path.join(import.meta.dirname, "..", "models.json");
+
+const PROVIDERS = ["openai", "anthropic"];
+const EFFORTS = ["low", "medium", "high"];
+
+function validateModelConfig(m: ModelConfig, where: string): void {
+  if (typeof m !== "object" || m === null) throw new Error(`${where}: must be an object`);
+  if (typeof m.key !== "string" || !/^[a-z0-9][a-z0-9._-]*$/i.test(m.key)) {
+    throw new Error(`${where}: key must be a non-empty name of letters, digits, ".", "_" or "-"`);
+  }
+  if (!PROVIDERS.includes(m.provider)) throw new Error(`${where}: provider must be one of ${PROVIDERS.join(", ")}`);
+  if (typeof m.model !== "string" || !m.model) throw new Error(`${where}: model must be a non-empty string`);
+  if (m.baseURL !== undefined) {
+    if (typeof m.baseURL !== "string" || !URL.canParse(m.baseURL)) throw new Error(`${where}: baseURL must be an absolute URL`);
+    if (m.provider === "anthropic") throw new Error(`${where}: baseURL is only supported for provider "openai"`);
+  }
+  if (m.apiKeyEnv !== undefined && (typeof m.apiKeyEnv !== "string" || !m.apiKeyEnv)) {
+    throw new Error(`${where}: apiKeyEnv must be the name of an environment variable`);
+  }
+  if (m.apiKeyEnv === undefined && m.baseURL === undefined) {
+    throw new Error(`${where}: apiKeyEnv is required unless baseURL points at an endpoint without auth`);
+  }
+  const p = m.pricing;
+  if (typeof p !== "object" || p === null || !(p.input >= 0) || !(p.output >= 0)) {
+    throw new Error(`${where}: pricing must be {"input": <usd per 1M>, "output": <usd per 1M>}`);
+  }
+  if (typeof m.images !== "boolean") throw new Error(`${where}: images must be true or false`);
+  if (m.reasoningEffort !== undefined && !EFFORTS.includes(m.reasoningEffort)) {
+    throw new Error(`${where}: reasoningEffort must be one of ${EFFORTS.join(", ")}`);
+  }
+  if (m.reasoningEffortOptional !== undefined && typeof m.reasoningEffortOptional !== "boolean") {
+    throw new Error(`${where}: reasoningEffortOptional must be true or false`);
+  }
+  if (m.maxTokens !== undefined && !(Number.isInteger(m.maxTokens) && m.maxTokens > 0)) {
+    throw new Error(`${where}: maxTokens must be a positive integer`);
+  }
+  if (m.default !== undefined && typeof m.default !== "boolean") throw new Error(`${where}: default must be true or false`);
+}
+
+export function loadModelConfigs(file = MODELS_FILE): ModelConfig[] {
+  const name = path.basename(file);
+  const models = (JSON.parse(fs.readFileSync(file, "utf8")) as { models?: ModelConfig[] }).models;
+  if (!Array.isArray(models) || models.length === 0) throw new Error(`${name}: "models" must be a non-empty array`);
+  const seen = new Set<string>();
+  for (const [i, m] of models.entries()) {
+    validateModelConfig(m, `${name}: models[${i}]${typeof m?.key === "string" ? ` (${m.key})` : ""}`);
+    if (seen.has(m.key)) throw new Error(`${name}: duplicate key "${m.key}"`);
+    seen.add(m.key);
+  }
+  return models;
+}
+
+/** The models named in --models, in config order; without --models, every model not marked `"default": false`. */
+export function selectModels(configs: ModelConfig[], keys: ModelKey[]): ModelConfig[] {
+  if (keys.length === 0) return configs.filter((m) => m.default !== false);
+  const unknown = keys.filter((k) => !configs.some((m) => m.key === k));
+  if (unknown.length) {
+    throw new Error(`--models: unknown key(s) ${unknown.join(", ")}; configured: ${configs.map((m) => m.key).join(", ")}`);
+  }
+  return configs.filter((m) => keys.includes(m.key));
+}
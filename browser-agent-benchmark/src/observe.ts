@@ -0,0 +1,157 @@
+import type { Page } from "playwright-core";
+
+export type ObservationMode = "screenshot" | "axtree" | "dom" | "hybrid";
+
+export const OBSERVATION_MODES: ObservationMode[] = ["screenshot", "axtree", "dom", "hybrid"];
+
+/** Attribute the page scan stamps on interactive elements; index targets resolve through it. */
+export const INDEX_ATTR = "data-bench-idx";
+
+// Text observations are capped so a huge page can't blow the context window;
+// the cut is announced in the observation, never silent.
+const MAX_TEXT_CHARS = 12_000;
+
+export interface PageObservation {
+  /** text appended after URL/title; empty in screenshot mode */
+  text: string;
+  /** number of indexed interactive elements (0 in screenshot mode) */
+  elements: number;
+}
+
+// Runs in the page. Kept as a plain string rather than a function so the TS
+// toolchain can't inject helpers (e.g. esbuild's __name) that don't exist there.
+// Walks the visible DOM once, stamps INDEX_ATTR on interactive elements, and
+// returns both a pruned role/name tree and the flat indexed element list.
+const SCAN_SCRIPT = `(() => {
+  const ATTR = ${JSON.stringify(INDEX_ATTR)};
+  const SKIP = new Set(["SCRIPT", "STYLE", "NOSCRIPT", "TEMPLATE", "SVG", "HEAD", "META", "LINK"]);
+  const INTERACTIVE_ROLES = new Set(["button", "link", "checkbox", "radio", "tab", "menuitem", "option", "switch", "textbox", "combobox", "searchbox", "slider"]);
+  const NAMED_BY_TEXT = new Set(["heading", "img", "cell", "columnheader"]);
+  const IMPLICIT = { A: "link", BUTTON: "button", SELECT: "combobox", TEXTAREA: "textbox", H1: "heading", H2: "heading", H3: "heading", H4: "heading", H5: "heading", H6: "heading", IMG: "img", UL: "list", OL: "list", LI: "listitem", TABLE: "table", TR: "row", TH: "columnheader", TD: "cell", NAV: "navigation", MAIN: "main", HEADER: "banner", FOOTER: "contentinfo", FORM: "form", DIALOG: "dialog", SUMMARY: "button" };
+  const clip = (s, n) => { s = (s || "").replace(/\\s+/g, " ").trim(); return s.length > n ? s.slice(0, n - 1) + "…" : s; };
+
+  const visible = (el) => {
+    if (el.hidden || el.getAttribute("aria-hidden") === "true") return false;
+    const cs = getComputedStyle(el);
+    if (cs.display === "none" || cs.visibility === "hidden") return false;
+    if (el.tagName === "INPUT" && el.type === "hidden") return false;
+    return true;
+  };
+  const roleOf = (el) => {
+    const explicit = el.getAttribute("role");
+    if (explicit) return explicit.split(" ")[0];
+    if (el.tagName === "A") return el.hasAttribute("href") ? "link" : null;
+    if (el.tagName === "INPUT") {
+      const t = el.type;
+      if (t === "checkbox" || t === "radio") return t;
+      if (t === "submit" || t === "button" || t === "reset" || t === "image") return "button";
+      if (t === "range") return "slider";
+      if (t === "search") return "searchbox";
+      return "textbox";
+    }
+    return IMPLICIT[el.tagName] || null;
+  };
+  const nameOf = (el) => {
+    const label = el.getAttribute("aria-label");
+    if (label) return clip(label, 80);
+    const by = el.getAttribute("aria-labelledby");
+    if (by) {
+      const t = by.split(" ").map((id) => document.getElementById(id)?.textContent || "").join(" ");
+      if (t.trim()) return clip(t, 80);
+    }
+    if (el.id && (el.tagName === "INPUT" || el.tagName === "SELECT" || el.tagName === "TEXTAREA")) {
+      const l = document.querySelector('label[for="' + CSS.escape(el.id) + '"]');
+      if (l) return clip(l.textContent, 80);
+    }
+    const wrap = el.closest("label");
+    if (wrap && wrap !== el) return clip(wrap.textContent, 80);
+    if (el.tagName === "IMG") return clip(el.getAttribute("alt"), 80);
+    if (el.tagName === "INPUT" && (el.type === "submit" || el.type === "button")) return clip(el.value, 80);
+    const text = el.tagName === "INPUT" || el.tagName === "SELECT" || el.tagName === "TEXTAREA" ? "" : el.textContent;
+    return clip(text || el.getAttribute("title") || el.getAttribute("placeholder") || "", 80);
+  };
+  const isInteractive = (el, role) => {
+    if (el.disabled) return false;
+    if (["A", "BUTTON", "INPUT", "SELECT", "TEXTAREA", "SUMMARY"].includes(el.tagName)) return role !== null;
+    if (role && INTERACTIVE_ROLES.has(role)) return true;
+    if (el.hasAttribute("onclick") || el.isContentEditable) return true;
+    const tab = el.getAttribute("tabindex");
+    return tab !== null && Number(tab) >= 0;
+  };
+  const stateOf = (el) => {
+    const parts = [];
+    if (el.tagName === "INPUT" && (el.type === "checkbox" || el.type === "radio")) parts.push(el.checked ? "checked" : "unchecked");
+    else if (el.tagName === "SELECT") {
+      parts.push("value=" + JSON.stringify(clip(el.selectedOptions[0]?.textContent, 60)));
+      parts.push("options=" + JSON.stringify(Array.from(el.options).slice(0, 20).map((o) => clip(o.textContent, 40))));
+    } else if (el.tagName === "INPUT" || el.tagName === "TEXTAREA") {
+      if (el.value) parts.push("value=" + JSON.stringify(clip(el.value, 60)));
+      else if (el.placeholder) parts.push("placeholder=" + JSON.stringify(clip(el.placeholder, 60)));
+    }
+    if (el.tagName === "A" && el.getAttribute("href")) parts.push("href=" + JSON.stringify(clip(el.getAttribute("href"), 80)));
+    return parts.join(" ");
+  };
+
+  for (const old of document.querySelectorAll("[" + ATTR + "]")) old.removeAttribute(ATTR);
+  const tree = [];
+  const elements = [];
+  let next = 0;
+
+  const walk = (node, depth) => {
+    for (const child of node.childNodes) {
+      if (child.nodeType === 3) {
+        const t = clip(child.textContent, 200);
+        // text of headings and cells is already their name
+        if (t && !NAMED_BY_TEXT.has(roleOf(node))) tree.push("  ".repeat(depth) + "text " + JSON.stringify(t));
+        continue;
+      }
+      if (child.nodeType !== 1 || SKIP.has(child.tagName.toUpperCase()) || !visible(child)) continue;
+      const role = roleOf(child);
+      if (isInteractive(child, role)) {
+        const index = next++;
+        child.setAttribute(ATTR, String(index));
+        const line = "[" + index + "] " + (role || child.tagName.toLowerCase()) + " " + JSON.stringify(nameOf(child)) + (stateOf(child) ? " " + stateOf(child) : "");
+        elements.push(line);
+        tree.push("  ".repeat(depth) + line);
+        // links and buttons are leaves; their text is already the name
+        if (["link", "button", "textbox", "combobox", "checkbox", "radio"].includes(role)) continue;
+        walk(child, depth + 1);
+      } else if (role) {
+        const name = NAMED_BY_TEXT.has(role) || role === "dialog" ? nameOf(child) : "";
+        const level = role === "heading" ? " level=" + child.tagName.slice(1) : "";
+        tree.push("  ".repeat(depth) + role + (name ? " " + JSON.stringify(name) : "") + level);
+        if (role === "heading" || role === "img") continue;
+        walk(child, depth + 1);
+      } else {
+        // generic containers (div, span, p, section...) are pruned; children move up
+        walk(child, depth);
+      }
+    }
+  };
+  walk(document.body, 0);
+  return { tree: tree.join("\\n"), elements: elements.join("\\n"), text: (document.body.innerText || "").replace(/[ \\t]+/g, " ").replace(/\\n\\s*\\n\\s*/g, "\\n\\n").trim() };
+})()`;
+
+function cap(s: string): string {
+  return s.length > MAX_TEXT_CHARS ? `${s.slice(0, MAX_TEXT_CHARS)}\n… (truncated at ${MAX_TEXT_CHARS} chars)` : s;
+}
+
+/**
+ * Builds the text part of an observation and (re)indexes interactive elements.
+ * Indices are only valid until the next observation.
+ */
+export async function observe(page: Page, mode: ObservationMode): Promise<PageObservation> {
+  if (mode === "screenshot") return { text: "", elements: 0 };
+  const scan = (await page.evaluate(SCAN_SCRIPT)) as { tree: string; elements: string; text: string };
+  const count = scan.elements ? scan.elements.split("\n").length : 0;
+
+  if (mode === "axtree") return { text: `Accessibility tree:\n${cap(scan.tree)}`, elements: count };
+  if (mode === "dom") {
+    return { text: `Interactive elements:\n${cap(scan.elements) || "(none)"}\n\nPage text:\n${cap(scan.text)}`, elements: count };
+  }
+  return { text: `Interactive elements:\n${cap(scan.elements) || "(none)"}`, elements: count };
+}
+
+export function indexSelector(index: number): string {
+  return `[${INDEX_ATTR}="${index}"]`;
+}
@@ -1,14 +1,25 @@
 import "dotenv/config";
-import { makeSolAdapter } from "./adapters/openai.js";
-import { makeGrokAdapter } from "./adapters/xai.js";
-import { makeFableAdapter } from "./adapters/anthropic.js";
+import { makeAdapter } from "./adapters/index.js";
+import { loadModelConfigs, MODELS_FILE, selectModels } from "./models.js";
+
+// `npm run preflight [-- --models sol,mock] [--config models.json]`: same
+// model selection as the runner.
+function parseArgs(argv: string[]) {
+  const args = { models: [] as string[], config: MODELS_FILE };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--models") args.models = argv[++i].split(",").map((s) => s.trim()).filter(Boolean);
+    else if (argv[i] === "--config") args.config = argv[++i];
+  }
+  return args;
+}
 
 async function main() {
+  const args = parseArgs(process.argv.slice(2));
   let failed = false;
-  for (const adapter of [makeSolAdapter(), makeGrokAdapter(), makeFableAdapter()]) {
-    process.stdout.write(`${adapter.key.padEnd(6)} ${adapter.modelId.padEnd(16)} -> `);
+  for (const cfg of selectModels(loadModelConfigs(args.config), args.models)) {
+    process.stdout.write(`${cfg.key.padEnd(6)} ${cfg.model.padEnd(16)} -> `);
     try {
-      console.log(`OK, resolved: ${await adapter.preflight()}`);
+      console.log(`OK, resolved: ${await makeAdapter(cfg).preflight()}`);
     } catch (err) {
       failed = true;
       console.log(`FAILED: ${String(err instanceof Error ? err.message : err)}`);
@@ -1,14 +1,21 @@
-import type { ModelKey } from "./types.js";
+import path from "node:path";
+import { loadModelConfigs, MODELS_FILE } from "./models.js";
+import type { ModelKey, Pricing, TrialRecord } from "./types.js";
 
-// USD per 1M tokens. Verified 2026-07: OpenAI gpt-5.6-sol $5/$30,
-// xAI grok-4.5 $2/$6, Anthropic Claude Fable 5 (claude-fable-5) $10/$50.
-export const PRICING: Record<ModelKey, { input: number; output: number }> = {
-  sol: { input: 5, output: 30 },
-  grok: { input: 2, output: 6 },
-  fable: { input: 10, output: 50 },
-};
+export function costUsd(pricing: Pricing, usage: { input: number; output: number }): number {
+  return (usage.input * pricing.input + usage.output * pricing.output) / 1_000_000;
+}
 
-export function costUsd(model: ModelKey, usage: { input: number; output: number }): number {
-  const p = PRICING[model];
-  return (usage.input * p.input + usage.output * p.output) / 1_000_000;
+/**
+ * Prices for one model's records: the prices recorded with the run, so old
+ * results keep the prices they ran at. Records from before models.json carry
+ * none and fall back to the entry with the same key in `configFile` (the
+ * `--config` the run used, models.json by default).
+ */
+export function pricingOf(records: TrialRecord[], model: ModelKey, configFile = MODELS_FILE): Pricing {
+  const recorded = records.find((r) => r.model === model && r.pricing)?.pricing;
+  if (recorded) return recorded;
+  const configured = loadModelConfigs(configFile).find((m) => m.key === model)?.pricing;
+  if (!configured) throw new Error(`no pricing recorded for model ${model} and no "${model}" entry in ${path.basename(configFile)}`);
+  return configured;
 }
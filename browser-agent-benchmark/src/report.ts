@@ -0,0 +1,140 @@
+import type { AnalysisSummary, RateSummary } from "./types.js";
+
+// Renders the analyzer summary as Markdown and as a standalone HTML page.
+// Both come from the same sections so they never disagree.
+
+interface Section {
+  heading: string;
+  text?: string;
+  head?: string[];
+  rows?: string[][];
+}
+
+function pct(x: number): string {
+  return `${(100 * x).toFixed(0)}%`;
+}
+
+function rateCell(r: RateSummary | undefined): string {
+  if (!r || r.trials === 0) return "-";
+  return `${pct(r.successRate)} (${r.passed}/${r.trials}) [${pct(r.ci.low)}–${pct(r.ci.high)}]`;
+}
+
+function pValue(p: number): string {
+  return p < 0.001 ? "<0.001" : p.toFixed(3);
+}
+
+function sections(s: AnalysisSummary, alpha: number): Section[] {
+  const models = Object.keys(s.models);
+  const categories = [...new Set(models.flatMap((m) => Object.keys(s.models[m].byCategory)))];
+  const out: Section[] = [];
+
+  out.push({
+    heading: "Success rate",
+    text: "Intervals are 95% Wilson score intervals. With a few trials per task they are wide; overlapping intervals do not by themselves mean no difference — see the paired tests below.",
+    head: ["Model", "Overall", ...categories],
+    rows: models.map((m) => [`${m} (${s.models[m].modelId})`, rateCell(s.models[m]), ...categories.map((c) => rateCell(s.models[m].byCategory[c]))]),
+  });
+
+  out.push({
+    heading: "Cost and effort",
+    head: ["Model", "Median steps", "Median wall time", "Tokens in / out", "Total cost", "$ / completed task", "model / infra_web / unclassified failures"],
+    rows: models.map((m) => {
+      const x = s.models[m];
+      return [
+        m,
+        String(x.medianSteps),
+        `${(x.medianWallTimeMs / 1000).toFixed(1)}s`,
+        `${x.tokens.input} / ${x.tokens.output}`,
+        `$${x.totalCostUsd.toFixed(2)}`,
+        x.costPerCompletedTaskUsd === null ? "n/a" : `$${x.costPerCompletedTaskUsd.toFixed(2)}`,
+        `${x.failures.model_failure} / ${x.failures.infra_web_failure} / ${x.failures.unclassified}`,
+      ];
+    }),
+  });
+
+  if (s.comparisons.length) {
+    out.push({
+      heading: "Paired comparisons",
+      text:
+        `The permutation test sign-flips per-task pass-rate differences and decides significance: "yes" means its p < ${alpha}. ` +
+        `McNemar (exact) on the discordant trials is shown for reference; it pairs trials by task and trial number, but trial n of ` +
+        `one model and trial n of the other are independent runs, so that pairing is arbitrary within a task. ` +
+        `p-values are not adjusted for multiple comparisons.`,
+      head: ["A vs B", "Paired trials", "Only A passed", "Only B passed", "McNemar p", "Mean per-task diff", "Permutation p", "Significant"],
+      rows: s.comparisons.map((c) => [
+        `${c.a} vs ${c.b}`,
+        String(c.pairedTrials),
+        String(c.onlyA),
+        String(c.onlyB),
+        pValue(c.mcnemarP),
+        `${c.meanTaskDiff >= 0 ? "+" : ""}${(100 * c.meanTaskDiff).toFixed(0)}pp (${c.tasks} tasks)`,
+        pValue(c.permutationP),
+        c.permutationP < alpha ? "yes" : "no",
+      ]),
+    });
+  }
+
+  out.push(
+    s.flakyTasks.length
+      ? {
+          heading: "Flaky tasks",
+          text: "Tasks where a model's trials disagree. Treat their results with care: the task, the site or the model is nondeterministic.",
+          head: ["Model", "Task", "Passed", "Outcomes by trial"],
+          rows: s.flakyTasks.map((f) => [f.model, f.taskId, `${f.passed}/${f.trials}`, f.outcomes.join(", ")]),
+        }
+      : { heading: "Flaky tasks", text: "None: every model passed or failed each task consistently across trials." },
+  );
+
+  return out;
+}
+
+function markdownTable(head: string[], rows: string[][]): string {
+  const cell = (v: string) => v.replace(/\|/g, "\\|");
+  return [`| ${head.map(cell).join(" | ")} |`, `|${head.map(() => "---").join("|")}|`, ...rows.map((r) => `| ${r.map(cell).join(" | ")} |`)].join("\n");
+}
+
+function esc(v: string): string {
+  return v.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+export function renderReport(s: AnalysisSummary, opts: { alpha: number }): { markdown: string; html: string } {
+  const secs = sections(s, opts.alpha);
+  const title = `Benchmark report: ${s.source}`;
+  const generated = `Generated ${s.generatedAt}.`;
+
+  const markdown = [
+    `# ${title}`,
+    generated,
+    ...secs.map((sec) => [`## ${sec.heading}`, sec.text, sec.head && sec.rows ? markdownTable(sec.head, sec.rows) : undefined].filter(Boolean).join("\n\n")),
+  ].join("\n\n");
+
+  const body = secs
+    .map(
+      (sec) =>
+        `<h2>${esc(sec.heading)}</h2>\n` +
+        (sec.text ? `<p>${esc(sec.text)}</p>\n` : "") +
+        (sec.head && sec.rows
+          ? `<table><thead><tr>${sec.head.map((h) => `<th>${esc(h)}</th>`).join("")}</tr></thead><tbody>\n${sec.rows
+              .map((r) => `<tr>${r.map((v) => `<td>${esc(v)}</td>`).join("")}</tr>`)
+              .join("\n")}\n</tbody></table>`
+          : ""),
+    )
+    .join("\n");
+  const html = `<!doctype html>
+<html lang="en">
+<head><meta charset="utf-8"><title>${esc(title)}</title>
+<style>
+  body { font: 14px system-ui, sans-serif; max-width: 1100px; margin: 24px auto; padding: 0 24px; color: #1f2328; }
+  table { border-collapse: collapse; margin: 8px 0 24px; }
+  th, td { border: 1px solid #d0d7de; padding: 4px 10px; text-align: left; }
+  th { background: #f6f8fa; }
+</style></head>
+<body>
+<h1>${esc(title)}</h1>
+<p>${esc(generated)}</p>
+${body}
+</body>
+</html>
+`;
+  return { markdown: markdown + "\n", html };
+}
@@ -2,34 +2,70 @@ import "dotenv/config";
 import fs from "node:fs";
 import path from "node:path";
 import { Hyperbrowser } from "@hyperbrowser/sdk";
-import { makeSolAdapter } from "./adapters/openai.js";
-import { makeGrokAdapter } from "./adapters/xai.js";
-import { makeFableAdapter } from "./adapters/anthropic.js";
+import { makeAdapter } from "./adapters/index.js";
+import { loadModelConfigs, MODELS_FILE, selectModels } from "./models.js";
 import { runTrial } from "./loop.js";
-import { score } from "./scorer.js";
+import { hyperbrowserProvider, localProvider, type BrowserProvider } from "./browsers.js";
+import { startFixtureServer, type FixtureServer } from "./fixtures/server.js";
+import { Trajectory, trialDir } from "./trajectory.js";
+import { OBSERVATION_MODES, type ObservationMode } from "./observe.js";
+import { failedChecks, score, validatePassCondition } from "./scorer.js";
 import { costUsd } from "./pricing.js";
 import { c } from "./colors.js";
 import type { ModelAdapter, Task, TrialRecord, Usage } from "./types.js";
 
 const RESULTS_DIR = path.join(import.meta.dirname, "..", "results");
+const TASKS_FILE = path.join(import.meta.dirname, "..", "tasks.json");
+const FIXTURE_TASKS_FILE = path.join(import.meta.dirname, "..", "tasks.fixtures.json");
 
 function parseArgs(argv: string[]) {
-  const args = { trials: 3, concurrency: 1, dryRun: false, runId: "", models: [] as string[] };
+  const args = {
+    trials: 3,
+    concurrency: 1,
+    dryRun: false,
+    runId: "",
+    models: [] as string[],
+    config: MODELS_FILE,
+    fixtures: false,
+    trajectory: false,
+    observation: "screenshot" as ObservationMode,
+    browser: "" as "" | BrowserProvider["kind"],
+  };
   for (let i = 0; i < argv.length; i++) {
     if (argv[i] === "--trials") args.trials = Number(argv[++i]);
     else if (argv[i] === "--concurrency") args.concurrency = Number(argv[++i]);
     else if (argv[i] === "--dry-run") args.dryRun = true;
     else if (argv[i] === "--run-id") args.runId = argv[++i];
     else if (argv[i] === "--models") args.models = argv[++i].split(",").map((s) => s.trim()).filter(Boolean);
+    else if (argv[i] === "--config") args.config = argv[++i];
+    else if (argv[i] === "--fixtures") args.fixtures = true;
+    else if (argv[i] === "--trajectory") args.trajectory = true;
+    else if (argv[i] === "--observation") {
+      const v = argv[++i] as ObservationMode;
+      if (!OBSERVATION_MODES.includes(v)) throw new Error(`--observation must be one of ${OBSERVATION_MODES.join(", ")}`);
+      args.observation = v;
+    }
+    else if (argv[i] === "--browser") {
+      const v = argv[++i];
+      if (v !== "local" && v !== "hyperbrowser") throw new Error("--browser must be local or hyperbrowser");
+      args.browser = v;
+    }
   }
   if (!Number.isInteger(args.trials) || args.trials < 1) throw new Error("--trials must be a positive integer");
   if (!Number.isInteger(args.concurrency) || args.concurrency < 1) throw new Error("--concurrency must be a positive integer");
+  // Fixture tasks live on 127.0.0.1, which a remote Hyperbrowser session can't reach.
+  if (args.fixtures && args.browser === "hyperbrowser") throw new Error("--fixtures needs --browser local");
   return args;
 }
 
-function loadTasks(): Task[] {
-  const raw = JSON.parse(fs.readFileSync(path.join(import.meta.dirname, "..", "tasks.json"), "utf8"));
-  return raw.tasks as Task[];
+function loadTasks(fixtures: FixtureServer | null): Task[] {
+  // Fixture tasks are written against {{FIXTURE_ORIGIN}} because the port is picked at startup.
+  const text = fixtures
+    ? fs.readFileSync(FIXTURE_TASKS_FILE, "utf8").replaceAll("{{FIXTURE_ORIGIN}}", fixtures.origin)
+    : fs.readFileSync(TASKS_FILE, "utf8");
+  const tasks = JSON.parse(text).tasks as Task[];
+  for (const task of tasks) validatePassCondition(task.passCondition, `task ${task.id}`);
+  return tasks;
 }
 
 function completedKeys(file: string): Set<string> {
@@ -49,16 +85,33 @@ interface Job {
   adapter: ModelAdapter;
 }
 
-async function runJob(hb: Hyperbrowser, runId: string, job: Job): Promise<TrialRecord> {
+interface RunOptions {
+  observation: ObservationMode;
+  saveTrajectory: boolean;
+}
+
+async function runJob(browsers: BrowserProvider, runId: string, job: Job, opts: RunOptions): Promise<TrialRecord> {
   const { task, trial, adapter } = job;
   let record: TrialRecord;
   try {
-    const result = await runTrial(hb, adapter, task);
+    const trajectory = opts.saveTrajectory
+      ? new Trajectory(trialDir(RESULTS_DIR, runId, adapter.key, task.id, trial), {
+          runId,
+          model: adapter.key,
+          modelId: adapter.modelId,
+          taskId: task.id,
+          trial,
+          instruction: task.instruction,
+          startUrl: task.startUrl,
+        })
+      : undefined;
+    const result = await runTrial(browsers, adapter, task, { observation: opts.observation, trajectory });
     const verdict = score(task, result);
     record = {
       runId,
       model: adapter.key,
       modelId: adapter.modelId,
+      observation: opts.observation,
       taskId: task.id,
       category: task.category,
       trial,
@@ -67,6 +120,7 @@ async function runJob(hb: Hyperbrowser, runId: string, job: Job): Promise<TrialR
       finalUrl: result.finalUrl,
       wallTimeMs: result.wallTimeMs,
       usage: result.usage,
+      pricing: adapter.pricing,
       ...verdict,
       timestamp: new Date().toISOString(),
     };
@@ -78,6 +132,7 @@ async function runJob(hb: Hyperbrowser, runId: string, job: Job): Promise<TrialR
       runId,
       model: adapter.key,
       modelId: adapter.modelId,
+      observation: opts.observation,
       taskId: task.id,
       category: task.category,
       trial,
@@ -86,6 +141,7 @@ async function runJob(hb: Hyperbrowser, runId: string, job: Job): Promise<TrialR
       finalUrl: null,
       wallTimeMs: 0,
       usage: { input: 0, output: 0 },
+      pricing: adapter.pricing,
       pass: false,
       outcome: isSessionFailure ? "infra_web_failure" : "unclassified",
       failureDetail: msg,
@@ -97,10 +153,15 @@ async function runJob(hb: Hyperbrowser, runId: string, job: Job): Promise<TrialR
 
 async function main() {
   const args = parseArgs(process.argv.slice(2));
-  const allAdapters = [makeSolAdapter(), makeGrokAdapter(), makeFableAdapter()];
-  const adapters = args.models.length ? allAdapters.filter((a) => args.models.includes(a.key)) : allAdapters;
-  if (adapters.length === 0) throw new Error(`--models matched no adapters; valid keys: ${allAdapters.map((a) => a.key).join(", ")}`);
-  const allTasks = loadTasks();
+  const configs = selectModels(loadModelConfigs(args.config), args.models);
+  if (configs.length === 0) throw new Error("no models selected; name them with --models");
+  const needsImages = args.observation === "screenshot" || args.observation === "hybrid";
+  const blind = configs.filter((m) => needsImages && !m.images).map((m) => m.key);
+  if (blind.length) throw new Error(`${blind.join(", ")}: images: false, so --observation must be axtree or dom`);
+  const adapters = configs.map(makeAdapter);
+  const fixtures = args.fixtures ? await startFixtureServer() : null;
+  if (fixtures) console.log(c.dim(`Fixture site on ${fixtures.origin}`));
+  const allTasks = loadTasks(fixtures);
 
   const tasks = args.dryRun ? allTasks.slice(0, 2) : allTasks;
   const trials = args.dryRun ? 1 : args.trials;
@@ -111,7 +172,7 @@ async function main() {
   const done = completedKeys(outFile);
   if (done.size > 0) console.log(c.yellow(`Resuming ${runId}: ${done.size} completed trials will be skipped`));
 
-  // Interleaved: task1×sol, task1×grok, task1×fable, task2×sol, ... so no
+  // Interleaved: task1×model1, task1×model2, ..., task2×model1, ... so no
   // model sees a different web than the others.
   const jobs: Job[] = [];
   for (const task of tasks) {
@@ -121,27 +182,41 @@ async function main() {
       }
     }
   }
-  console.log(c.bold(`${runId}: ${jobs.length} trials to run (${tasks.length} tasks x ${trials} trials x ${adapters.length} models), concurrency ${args.concurrency}`));
+  const browserKind = args.browser || (args.fixtures ? "local" : "hyperbrowser");
+  console.log(
+    c.bold(
+      `${runId}: ${jobs.length} trials to run (${tasks.length} tasks x ${trials} trials x ${adapters.length} models), concurrency ${args.concurrency}, ${browserKind} browser, ${args.observation} observations`,
+    ),
+  );
 
-  const hb = new Hyperbrowser({ apiKey: process.env.HYPERBROWSER_API_KEY });
+  const browsers =
+    browserKind === "local" ? localProvider() : hyperbrowserProvider(new Hyperbrowser({ apiKey: process.env.HYPERBROWSER_API_KEY }));
   let next = 0;
   const worker = async () => {
     while (next < jobs.length) {
       const job = jobs[next++];
       const label = `${c.magenta(job.adapter.key)} / ${c.cyan(job.task.id)} / trial ${job.trial}`;
       console.log(c.bold(`> ${label}`));
-      const record = await runJob(hb, runId, job);
+      const record = await runJob(browsers, runId, job, { observation: args.observation, saveTrajectory: args.trajectory });
       fs.appendFileSync(outFile, JSON.stringify(record) + "\n");
       const verdict = record.pass
         ? c.green("PASS")
         : c.red(`FAIL (${record.outcome}${record.failureDetail ? `: ${record.failureDetail}` : ""})`);
       const stats = c.dim(`${record.steps.length} steps, ${(record.wallTimeMs / 1000).toFixed(1)}s, ${record.usage.input}+${record.usage.output} tok`);
       console.log(`  ${verdict} ${c.dim("—")} ${stats}`);
+      if (!record.pass && record.checks) {
+        for (const detail of failedChecks(record.checks)) console.log(c.dim(`    ✗ ${detail}`));
+      }
     }
   };
-  await Promise.all(Array.from({ length: args.concurrency }, worker));
+  try {
+    await Promise.all(Array.from({ length: args.concurrency }, worker));
+  } finally {
+    await fixtures?.close();
+  }
 
   console.log(`\n${c.bold("Results:")} ${c.cyan(outFile)}`);
+  if (args.trajectory) console.log(`${c.bold("Trajectories:")} ${c.cyan(path.join(RESULTS_DIR, runId))} ${c.dim(`(npm run view -- ${path.relative(process.cwd(), outFile)})`)}`);
 
   if (args.dryRun) {
     const records = fs
@@ -158,7 +233,7 @@ async function main() {
         output: mine.reduce((s, r) => s + r.usage.output, 0) / mine.length,
       };
       const fullTrials = allTasks.length * args.trials;
-      const projected = costUsd(adapter.key, { input: avg.input * fullTrials, output: avg.output * fullTrials });
+      const projected = costUsd(adapter.pricing, { input: avg.input * fullTrials, output: avg.output * fullTrials });
       console.log(
         `  ${adapter.key} (${adapter.modelId}): ~${Math.round(avg.input)}+${Math.round(avg.output)} tok/trial measured -> ~$${projected.toFixed(2)} for ${fullTrials} trials`,
       );
@@ -1,4 +1,4 @@
-import type { Outcome, Task } from "./types.js";
+import type { ConditionResult, Outcome, PassCondition, Task } from "./types.js";
 import type { TrialResult } from "./loop.js";
 
 // Markers commonly present on CAPTCHA / bot-wall pages. Detection is best
@@ -34,45 +34,177 @@ function normalizeUrl(u: string): string {
   }
 }
 
-export function evaluatePass(task: Task, result: TrialResult): boolean {
-  const pc = task.passCondition;
+/**
+ * The number an answer gives: the first one after a currency sign, else the
+ * first one. A hyphen only counts as a minus sign when it doesn't follow a
+ * letter or digit, so "FX-1037" reads as 1037, not -1037, and digits glued to
+ * letters ("A4", "v2") are not numbers at all.
+ */
+function parseNumber(answer: string): number | null {
+  const unthousanded = answer.replace(/(\d),(?=\d{3}\b)/g, "$1");
+  const matches = [...unthousanded.matchAll(/(?<![\p{L}\p{N}])(\p{Sc}\s?)?-?\d+(?:\.\d+)?/gu)];
+  const chosen = matches.find((m) => m[1] !== undefined) ?? matches[0];
+  return chosen ? Number(chosen[0].slice(chosen[1]?.length ?? 0)) : null;
+}
+
+function quote(s: string | null): string {
+  return s === null ? "none" : JSON.stringify(s.length > 80 ? `${s.slice(0, 80)}…` : s);
+}
+
+/** Every selector a condition reads from the final page, so the loop knows what to probe. */
+export function conditionSelectors(pc: PassCondition): string[] {
+  switch (pc.type) {
+    case "elementExists":
+    case "elementTextEquals":
+    case "formFieldValue":
+      return [pc.selector];
+    case "allOf":
+    case "anyOf":
+      return [...new Set(pc.conditions.flatMap(conditionSelectors))];
+    default:
+      return [];
+  }
+}
+
+/** Throws on malformed conditions so a bad tasks file fails at load, not mid-run. */
+export function validatePassCondition(pc: PassCondition, where: string): void {
+  switch (pc.type) {
+    case "answerEquals":
+    case "answerContains":
+    case "urlReached":
+      if (typeof pc.value !== "string") throw new Error(`${where}: ${pc.type} needs a string value`);
+      return;
+    case "answerRegex":
+      try {
+        new RegExp(pc.pattern, pc.flags);
+      } catch (err) {
+        throw new Error(`${where}: invalid answerRegex: ${String(err instanceof Error ? err.message : err)}`);
+      }
+      return;
+    case "answerOneOf":
+      if (!Array.isArray(pc.values) || pc.values.length === 0) throw new Error(`${where}: answerOneOf needs a non-empty values list`);
+      return;
+    case "answerNumber":
+      if (typeof pc.value !== "number") throw new Error(`${where}: answerNumber needs a numeric value`);
+      if ((pc.tolerance ?? 0) < 0 || (pc.relTolerance ?? 0) < 0) throw new Error(`${where}: answerNumber tolerances must be >= 0`);
+      return;
+    case "elementExists":
+    case "elementTextEquals":
+    case "formFieldValue":
+      if (typeof pc.selector !== "string" || !pc.selector) throw new Error(`${where}: ${pc.type} needs a selector`);
+      return;
+    case "allOf":
+    case "anyOf":
+      if (!Array.isArray(pc.conditions) || pc.conditions.length === 0) throw new Error(`${where}: ${pc.type} needs a non-empty conditions list`);
+      pc.conditions.forEach((c, i) => validatePassCondition(c, `${where}.${pc.type}[${i}]`));
+      return;
+    default:
+      throw new Error(`${where}: unknown pass condition type ${JSON.stringify((pc as { type: unknown }).type)}`);
+  }
+}
+
+export function checkCondition(pc: PassCondition, result: TrialResult): ConditionResult {
+  const answer = result.finalAnswer;
+  const leaf = (pass: boolean, detail: string): ConditionResult => ({ type: pc.type, pass, detail });
+
   switch (pc.type) {
     case "answerEquals":
-      return result.finalAnswer !== null && result.finalAnswer.trim().toLowerCase() === pc.value.trim().toLowerCase();
+      return leaf(
+        answer !== null && answer.trim().toLowerCase() === pc.value.trim().toLowerCase(),
+        `answer ${quote(answer)} equals ${quote(pc.value)}`,
+      );
     case "answerContains":
-      return result.finalAnswer !== null && result.finalAnswer.toLowerCase().includes(pc.value.toLowerCase());
+      return leaf(
+        answer !== null && answer.toLowerCase().includes(pc.value.toLowerCase()),
+        `answer ${quote(answer)} contains ${quote(pc.value)}`,
+      );
+    case "answerRegex":
+      return leaf(answer !== null && new RegExp(pc.pattern, pc.flags).test(answer), `answer ${quote(answer)} matches /${pc.pattern}/${pc.flags ?? ""}`);
+    case "answerOneOf": {
+      const a = answer?.trim().toLowerCase();
+      return leaf(
+        a !== undefined && pc.values.some((v) => v.trim().toLowerCase() === a),
+        `answer ${quote(answer)} is one of ${pc.values.map((v) => quote(v)).join(", ")}`,
+      );
+    }
+    case "answerNumber": {
+      // Only one number counts, so listing several candidates doesn't pass
+      const n = answer === null ? null : parseNumber(answer);
+      const allowed = Math.max(pc.tolerance ?? 0, Math.abs(pc.value) * (pc.relTolerance ?? 0));
+      const ok = n !== null && Math.abs(n - pc.value) <= allowed;
+      return leaf(ok, `answer number ${n ?? "none"} ${ok ? "within" : "not within"} ±${allowed} of ${pc.value}`);
+    }
     case "urlReached": {
       const target = normalizeUrl(pc.value);
-      return result.visitedUrls.some((u) => normalizeUrl(u) === target);
+      return leaf(result.visitedUrls.some((u) => normalizeUrl(u) === target), `visited ${pc.value}`);
     }
     case "elementExists":
-      return result.elementFound === true;
+      return leaf(result.elements[pc.selector]?.exists === true, `${pc.selector} exists on final page`);
+    case "elementTextEquals": {
+      const text = result.elements[pc.selector]?.text ?? null;
+      return leaf(
+        text !== null && text.toLowerCase() === pc.value.trim().toLowerCase(),
+        `${pc.selector} text ${quote(text)} equals ${quote(pc.value)}`,
+      );
+    }
+    case "formFieldValue": {
+      const value = result.elements[pc.selector]?.value ?? null;
+      return leaf(value !== null && value === pc.value, `${pc.selector} value ${quote(value)} equals ${quote(pc.value)}`);
+    }
+    case "allOf":
+    case "anyOf": {
+      const children = pc.conditions.map((c) => checkCondition(c, result));
+      const passed = children.filter((c) => c.pass).length;
+      return {
+        type: pc.type,
+        pass: pc.type === "allOf" ? passed === children.length : passed > 0,
+        detail: `${passed}/${children.length} passed`,
+        children,
+      };
+    }
   }
 }
 
-export function score(task: Task, result: TrialResult): { pass: boolean; outcome: Outcome; failureDetail?: string } {
-  const pass = evaluatePass(task, result);
-  if (pass) return { pass: true, outcome: "pass" };
+/** Details of the failing leaf conditions, for logs. */
+export function failedChecks(checks: ConditionResult): string[] {
+  if (checks.pass) return [];
+  if (!checks.children) return [checks.detail];
+  // anyOf fails only when every branch fails; list them all
+  return checks.children.flatMap(failedChecks);
+}
+
+export function evaluatePass(task: Task, result: TrialResult): { pass: boolean; checks: ConditionResult } {
+  const checks = checkCondition(task.passCondition, result);
+  return { pass: checks.pass, checks };
+}
+
+export function score(
+  task: Task,
+  result: TrialResult,
+): { pass: boolean; checks: ConditionResult; outcome: Outcome; failureDetail?: string } {
+  const { pass, checks } = evaluatePass(task, result);
+  if (pass) return { pass: true, checks, outcome: "pass" };
 
   if (detectBotWall(result.finalTitle, result.finalBodySnippet)) {
-    return { pass: false, outcome: "infra_web_failure", failureDetail: "bot wall / CAPTCHA markers on final page" };
+    return { pass: false, checks, outcome: "infra_web_failure", failureDetail: "bot wall / CAPTCHA markers on final page" };
   }
   if (result.infraError) {
     if (/timeout|net::|navigation/i.test(result.infraError)) {
-      return { pass: false, outcome: "infra_web_failure", failureDetail: result.infraError };
+      return { pass: false, checks, outcome: "infra_web_failure", failureDetail: result.infraError };
     }
-    return { pass: false, outcome: "unclassified", failureDetail: result.infraError };
+    return { pass: false, checks, outcome: "unclassified", failureDetail: result.infraError };
   }
   if (result.refused) {
-    return { pass: false, outcome: "model_failure", failureDetail: "model refused" };
+    return { pass: false, checks, outcome: "model_failure", failureDetail: "model refused" };
   }
   if (result.steps.length > 0) {
     const gaveAnswer = result.finalAnswer !== null;
     return {
       pass: false,
+      checks,
       outcome: "model_failure",
       failureDetail: gaveAnswer ? "wrong answer" : "no answer / goal not reached within limits",
     };
   }
-  return { pass: false, outcome: "unclassified", failureDetail: "no steps executed" };
+  return { pass: false, checks, outcome: "unclassified", failureDetail: "no steps executed" };
 }
@@ -0,0 +1,84 @@
+// Small-sample statistics for the analyzer. Dependency-free and deterministic:
+// anything randomized takes a seed so the same results file gives the same report.
+
+export interface Interval {
+  low: number;
+  high: number;
+}
+
+/** Wilson score interval for k successes in n trials (95% by default). */
+export function wilsonInterval(k: number, n: number, z = 1.96): Interval {
+  if (n === 0) return { low: 0, high: 1 };
+  const p = k / n;
+  const z2 = z * z;
+  const center = (p + z2 / (2 * n)) / (1 + z2 / n);
+  const half = (z / (1 + z2 / n)) * Math.sqrt((p * (1 - p)) / n + z2 / (4 * n * n));
+  return { low: Math.max(0, center - half), high: Math.min(1, center + half) };
+}
+
+function logChoose(n: number, k: number): number {
+  let s = 0;
+  for (let i = 1; i <= k; i++) s += Math.log(n - k + i) - Math.log(i);
+  return s;
+}
+
+/**
+ * Exact (binomial) two-sided McNemar test. `b` and `c` are the discordant
+ * pair counts: A passed where B failed, and B passed where A failed.
+ */
+export function mcnemarExact(b: number, c: number): number {
+  const n = b + c;
+  if (n === 0) return 1;
+  const k = Math.min(b, c);
+  let tail = 0;
+  for (let i = 0; i <= k; i++) tail += Math.exp(logChoose(n, i) - n * Math.LN2);
+  return Math.min(1, 2 * tail);
+}
+
+/** mulberry32: tiny seeded PRNG, good enough for resampling. */
+export function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const EXACT_PERMUTATION_LIMIT = 16;
+
+/**
+ * Two-sided paired sign-flip permutation test on the mean of per-unit
+ * differences (here: per-task pass-rate differences). Exact up to 16 units,
+ * Monte Carlo with a fixed seed beyond that.
+ */
+export function pairedPermutationTest(diffs: number[], iterations = 20_000, seed = 1): number {
+  const n = diffs.length;
+  if (n === 0) return 1;
+  const observed = Math.abs(diffs.reduce((s, d) => s + d, 0));
+  // Float sums of the same terms in another order can differ in the last bits
+  const eps = 1e-9;
+
+  if (n <= EXACT_PERMUTATION_LIMIT) {
+    let extreme = 0;
+    const total = 1 << n;
+    for (let mask = 0; mask < total; mask++) {
+      let s = 0;
+      for (let i = 0; i < n; i++) s += mask & (1 << i) ? -diffs[i] : diffs[i];
+      if (Math.abs(s) >= observed - eps) extreme++;
+    }
+    return extreme / total;
+  }
+
+  const rand = seededRandom(seed);
+  let extreme = 0;
+  for (let it = 0; it < iterations; it++) {
+    let s = 0;
+    for (const d of diffs) s += rand() < 0.5 ? -d : d;
+    if (Math.abs(s) >= observed - eps) extreme++;
+  }
+  // +1 so a Monte Carlo p-value is never reported as exactly 0
+  return (extreme + 1) / (iterations + 1);
+}
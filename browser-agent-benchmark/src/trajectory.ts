@@ -0,0 +1,81 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { StepLog } from "./types.js";
+
+export interface TrajectoryStep extends StepLog {
+  url: string;
+  title: string;
+  /** PNG file name, relative to the trial directory */
+  screenshot: string | null;
+  /** text observation sent to the model (axtree/dom/hybrid modes) */
+  observation?: string;
+  /** Raw model replies for this step; two when the first failed to parse. */
+  replies: string[];
+}
+
+export interface TrajectoryMeta {
+  runId: string;
+  model: string;
+  modelId: string;
+  taskId: string;
+  trial: number;
+  instruction: string;
+  startUrl: string;
+}
+
+export interface TrajectoryFile extends TrajectoryMeta {
+  steps: TrajectoryStep[];
+  final: { url: string | null; title: string; screenshot: string | null };
+}
+
+/** `results/<runId>/<model>__<taskId>__<trial>`; the viewer finds trials by the same name. */
+export function trialDir(resultsDir: string, runId: string, model: string, taskId: string, trial: number): string {
+  return path.join(resultsDir, runId, `${model}__${taskId}__${trial}`);
+}
+
+/**
+ * Opt-in per-step recording (`--trajectory`). Screenshots go to disk as they
+ * are taken; trajectory.json is rewritten by save() so an aborted trial still
+ * leaves what it had.
+ */
+export class Trajectory {
+  private steps: TrajectoryStep[] = [];
+  private final: TrajectoryFile["final"] = { url: null, title: "", screenshot: null };
+
+  constructor(
+    readonly dir: string,
+    private meta: TrajectoryMeta,
+  ) {
+    // A resumed run re-records the trial from scratch
+    fs.rmSync(dir, { recursive: true, force: true });
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  private writeShot(name: string, png: Buffer): string {
+    fs.writeFileSync(path.join(this.dir, name), png);
+    return name;
+  }
+
+  addStep(
+    step: StepLog,
+    observed: { url: string; title: string; png: Buffer | null; replies: string[]; observation?: string },
+  ): void {
+    this.steps.push({
+      ...step,
+      url: observed.url,
+      title: observed.title,
+      screenshot: observed.png ? this.writeShot(`step-${String(step.n).padStart(2, "0")}.png`, observed.png) : null,
+      replies: observed.replies,
+      ...(observed.observation ? { observation: observed.observation } : {}),
+    });
+  }
+
+  setFinal(url: string | null, title: string, png: Buffer | null): void {
+    this.final = { url, title, screenshot: png ? this.writeShot("final.png", png) : null };
+  }
+
+  save(): void {
+    const file: TrajectoryFile = { ...this.meta, steps: this.steps, final: this.final };
+    fs.writeFileSync(path.join(this.dir, "trajectory.json"), JSON.stringify(file, null, 2));
+  }
+}
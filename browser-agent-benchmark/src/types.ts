@@ -1,10 +1,29 @@
+import type { ObservationMode } from "./observe.js";
+
 export type Category = "read" | "navigate" | "write" | "bot_protected";
 
 export type PassCondition =
   | { type: "answerEquals"; value: string }
   | { type: "answerContains"; value: string }
+  | { type: "answerRegex"; pattern: string; flags?: string }
+  | { type: "answerOneOf"; values: string[] }
+  /** The answer's number — the first after a currency sign, else the first (thousands separators ignored) — within an absolute and/or relative tolerance. */
+  | { type: "answerNumber"; value: number; tolerance?: number; relTolerance?: number }
   | { type: "urlReached"; value: string }
-  | { type: "elementExists"; selector: string };
+  | { type: "elementExists"; selector: string }
+  | { type: "elementTextEquals"; selector: string; value: string }
+  /** Checkboxes and radios compare as "true"/"false"; selects by option value. */
+  | { type: "formFieldValue"; selector: string; value: string }
+  | { type: "allOf"; conditions: PassCondition[] }
+  | { type: "anyOf"; conditions: PassCondition[] };
+
+/** Per-condition verdict; composites carry their children's results. */
+export interface ConditionResult {
+  type: PassCondition["type"];
+  pass: boolean;
+  detail: string;
+  children?: ConditionResult[];
+}
 
 export interface Task {
   id: string;
@@ -14,11 +33,22 @@ export interface Task {
   passCondition: PassCondition;
 }
 
+/** A CSS selector, or the [index] of an element in the latest text observation. */
+export type Target = { selector: string } | { index: number };
+
 export type Action =
-  | { action: "click"; selector: string }
-  | { action: "type"; selector: string; text: string }
+  | ({ action: "click" } & Target)
+  | ({ action: "type"; text: string } & Target)
   | { action: "navigate"; url: string }
   | { action: "scroll"; direction: "up" | "down" }
+  | ({ action: "select_option"; option: string } & Target)
+  | ({ action: "hover" } & Target)
+  | ({ action: "keypress"; key: string } & (Target | {})) // no target: the focused element
+  | { action: "go_back" }
+  | { action: "wait_for"; selector: string }
+  | { action: "wait_for"; text: string }
+  | { action: "wait_for"; ms: number }
+  | { action: "switch_tab"; tab: number }
   | { action: "extract"; answer: string }
   | { action: "done" };
 
@@ -31,13 +61,45 @@ export interface ChatMessage {
   role: "user" | "assistant";
   text: string;
   imageB64?: string; // png, only ever set on the latest observation
+  /** text observation appended to `text`; like the image, stripped from all but the latest turn */
+  pageText?: string;
 }
 
-export type ModelKey = "sol" | "grok" | "fable";
+/** Adapter key as configured in models.json, e.g. "sol". */
+export type ModelKey = string;
+
+/** USD per 1M tokens. */
+export interface Pricing {
+  input: number;
+  output: number;
+}
+
+/** One entry of models.json. */
+export interface ModelConfig {
+  key: ModelKey;
+  /** "openai" covers any OpenAI-compatible chat completions endpoint */
+  provider: "openai" | "anthropic";
+  model: string;
+  baseURL?: string;
+  /** env var holding the API key; omit for endpoints without auth (e.g. the mock model) */
+  apiKeyEnv?: string;
+  pricing: Pricing;
+  /** false = text-only model; it can only run with the axtree or dom observation */
+  images: boolean;
+  reasoningEffort?: "low" | "medium" | "high";
+  /** openai: drop reasoningEffort once, with a log line, if the endpoint rejects it */
+  reasoningEffortOptional?: boolean;
+  /** anthropic: max_tokens per call (default 8000) */
+  maxTokens?: number;
+  /** false = only runs when named in --models */
+  default?: boolean;
+}
 
 export interface ModelAdapter {
   key: ModelKey;
   modelId: string;
+  images: boolean;
+  pricing: Pricing;
   /** 1-token-ish call; returns the model id the API resolved. Throws on 404. */
   preflight(): Promise<string>;
   step(system: string, messages: ChatMessage[]): Promise<{ text: string; usage: Usage }>;
@@ -62,6 +124,8 @@ export interface TrialRecord {
   runId: string;
   model: ModelKey;
   modelId: string;
+  /** absent on records from before observation modes existed (= screenshot) */
+  observation?: ObservationMode;
   taskId: string;
   category: Category;
   trial: number;
@@ -70,8 +134,68 @@ export interface TrialRecord {
   finalUrl: string | null;
   wallTimeMs: number;
   usage: Usage;
+  /** prices the run was configured with; absent on records from before models.json (see pricingOf) */
+  pricing?: Pricing;
   pass: boolean;
+  /** Pass-condition breakdown; absent on records from before it existed and on trials that never ran. */
+  checks?: ConditionResult;
   outcome: Outcome;
   failureDetail?: string;
   timestamp: string;
 }
+
+// --- analyzer output (results/summary.json) ---------------------------------
+
+export interface RateSummary {
+  trials: number;
+  passed: number;
+  successRate: number;
+  /** 95% Wilson interval on successRate */
+  ci: { low: number; high: number };
+}
+
+export interface ModelSummary extends RateSummary {
+  modelId: string;
+  byCategory: Record<string, RateSummary>;
+  medianSteps: number;
+  medianWallTimeMs: number;
+  tokens: { input: number; output: number };
+  totalCostUsd: number;
+  costPerCompletedTaskUsd: number | null;
+  failures: Record<Outcome, number>;
+}
+
+/** Paired comparison of two models over the task:trial pairs both ran. */
+export interface PairComparison {
+  a: ModelKey;
+  b: ModelKey;
+  pairedTrials: number;
+  /** trials A passed and B failed */
+  onlyA: number;
+  /** trials B passed and A failed */
+  onlyB: number;
+  /** exact McNemar p-value on onlyA vs onlyB; trials are paired by index, so reference only */
+  mcnemarP: number;
+  tasks: number;
+  /** mean over tasks of (A pass rate - B pass rate) */
+  meanTaskDiff: number;
+  /** sign-flip permutation p-value on the per-task differences; decides significance */
+  permutationP: number;
+}
+
+/** A model/task whose trials disagree with each other. */
+export interface FlakyTask {
+  model: ModelKey;
+  taskId: string;
+  passed: number;
+  trials: number;
+  outcomes: Outcome[];
+}
+
+export interface AnalysisSummary {
+  source: string;
+  generatedAt: string;
+  models: Record<string, ModelSummary>;
+  comparisons: PairComparison[];
+  flakyTasks: FlakyTask[];
+}
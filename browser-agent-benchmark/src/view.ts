@@ -0,0 +1,161 @@
+import fs from "node:fs";
+import path from "node:path";
+import { trialDir, type TrajectoryFile } from "./trajectory.js";
+import { c } from "./colors.js";
+import type { TrialRecord } from "./types.js";
+
+// Static trajectory viewer: `npm run view -- results/<runid>.jsonl` writes
+// results/<runid>/index.html. Screenshots are linked by relative path, so the
+// directory can be zipped or served as-is.
+
+interface ViewerTrial {
+  dir: string;
+  record: TrialRecord;
+  trajectory: TrajectoryFile | null;
+}
+
+function esc(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+}
+
+const PAGE_STYLE = `
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 14px system-ui, sans-serif; display: flex; height: 100vh; color: #1f2328; }
+  nav { width: 340px; overflow-y: auto; border-right: 1px solid #d0d7de; }
+  nav .filters { padding: 8px; border-bottom: 1px solid #d0d7de; position: sticky; top: 0; background: #fff; }
+  nav button.trial { display: block; width: 100%; text-align: left; border: 0; border-bottom: 1px solid #eaeef2; background: none; padding: 6px 10px; cursor: pointer; }
+  nav button.trial.active { background: #ddf4ff; }
+  nav button.trial .id { font-family: ui-monospace, monospace; }
+  .pass { color: #1a7f37; } .fail { color: #cf222e; } .muted { color: #656d76; }
+  section { flex: 1; overflow-y: auto; padding: 16px 24px; }
+  .controls { display: flex; gap: 8px; align-items: center; margin: 12px 0; }
+  .shot { max-width: 100%; border: 1px solid #d0d7de; }
+  pre { background: #f6f8fa; padding: 8px; white-space: pre-wrap; word-break: break-word; }
+  .checks li { list-style: none; }
+  .error { color: #cf222e; }
+`;
+
+const PAGE_SCRIPT = `
+const trials = JSON.parse(document.getElementById("data").textContent);
+const nav = document.getElementById("trials");
+const main = document.getElementById("trial");
+let current = 0, step = 0, onlyFailures = false;
+
+const esc = (s) => String(s ?? "").replace(/[&<>"']/g, (ch) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[ch]);
+const checksHtml = (r) => !r ? "" :
+  "<li><span class='" + (r.pass ? "pass" : "fail") + "'>" + (r.pass ? "✓" : "✗") + "</span> <b>" + esc(r.type) + "</b> " + esc(r.detail) +
+  (r.children ? "<ul>" + r.children.map(checksHtml).join("") + "</ul>" : "") + "</li>";
+
+function frames(t) {
+  if (!t.trajectory) return [];
+  const out = t.trajectory.steps.map((s) => ({ ...s, label: "Step " + s.n }));
+  const f = t.trajectory.final;
+  if (f.screenshot) out.push({ label: "Final page", url: f.url, title: f.title, screenshot: f.screenshot });
+  return out;
+}
+
+function renderNav() {
+  nav.innerHTML = trials.map((t, i) => {
+    if (onlyFailures && t.record.pass) return "";
+    const r = t.record;
+    return "<button class='trial" + (i === current ? " active" : "") + "' data-i='" + i + "'>" +
+      "<span class='" + (r.pass ? "pass" : "fail") + "'>" + (r.pass ? "PASS" : "FAIL") + "</span> " +
+      "<span class='id'>" + esc(r.model) + " / " + esc(r.taskId) + " / " + r.trial + "</span>" +
+      (t.trajectory ? "" : " <span class='muted'>(no trajectory)</span>") + "</button>";
+  }).join("");
+}
+
+function render() {
+  renderNav();
+  const t = trials[current];
+  if (!t) { main.innerHTML = "<p class='muted'>No trials.</p>"; return; }
+  const r = t.record, fs = frames(t);
+  step = Math.max(0, Math.min(step, fs.length - 1));
+  const f = fs[step];
+  let html = "<h2>" + esc(r.model) + " / " + esc(r.taskId) + " / trial " + r.trial + "</h2>" +
+    "<p><span class='" + (r.pass ? "pass" : "fail") + "'>" + esc(r.outcome) + "</span>" +
+    (r.failureDetail ? " — " + esc(r.failureDetail) : "") +
+    " <span class='muted'>· " + r.steps.length + " steps · " + (r.wallTimeMs / 1000).toFixed(1) + "s · answer: " + esc(r.finalAnswer ?? "none") + "</span></p>";
+  if (t.trajectory) html += "<p><b>Task:</b> " + esc(t.trajectory.instruction) + "</p>";
+  if (r.checks) html += "<ul class='checks'>" + checksHtml(r.checks) + "</ul>";
+  if (!f) {
+    main.innerHTML = html + "<p class='muted'>No trajectory recorded for this trial (run with --trajectory).</p>";
+    return;
+  }
+  html += "<div class='controls'><button id='prev'>&larr; Prev</button><b>" + esc(f.label) + "</b> <span class='muted'>(" + (step + 1) + "/" + fs.length + ")</span><button id='next'>Next &rarr;</button></div>";
+  html += "<p><b>URL:</b> " + esc(f.url) + "<br><b>Title:</b> " + esc(f.title) + "</p>";
+  if (f.replies) {
+    html += f.replies.map((reply, i) => "<p><b>" + (i ? "Retry reply" : "Model reply") + "</b>" + (f.latencyMs !== undefined && i === 0 ? " <span class='muted'>" + f.latencyMs + " ms</span>" : "") + "</p><pre>" + esc(reply) + "</pre>").join("");
+    if (f.parseError) html += "<p class='error'>Reply could not be parsed as an action.</p>";
+    if (f.execError) html += "<p class='error'>Action failed: " + esc(f.execError) + "</p>";
+  }
+  if (f.screenshot) html += "<img class='shot' src='" + esc(t.dir + "/" + f.screenshot) + "' alt='screenshot'>";
+  if (f.observation) html += "<p><b>Text observation</b></p><pre>" + esc(f.observation) + "</pre>";
+  main.innerHTML = html;
+  document.getElementById("prev").onclick = () => { step--; render(); };
+  document.getElementById("next").onclick = () => { step++; render(); };
+}
+
+nav.onclick = (e) => {
+  const b = e.target.closest("button.trial");
+  if (b) { current = Number(b.dataset.i); step = 0; render(); }
+};
+document.getElementById("only-failures").onchange = (e) => { onlyFailures = e.target.checked; renderNav(); };
+document.onkeydown = (e) => {
+  if (e.key === "ArrowLeft") { step--; render(); }
+  if (e.key === "ArrowRight") { step++; render(); }
+};
+render();
+`;
+
+function main() {
+  const file = process.argv[2];
+  if (!file) {
+    console.error("usage: npm run view -- results/<runid>.jsonl");
+    process.exit(1);
+  }
+  const records = fs
+    .readFileSync(file, "utf8")
+    .split("\n")
+    .filter(Boolean)
+    .map((l) => JSON.parse(l) as TrialRecord);
+  if (records.length === 0) {
+    console.error("no records in file");
+    process.exit(1);
+  }
+
+  const runId = records[0].runId;
+  const resultsDir = path.dirname(file);
+  const outDir = path.join(resultsDir, runId);
+  fs.mkdirSync(outDir, { recursive: true });
+
+  const trials: ViewerTrial[] = records.map((record) => {
+    const dir = trialDir(resultsDir, runId, record.model, record.taskId, record.trial);
+    const jsonPath = path.join(dir, "trajectory.json");
+    const trajectory = fs.existsSync(jsonPath) ? (JSON.parse(fs.readFileSync(jsonPath, "utf8")) as TrajectoryFile) : null;
+    return { dir: path.relative(outDir, dir), record, trajectory };
+  });
+  const recorded = trials.filter((t) => t.trajectory).length;
+
+  // Escape "<" so model replies can't close the data <script> tag.
+  const data = JSON.stringify(trials).replace(/</g, "\\u003c");
+  const html = `<!doctype html>
+<html lang="en">
+<head><meta charset="utf-8"><title>${esc(runId)} — trajectories</title><style>${PAGE_STYLE}</style></head>
+<body>
+<nav>
+  <div class="filters"><b>${esc(runId)}</b><br><label><input type="checkbox" id="only-failures"> failures only</label></div>
+  <div id="trials"></div>
+</nav>
+<section id="trial"></section>
+<script type="application/json" id="data">${data}</script>
+<script>${PAGE_SCRIPT}</script>
+</body>
+</html>
+`;
+  const outPath = path.join(outDir, "index.html");
+  fs.writeFileSync(outPath, html);
+  console.log(`${c.bold("Viewer:")} ${c.cyan(outPath)} ${c.dim(`(${recorded}/${trials.length} trials have trajectories)`)}`);
+}
+
+main();
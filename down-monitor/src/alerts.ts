@@ -0,0 +1,151 @@
+import { CheckConfig, FlapConfig, SinkConfig } from "./config";
+import { StoredResult } from "./history";
+
+export type AlertState = "UP" | "DOWN";
+
+export interface AlertEvent {
+  kind: "down" | "up" | "flapping" | "stable";
+  check: CheckConfig;
+  /** confirmed state after this result */
+  state: AlertState;
+  result: StoredResult;
+  /** for "down" and "up": when the outage was first seen */
+  downSince?: string;
+  /** for "flapping": UP/DOWN changes within the flap window */
+  changes?: number;
+}
+
+/**
+ * Turns a stream of results for one check into alert events. A state change is
+ * confirmed only after `failuresBeforeAlert` consecutive DOWN results (or
+ * `recoveriesBeforeAlert` non-DOWN ones), and events fire only when the
+ * confirmed state differs from the last one announced. DEGRADED counts as up:
+ * it is slow, not unreachable.
+ *
+ * When raw results change UP/DOWN `threshold` times within the last `window`
+ * checks, the check is flapping: one "flapping" event fires and transitions are
+ * held back until the changes drop below half the threshold, at which point the
+ * settled state is announced if it differs from the last announcement.
+ */
+export class AlertTracker {
+  private confirmed: AlertState = "UP";
+  private announced: AlertState = "UP";
+  private streak = 0;
+  private streakStart: string | undefined;
+  private downSince: string | undefined;
+  private recent: boolean[] = [];
+  private flapping = false;
+
+  constructor(
+    private readonly check: CheckConfig,
+    private readonly flap: FlapConfig,
+  ) {}
+
+  get state(): AlertState {
+    return this.confirmed;
+  }
+
+  get isFlapping(): boolean {
+    return this.flapping;
+  }
+
+  observe(result: StoredResult): AlertEvent | null {
+    const down = result.status === "DOWN";
+    this.recent.push(down);
+    if (this.recent.length > this.flap.window) this.recent.shift();
+
+    if (down !== (this.confirmed === "DOWN")) {
+      if (this.streak === 0) this.streakStart = result.checkedAt;
+      this.streak++;
+    } else {
+      this.streak = 0;
+    }
+    const needed = this.confirmed === "UP" ? this.check.failuresBeforeAlert : this.check.recoveriesBeforeAlert;
+    if (this.streak >= needed) {
+      this.confirmed = down ? "DOWN" : "UP";
+      if (down) this.downSince = this.streakStart;
+      this.streak = 0;
+    }
+
+    let changes = 0;
+    for (let i = 1; i < this.recent.length; i++) if (this.recent[i] !== this.recent[i - 1]) changes++;
+
+    const base = { check: this.check, state: this.confirmed, result };
+    if (!this.flapping && changes >= this.flap.threshold) {
+      this.flapping = true;
+      return { kind: "flapping", ...base, changes };
+    }
+    if (this.flapping) {
+      if (changes >= this.flap.threshold / 2) return null;
+      this.flapping = false;
+      if (this.confirmed === this.announced) return { kind: "stable", ...base };
+    }
+    if (this.confirmed === this.announced) return null;
+
+    this.announced = this.confirmed;
+    return { kind: this.confirmed === "DOWN" ? "down" : "up", ...base, downSince: this.downSince };
+  }
+}
+
+export function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 24 ? `${hours}h ${minutes % 60}m` : `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+export function formatAlert(event: AlertEvent): string {
+  const { check, result } = event;
+  switch (event.kind) {
+    case "down": {
+      const lines = [`🔴 ${check.name} is DOWN (${check.url})`];
+      if (result.reason) lines.push(`Reason: ${result.reason}`);
+      if (check.failuresBeforeAlert > 1) lines.push(`Confirmed by ${check.failuresBeforeAlert} consecutive failed checks.`);
+      if (result.analysis) lines.push(`Analysis: ${result.analysis}`);
+      return lines.join("\n");
+    }
+    case "up": {
+      const outage = event.downSince ? ` after ${formatDuration(Date.parse(result.checkedAt) - Date.parse(event.downSince))}` : "";
+      return `✅ ${check.name} is back UP${outage} (${check.url}) · ${result.loadTime}ms`;
+    }
+    case "flapping":
+      return `🟠 ${check.name} is flapping (${event.changes} UP/DOWN changes in the last checks); alerts are paused until it settles (${check.url})`;
+    case "stable":
+      return `🔵 ${check.name} has stopped flapping and is ${event.state} (${check.url})`;
+  }
+}
+
+function payload(sink: SinkConfig, event: AlertEvent): unknown {
+  const text = formatAlert(event);
+  if (sink.type === "slack") return { text };
+  if (sink.type === "discord") return { content: text };
+  return {
+    event: event.kind,
+    state: event.state,
+    check: { name: event.check.name, url: event.check.url },
+    result: event.result,
+    ...(event.downSince ? { downSince: event.downSince } : {}),
+    message: text,
+  };
+}
+
+/** Delivers to every sink; a failing sink is reported and never stops the others or the watcher. */
+export async function sendAlert(sinks: SinkConfig[], event: AlertEvent): Promise<string[]> {
+  const errors: string[] = [];
+  await Promise.all(
+    sinks.map(async (sink) => {
+      try {
+        const res = await fetch(sink.url, {
+          method: "POST",
+          headers: { "content-type": "application/json", ...sink.headers },
+          body: JSON.stringify(payload(sink, event)),
+          signal: AbortSignal.timeout(10_000),
+        });
+        if (!res.ok) errors.push(`${sink.type} sink: HTTP ${res.status}`);
+      } catch (error: any) {
+        errors.push(`${sink.type} sink: ${error.message}`);
+      }
+    }),
+  );
+  return errors;
+}
@@ -0,0 +1,236 @@
+import { connect } from "tls";
+import type { Page } from "playwright-core";
+
+// What "UP" means for a URL beyond "the page loaded". Every assertion that
+// fails is reported by name, so an alert says "text: 'Sign in' not found"
+// rather than just DOWN.
+
+export interface Assertions {
+  /** accepted HTTP status(es) of the first response; default: anything below 400 */
+  status?: number[];
+  /** text that must appear on the final page */
+  text?: string[];
+  /** CSS selectors that must match on the final page */
+  selector?: string[];
+  /** text that must not appear (error pages, maintenance banners) */
+  forbiddenText?: string[];
+  maxConsoleErrors?: number;
+  /** share of requests that failed at the network level or got a 5xx, 0-1 */
+  maxFailedRequestRatio?: number;
+  /** minimum days until the TLS certificate expires (https URLs only) */
+  minCertDays?: number;
+}
+
+/** Scripted steps run in order after the page loads, e.g. a login. */
+export type Step =
+  | { goto: string }
+  | { click: string }
+  | { fill: string; value: string }
+  | { press: string; selector?: string }
+  | { waitFor: string }
+  | { expectText: string }
+  | { expectSelector: string }
+  | { expectUrl: string };
+
+export interface CheckSpec {
+  expect?: Assertions;
+  steps?: Step[];
+}
+
+export interface AssertionFailure {
+  /** assertion key, or "step N (kind)" */
+  assertion: string;
+  detail: string;
+}
+
+const STEP_KINDS = ["goto", "click", "fill", "press", "waitFor", "expectText", "expectSelector", "expectUrl"];
+const STEP_TIMEOUT_MS = 15_000;
+const TLS_TIMEOUT_MS = 10_000;
+const DAY_MS = 86_400_000;
+
+function stringList(value: unknown, where: string): string[] {
+  const list = Array.isArray(value) ? value : [value];
+  if (list.length === 0 || !list.every((v) => typeof v === "string" && v !== "")) {
+    throw new Error(`${where} must be a non-empty string or list of strings`);
+  }
+  return list as string[];
+}
+
+function nonNegative(value: unknown, where: string, max = Infinity): number {
+  if (typeof value !== "number" || !(value >= 0) || value > max) {
+    throw new Error(`${where} must be a number between 0 and ${max === Infinity ? "infinity" : max}`);
+  }
+  return value;
+}
+
+export function parseAssertions(value: unknown, where: string): Assertions {
+  if (value === undefined) return {};
+  if (!value || typeof value !== "object" || Array.isArray(value)) throw new Error(`${where} must be a mapping`);
+  const raw = value as Record<string, unknown>;
+  const known = ["status", "text", "selector", "forbiddenText", "maxConsoleErrors", "maxFailedRequestRatio", "minCertDays"];
+  const unknown = Object.keys(raw).filter((k) => !known.includes(k));
+  if (unknown.length) throw new Error(`${where}: unknown assertion(s) ${unknown.join(", ")}; known: ${known.join(", ")}`);
+
+  const out: Assertions = {};
+  if (raw.status !== undefined) {
+    const codes: unknown[] = Array.isArray(raw.status) ? raw.status : [raw.status];
+    if (codes.length === 0 || !codes.every((c): c is number => Number.isInteger(c) && (c as number) >= 100 && (c as number) <= 599)) {
+      throw new Error(`${where}.status must be an HTTP status code or a list of them`);
+    }
+    out.status = codes;
+  }
+  if (raw.text !== undefined) out.text = stringList(raw.text, `${where}.text`);
+  if (raw.selector !== undefined) out.selector = stringList(raw.selector, `${where}.selector`);
+  if (raw.forbiddenText !== undefined) out.forbiddenText = stringList(raw.forbiddenText, `${where}.forbiddenText`);
+  if (raw.maxConsoleErrors !== undefined) out.maxConsoleErrors = nonNegative(raw.maxConsoleErrors, `${where}.maxConsoleErrors`);
+  if (raw.maxFailedRequestRatio !== undefined) {
+    out.maxFailedRequestRatio = nonNegative(raw.maxFailedRequestRatio, `${where}.maxFailedRequestRatio`, 1);
+  }
+  if (raw.minCertDays !== undefined) out.minCertDays = nonNegative(raw.minCertDays, `${where}.minCertDays`);
+  return out;
+}
+
+/** `expand` resolves ${VAR} references, so credentials for a login script stay in the environment. */
+export function parseSteps(raw: unknown, where: string, expand: (value: string, where: string) => string): Step[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) throw new Error(`${where} must be a list`);
+  return raw.map((item: unknown, i: number): Step => {
+    const at = `${where}[${i}]`;
+    const s = item && typeof item === "object" ? (item as Record<string, unknown>) : {};
+    const kind = STEP_KINDS.find((k) => k in s);
+    if (!kind) throw new Error(`${at} must have one of ${STEP_KINDS.join(", ")}`);
+    const value = s[kind];
+    if (typeof value !== "string" || !value) throw new Error(`${at}.${kind} must be a non-empty string`);
+    const arg = expand(value, `${at}.${kind}`);
+    switch (kind) {
+      case "fill":
+        if (typeof s.value !== "string") throw new Error(`${at}.value is required for fill`);
+        return { fill: arg, value: expand(s.value, `${at}.value`) };
+      case "press":
+        if (s.selector !== undefined && typeof s.selector !== "string") throw new Error(`${at}.selector must be a string`);
+        return typeof s.selector === "string" && s.selector ? { press: arg, selector: s.selector } : { press: arg };
+      case "goto":
+        return { goto: arg };
+      case "click":
+        return { click: arg };
+      case "waitFor":
+        return { waitFor: arg };
+      case "expectText":
+        return { expectText: arg };
+      case "expectSelector":
+        return { expectSelector: arg };
+      default:
+        return { expectUrl: arg };
+    }
+  });
+}
+
+function stepKind(step: Step): string {
+  return Object.keys(step).find((k) => STEP_KINDS.includes(k))!;
+}
+
+/** Runs steps in order and stops at the first failure, which is returned. */
+export async function runSteps(page: Page, steps: Step[]): Promise<AssertionFailure | null> {
+  for (const [i, step] of steps.entries()) {
+    const assertion = `step ${i + 1} (${stepKind(step)})`;
+    try {
+      if ("goto" in step) await page.goto(step.goto, { waitUntil: "load", timeout: 30000 });
+      else if ("click" in step) await page.click(step.click, { timeout: STEP_TIMEOUT_MS });
+      else if ("fill" in step) await page.fill(step.fill, step.value, { timeout: STEP_TIMEOUT_MS });
+      else if ("press" in step) {
+        if (step.selector) await page.press(step.selector, step.press, { timeout: STEP_TIMEOUT_MS });
+        else await page.keyboard.press(step.press);
+      } else if ("waitFor" in step) await page.waitForSelector(step.waitFor, { timeout: STEP_TIMEOUT_MS });
+      else if ("expectText" in step) {
+        await page.getByText(step.expectText).first().waitFor({ timeout: STEP_TIMEOUT_MS });
+      } else if ("expectSelector" in step) {
+        await page.waitForSelector(step.expectSelector, { timeout: STEP_TIMEOUT_MS });
+      } else if (!page.url().includes(step.expectUrl)) {
+        return { assertion, detail: `URL is ${page.url()}, expected it to contain ${step.expectUrl}` };
+      }
+    } catch (error: any) {
+      // Playwright errors carry a call log after the first line
+      return { assertion, detail: String(error.message || error).split("\n")[0] };
+    }
+  }
+  return null;
+}
+
+/** Days until the server's certificate expires, read over a direct TLS connection. */
+export function certDaysLeft(url: string): Promise<number> {
+  const { hostname, port } = new URL(url);
+  return new Promise((resolve, reject) => {
+    const socket = connect({ host: hostname, port: Number(port) || 443, servername: hostname, rejectUnauthorized: false }, () => {
+      const cert = socket.getPeerCertificate();
+      socket.end();
+      if (!cert || !cert.valid_to) return reject(new Error("server sent no certificate"));
+      resolve((Date.parse(cert.valid_to) - Date.now()) / DAY_MS);
+    });
+    socket.setTimeout(TLS_TIMEOUT_MS, () => socket.destroy(new Error("TLS handshake timed out")));
+    socket.on("error", reject);
+  });
+}
+
+export interface PageObservations {
+  /** status of the first response, null when there was none (e.g. served from cache) */
+  httpStatus: number | null;
+  consoleErrors: string[];
+  requests: number;
+  failedRequests: number;
+}
+
+/** Evaluates every assertion against the final page and what was observed while loading it. */
+export async function evaluateAssertions(
+  page: Page,
+  url: string,
+  expect: Assertions,
+  seen: PageObservations,
+): Promise<AssertionFailure[]> {
+  const failures: AssertionFailure[] = [];
+  const accepted = expect.status;
+  if (seen.httpStatus !== null) {
+    if (accepted ? !accepted.includes(seen.httpStatus) : seen.httpStatus >= 400) {
+      failures.push({ assertion: "status", detail: `HTTP ${seen.httpStatus}, expected ${accepted ? accepted.join(" or ") : "below 400"}` });
+    }
+  }
+
+  if (expect.text || expect.forbiddenText) {
+    const body = await page.innerText("body").catch(() => "");
+    for (const t of expect.text ?? []) {
+      if (!body.includes(t)) failures.push({ assertion: "text", detail: `"${t}" not found on the page` });
+    }
+    for (const t of expect.forbiddenText ?? []) {
+      if (body.includes(t)) failures.push({ assertion: "forbiddenText", detail: `"${t}" found on the page` });
+    }
+  }
+  for (const selector of expect.selector ?? []) {
+    if (!(await page.$(selector).catch(() => null))) failures.push({ assertion: "selector", detail: `${selector} matched nothing` });
+  }
+
+  if (expect.maxConsoleErrors !== undefined && seen.consoleErrors.length > expect.maxConsoleErrors) {
+    failures.push({
+      assertion: "maxConsoleErrors",
+      detail: `${seen.consoleErrors.length} console errors (max ${expect.maxConsoleErrors}), first: ${seen.consoleErrors[0].slice(0, 200)}`,
+    });
+  }
+  if (expect.maxFailedRequestRatio !== undefined && seen.requests > 0) {
+    const ratio = seen.failedRequests / seen.requests;
+    if (ratio > expect.maxFailedRequestRatio) {
+      failures.push({
+        assertion: "maxFailedRequestRatio",
+        detail: `${seen.failedRequests}/${seen.requests} requests failed (${(ratio * 100).toFixed(1)}%, max ${(expect.maxFailedRequestRatio * 100).toFixed(1)}%)`,
+      });
+    }
+  }
+  if (expect.minCertDays !== undefined && url.startsWith("https:")) {
+    try {
+      const days = await certDaysLeft(url);
+      if (days < expect.minCertDays) {
+        failures.push({ assertion: "minCertDays", detail: `certificate expires in ${Math.floor(days)} days (min ${expect.minCertDays})` });
+      }
+    } catch (error: any) {
+      failures.push({ assertion: "minCertDays", detail: `could not read the certificate: ${error.message}` });
+    }
+  }
+  return failures;
+}
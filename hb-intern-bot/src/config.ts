@@ -1,6 +1,8 @@
 import fs from 'fs';
 import * as yaml from 'yaml';
-import { Config, BotConfig, SourceConfig } from './types.js';
+import { Config, BotConfig, SourceConfig, ScoringConfig } from './types.js';
+import { getSourceAdapterByConfigKey, listSourceAdapters, parseSourceConfig } from './scraper/registry.js';
+import { validateSchedule } from './scheduler.js';
 
 export function loadConfig(configPath: string): Config {
   if (!fs.existsSync(configPath)) {
@@ -19,12 +21,21 @@ function validateConfig(config: Config): void {
     throw new Error('Config must have a "bots" array');
   }
 
+  if (config.scoring_profiles !== undefined) {
+    if (typeof config.scoring_profiles !== 'object' || Array.isArray(config.scoring_profiles)) {
+      throw new Error('"scoring_profiles" must be a map of profile name to scoring settings');
+    }
+    for (const [name, profile] of Object.entries(config.scoring_profiles)) {
+      validateScoring(profile, `scoring_profiles.${name}`);
+    }
+  }
+
   for (const bot of config.bots) {
-    validateBot(bot);
+    validateBot(bot, config);
   }
 }
 
-function validateBot(bot: BotConfig): void {
+function validateBot(bot: BotConfig, config: Config): void {
   if (!bot.name || typeof bot.name !== 'string') {
     throw new Error('Bot must have a "name" string');
   }
@@ -46,30 +57,105 @@ function validateBot(bot: BotConfig): void {
   if (bot.exclude && !Array.isArray(bot.exclude)) {
     throw new Error(`Bot "${bot.name}" exclude must be an array of strings`);
   }
+
+  if (bot.schedule !== undefined) {
+    validateSchedule(bot.schedule, bot.name);
+  }
+
+  if (bot.scoring !== undefined) {
+    validateScoring(bot.scoring, `Bot "${bot.name}" scoring`);
+
+    if (bot.scoring.profile && !config.scoring_profiles?.[bot.scoring.profile]) {
+      throw new Error(`Bot "${bot.name}" uses unknown scoring profile "${bot.scoring.profile}"`);
+    }
+  }
 }
 
-function validateSources(sources: SourceConfig, botName: string): void {
-  if (sources.reddit && sources.reddit.subs && !Array.isArray(sources.reddit.subs)) {
-    throw new Error(`Bot "${botName}" reddit.subs must be an array of strings`);
+function validateScoring(scoring: ScoringConfig, where: string): void {
+  if (!scoring || typeof scoring !== 'object' || Array.isArray(scoring)) {
+    throw new Error(`${where} must be an object`);
+  }
+
+  if (scoring.profile !== undefined && typeof scoring.profile !== 'string') {
+    throw new Error(`${where}.profile must be a string`);
+  }
+
+  if (scoring.weights !== undefined) {
+    validateNumberMap(scoring.weights, `${where}.weights`, ['velocity', 'authority', 'impact']);
+    for (const [key, value] of Object.entries(scoring.weights)) {
+      if ((value as number) < 0) {
+        throw new Error(`${where}.weights.${key} must not be negative`);
+      }
+    }
+  }
+
+  if (scoring.source_authority !== undefined) {
+    // Keyed like bot.sources (producthunt, github_trending), not by Event.source
+    validateNumberMap(scoring.source_authority, `${where}.source_authority`, listSourceAdapters().map(a => a.configKey));
+  }
+
+  if (scoring.domains !== undefined) {
+    if (typeof scoring.domains !== 'object' || Array.isArray(scoring.domains)) {
+      throw new Error(`${where}.domains must be an object with allow, boost and/or penalty`);
+    }
+    if (scoring.domains.allow !== undefined && !Array.isArray(scoring.domains.allow)) {
+      throw new Error(`${where}.domains.allow must be an array of domains`);
+    }
+    if (scoring.domains.boost !== undefined) {
+      validateNumberMap(scoring.domains.boost, `${where}.domains.boost`);
+    }
+    if (scoring.domains.penalty !== undefined) {
+      validateNumberMap(scoring.domains.penalty, `${where}.domains.penalty`);
+    }
   }
 
-  if (sources.blogs && !Array.isArray(sources.blogs)) {
-    throw new Error(`Bot "${botName}" blogs must be an array of strings`);
+  if (scoring.keywords !== undefined) {
+    validateNumberMap(scoring.keywords, `${where}.keywords`);
+  }
+}
+
+function validateNumberMap(value: unknown, where: string, allowedKeys?: string[]): void {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${where} must be a map of name to number`);
+  }
+
+  for (const [key, num] of Object.entries(value)) {
+    if (allowedKeys && !allowedKeys.includes(key)) {
+      throw new Error(`${where} has unknown key "${key}" (expected: ${allowedKeys.join(', ')})`);
+    }
+    if (typeof num !== 'number' || isNaN(num)) {
+      throw new Error(`${where}.${key} must be a number`);
+    }
+  }
+}
+
+function validateSources(sources: SourceConfig, botName: string): void {
+  for (const [key, value] of Object.entries(sources)) {
+    const adapter = getSourceAdapterByConfigKey(key);
+    if (!adapter) {
+      const known = listSourceAdapters().map(a => a.configKey).join(', ');
+      throw new Error(`Bot "${botName}" has unknown source "${key}" (known sources: ${known})`);
+    }
+
+    if (value !== undefined && value !== null && value !== false) {
+      parseSourceConfig(adapter, value, botName);
+    }
   }
 }
 
 function applyDefaults(config: Config): Config {
   return {
     ...config,
-    bots: config.bots.map(bot => applyBotDefaults(bot))
+    bots: config.bots.map(bot => applyBotDefaults(bot, config.scoring_profiles || {}))
   };
 }
 
-function applyBotDefaults(bot: BotConfig): BotConfig {
+function applyBotDefaults(bot: BotConfig, profiles: Record<string, ScoringConfig>): BotConfig {
   const defaults = getModeDefaults(bot.mode);
   
   return {
     ...bot,
+    scoring: resolveScoring(bot.scoring, profiles),
     sources: {
       ...defaults.sources,
       ...bot.sources
@@ -79,6 +165,26 @@ function applyBotDefaults(bot: BotConfig): BotConfig {
   };
 }
 
+// Layer the bot's own scoring settings on top of its named profile
+function resolveScoring(
+  scoring: ScoringConfig | undefined,
+  profiles: Record<string, ScoringConfig>
+): ScoringConfig | undefined {
+  if (!scoring) return undefined;
+
+  const base = scoring.profile ? profiles[scoring.profile] : {};
+  return {
+    weights: { ...base.weights, ...scoring.weights },
+    source_authority: { ...base.source_authority, ...scoring.source_authority },
+    domains: {
+      allow: scoring.domains?.allow || base.domains?.allow,
+      boost: { ...base.domains?.boost, ...scoring.domains?.boost },
+      penalty: { ...base.domains?.penalty, ...scoring.domains?.penalty }
+    },
+    keywords: { ...base.keywords, ...scoring.keywords }
+  };
+}
+
 function getModeDefaults(mode: string): Partial<BotConfig> {
   switch (mode) {
     case 'ai':
@@ -141,6 +247,10 @@ export function printSampleConfig(): void {
         - "https://deepmind.google/discover/blog"
     include: ["open source", "launch", "models", "inference", "pricing", "vector", "RAG"]
     exclude: ["hiring", "who is hiring", "promo"]
+    schedule:
+      cron: "0 8,13,18 * * 1-5"
+      quiet_hours: "22:00-07:00"
+      timezone: "America/New_York"
     
   - name: "DevTools Watch"
     mode: "devtools"
@@ -153,8 +263,21 @@ export function printSampleConfig(): void {
         - "https://vercel.com/changelog"
         - "https://github.blog/changelog/"
         - "https://aws.amazon.com/about-aws/whats-new/"
+      lobsters: true
+      github_trending:
+        languages: ["typescript", "rust"]
+        since: "daily"
     include: ["framework", "library", "cli", "api", "tool"]
-    exclude: ["hiring", "job", "career"]`;
+    exclude: ["hiring", "job", "career"]
+    schedule:
+      every: "6h"
+    scoring:
+      weights: { velocity: 0.5, authority: 0.3, impact: 0.2 }
+      source_authority: { lobsters: 0.35 }
+      domains:
+        boost: { "github.com": 0.1 }
+        penalty: { "medium.com": 0.15 }
+      keywords: { "open source": 0.2, "rust": 0.1 }`;
 
   console.log(sample);
 }
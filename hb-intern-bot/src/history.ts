@@ -0,0 +1,177 @@
+import path from 'path';
+import Database from 'better-sqlite3';
+import { Event, HistoryObservation, DomainTrend } from './types.js';
+import { nowISO } from './utils.js';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS events (
+    id TEXT PRIMARY KEY,
+    bot TEXT NOT NULL,
+    source TEXT NOT NULL,
+    title TEXT NOT NULL,
+    url TEXT NOT NULL,
+    permalink TEXT NOT NULL,
+    domain TEXT,
+    author TEXT,
+    created_at TEXT NOT NULL,
+    first_seen TEXT NOT NULL,
+    last_seen TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS observations (
+    event_id TEXT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    observed_at TEXT NOT NULL,
+    points INTEGER NOT NULL,
+    comments INTEGER NOT NULL,
+    PRIMARY KEY (event_id, observed_at)
+  );
+
+  CREATE TABLE IF NOT EXISTS seen (
+    id TEXT PRIMARY KEY,
+    seen_at TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_events_domain ON events(domain, first_seen);
+  CREATE INDEX IF NOT EXISTS idx_events_last_seen ON events(last_seen);
+  CREATE INDEX IF NOT EXISTS idx_seen_seen_at ON seen(seen_at);
+`;
+
+type EventRow = { id: string; bot: string; source: string; title: string; url: string; domain: string | null };
+
+export class EventHistory {
+  private db: Database.Database;
+
+  constructor(outputDir: string) {
+    this.db = new Database(path.join(outputDir, 'history.db'));
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.db.exec(SCHEMA);
+  }
+
+  // Store one point-in-time observation per event so velocity can be tracked across runs
+  recordObservations(events: Event[], bot: string, observedAt: string = nowISO()): void {
+    const upsertEvent = this.db.prepare(`
+      INSERT INTO events (id, bot, source, title, url, permalink, domain, author, created_at, first_seen, last_seen)
+      VALUES (@id, @bot, @source, @title, @url, @permalink, @domain, @author, @created_at, @observed_at, @observed_at)
+      ON CONFLICT(id) DO UPDATE SET title = excluded.title, last_seen = excluded.last_seen
+    `);
+    const insertObservation = this.db.prepare(`
+      INSERT OR REPLACE INTO observations (event_id, observed_at, points, comments)
+      VALUES (?, ?, ?, ?)
+    `);
+
+    this.db.transaction((batch: Event[]) => {
+      for (const event of batch) {
+        upsertEvent.run({
+          id: event.id,
+          bot,
+          source: event.source,
+          title: event.title,
+          url: event.url,
+          permalink: event.permalink,
+          domain: event.domain || null,
+          author: event.author || null,
+          created_at: event.created_at,
+          observed_at: observedAt
+        });
+        insertObservation.run(event.id, observedAt, event.points, event.comments);
+      }
+    })(events);
+  }
+
+  loadSeenIds(): string[] {
+    return (this.db.prepare('SELECT id FROM seen').all() as Array<{ id: string }>).map(row => row.id);
+  }
+
+  markSeen(ids: string[], seenAt: string = nowISO()): void {
+    const insert = this.db.prepare('INSERT OR IGNORE INTO seen (id, seen_at) VALUES (?, ?)');
+    this.db.transaction((batch: string[]) => {
+      for (const id of batch) insert.run(id, seenAt);
+    })(ids);
+  }
+
+  clearSeen(): void {
+    this.db.prepare('DELETE FROM seen').run();
+  }
+
+  // Drop seen ids and events not observed since the cutoff; returns how many rows went
+  expireOlderThan(cutoffISO: string): { seen: number; events: number } {
+    return this.db.transaction(() => {
+      const seen = this.db.prepare('DELETE FROM seen WHERE seen_at < ?').run(cutoffISO).changes;
+      const events = this.db.prepare('DELETE FROM events WHERE last_seen < ?').run(cutoffISO).changes;
+      return { seen, events };
+    })();
+  }
+
+  findEvents(query: string, limit: number = 5): Array<Pick<Event, 'id' | 'source' | 'title' | 'url' | 'domain'> & { bot: string }> {
+    const rows = this.db.prepare(`
+      SELECT id, bot, source, title, url, domain FROM events
+      WHERE id LIKE @prefix OR url = @query OR permalink = @query OR title LIKE @contains
+      ORDER BY last_seen DESC
+      LIMIT @limit
+    `).all({ prefix: `${query}%`, query, contains: `%${query}%`, limit }) as EventRow[];
+
+    return rows.map(row => ({
+      id: row.id,
+      bot: row.bot,
+      source: row.source,
+      title: row.title,
+      url: row.url,
+      domain: row.domain ?? undefined
+    }));
+  }
+
+  getObservations(eventId: string): HistoryObservation[] {
+    const rows = this.db.prepare(`
+      SELECT observed_at, points, comments FROM observations
+      WHERE event_id = ?
+      ORDER BY observed_at ASC
+    `).all(eventId) as Array<{ observed_at: string; points: number; comments: number }>;
+
+    return rows.map((row, i) => {
+      const prev = rows[i - 1];
+      const hours = prev
+        ? (new Date(row.observed_at).getTime() - new Date(prev.observed_at).getTime()) / (1000 * 60 * 60)
+        : 0;
+
+      return {
+        observed_at: row.observed_at,
+        points: row.points,
+        comments: row.comments,
+        points_per_hour: prev && hours > 0 ? (row.points - prev.points) / hours : undefined
+      };
+    });
+  }
+
+  // Compare domains first seen in the last `days` against the window before it
+  domainTrends(days: number = 7, limit: number = 15, bot?: string): DomainTrend[] {
+    const now = Date.now();
+    const windowMs = days * 24 * 60 * 60 * 1000;
+    const currentStart = new Date(now - windowMs).toISOString();
+    const previousStart = new Date(now - 2 * windowMs).toISOString();
+
+    return this.db.prepare(`
+      WITH peaks AS (
+        SELECT e.id, e.domain, e.first_seen, MAX(o.points) AS points
+        FROM events e JOIN observations o ON o.event_id = e.id
+        WHERE e.domain IS NOT NULL AND e.domain != '' AND e.first_seen >= @previousStart
+          AND (@bot IS NULL OR e.bot = @bot)
+        GROUP BY e.id
+      )
+      SELECT
+        domain,
+        SUM(CASE WHEN first_seen >= @currentStart THEN 1 ELSE 0 END) AS items,
+        SUM(CASE WHEN first_seen >= @currentStart THEN points ELSE 0 END) AS points,
+        SUM(CASE WHEN first_seen < @currentStart THEN 1 ELSE 0 END) AS previous_items
+      FROM peaks
+      GROUP BY domain
+      HAVING items > 0
+      ORDER BY items DESC, points DESC
+      LIMIT @limit
+    `).all({ currentStart, previousStart, bot: bot || null, limit }) as DomainTrend[];
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -15,6 +15,12 @@ export interface ExtractResponse {
   error?: string;
 }
 
+export interface ScrapeResponse {
+  markdown?: string;
+  title?: string;
+  error?: string;
+}
+
 export default class HyperbrowserClient {
   private client: Hyperbrowser;
 
@@ -50,6 +56,36 @@ export default class HyperbrowserClient {
     }
   }
 
+  async scrape(url: string): Promise<ScrapeResponse> {
+    try {
+      console.log(`🔄 Scraping article: ${url}`);
+
+      const result = await this.client.scrape.startAndWait({
+        url,
+        scrapeOptions: {
+          formats: ['markdown'],
+          onlyMainContent: true
+        }
+      });
+
+      if (result.error || !result.data?.markdown) {
+        return { error: result.error || 'No content returned from scrape' };
+      }
+
+      console.log(`✅ Successfully scraped: ${url}`);
+      return {
+        markdown: result.data.markdown,
+        title: result.data.metadata?.title as string | undefined
+      };
+
+    } catch (error) {
+      console.error(`❌ Error scraping ${url}:`, error);
+      return {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
   private getSchemaAndPrompt(url: string): { schema: z.ZodType<any>, prompt: string } {
     if (url.includes('news.ycombinator.com')) {
       return {
@@ -100,6 +136,19 @@ export default class HyperbrowserClient {
         }),
         prompt: 'Extract products from this Product Hunt page. For each product, get the name, tagline, URL, number of votes, number of comments, and maker/creator.'
       };
+    } else if (url.includes('github.com/trending')) {
+      return {
+        schema: z.object({
+          repositories: z.array(z.object({
+            name: z.string(),
+            description: z.string().optional(),
+            language: z.string().optional(),
+            stars: z.number().optional(),
+            stars_today: z.number().optional()
+          }))
+        }),
+        prompt: 'Extract trending repositories from this GitHub Trending page. For each repository, get the full name as "owner/repo", description, primary language, total stars, and stars gained in the listed period.'
+      };
     } else {
       // Blog or general site
       return {
@@ -1,12 +1,12 @@
-import { Config, CLIOptions, Event, ScrapedResult } from './types.js';
+import path from 'path';
+import { Config, CLIOptions, BotConfig, ScrapedBySource } from './types.js';
 import { WatchManager } from './watch.js';
-import { scrapeHN } from './scraper/hn.js';
-import { scrapeReddit } from './scraper/reddit.js';
-import { scrapeProductHunt } from './scraper/producthunt.js';
-import { scrapeBlogs } from './scraper/blogs.js';
+import { getEnabledSources, sourceLabel } from './scraper/registry.js';
 import { normalizeEvents } from './pipeline/normalize.js';
-import { scoreEvents, getTopEvents } from './pipeline/score.js';
+import { clusterEvents } from './pipeline/cluster.js';
+import { scoreEvents, getTopEvents, explainScores } from './pipeline/score.js';
 import { initializeSummarizer, summarizeBatch } from './pipeline/summarize.js';
+import { ContentFetcher } from './pipeline/article.js';
 import { writeDigest } from './out/writer.js';
 import { sleep, addJitter } from './utils.js';
 
@@ -18,6 +18,11 @@ export async function run(
   // Initialize AI summarizer if API key is available
   initializeSummarizer(process.env.OPENAI_API_KEY);
 
+  // Full-article fetching is opt-in since it scrapes every top event
+  const fetcher = options.fetchContent
+    ? new ContentFetcher(process.env.HYPERBROWSER_API_KEY!, path.join(options.out, 'cache'))
+    : undefined;
+
   for (const bot of config.bots) {
     try {
       console.log(`\n🤖 Running bot: ${bot.name}`);
@@ -26,18 +31,30 @@ export async function run(
       const scrapedResults = await scrapeAllSources(bot, options);
       
       // Log scraping results
-      const counts = {
-        hn: scrapedResults.hn.length,
-        reddit: scrapedResults.reddit.length,
-        ph: scrapedResults.ph.length,
-        blog: scrapedResults.blog.length
-      };
+      const counts = Object.entries(scrapedResults)
+        .map(([source, results]) => `${sourceLabel(source)}(${results.length})`)
+        .join(' ');
       
-      console.log(`[${bot.name}] HN(${counts.hn}) Reddit(${counts.reddit}) PH(${counts.ph}) Blogs(${counts.blog})`);
+      console.log(`[${bot.name}] ${counts || 'no sources enabled'}`);
       
       // Normalize events
-      const events = normalizeEvents(scrapedResults, bot, options.since);
-      console.log(`[${bot.name}] → normalized(${events.length})`);
+      const normalizedEvents = normalizeEvents(scrapedResults, bot, options.since);
+      console.log(`[${bot.name}] → normalized(${normalizedEvents.length})`);
+      
+      // Record every observation so history can track velocity across runs
+      if (watchManager) {
+        try {
+          watchManager.history.recordObservations(normalizedEvents, bot.name);
+        } catch (error) {
+          console.warn(`[${bot.name}] Could not record event history:`, error);
+        }
+      }
+      
+      // Merge the same story reported by several sources
+      const events = await clusterEvents(normalizedEvents);
+      if (events.length < normalizedEvents.length) {
+        console.log(`[${bot.name}] → clustered(${events.length})`);
+      }
       
       // Filter out previously seen events if using watch mode
       let filteredEvents = events;
@@ -61,8 +78,12 @@ export async function run(
       const topEvents = getTopEvents(scoredEvents, options.top);
       console.log(`[${bot.name}] → top(${topEvents.length})`);
       
+      if (options.explain) {
+        console.log(explainScores(topEvents, bot));
+      }
+      
       // Summarize events
-      const summarizedEvents = await summarizeBatch(topEvents, 3);
+      const summarizedEvents = await summarizeBatch(topEvents, 3, fetcher);
       console.log(`[${bot.name}] → summarized(${summarizedEvents.length})`);
       
       // Write outputs
@@ -75,7 +96,7 @@ export async function run(
       
       // Mark events as seen
       if (watchManager) {
-        watchManager.markEventsSeen(filteredEvents.map(e => e.id));
+        watchManager.markEventsSeen(filteredEvents.flatMap(e => e.member_ids || [e.id]));
       }
       
       // Small delay between bots
@@ -90,79 +111,26 @@ export async function run(
 }
 
 async function scrapeAllSources(
-  bot: any,
+  bot: BotConfig,
   options: CLIOptions
-): Promise<{
-  hn: ScrapedResult[];
-  reddit: ScrapedResult[];
-  ph: ScrapedResult[];
-  blog: ScrapedResult[];
-}> {
+): Promise<ScrapedBySource> {
   const apiKey = process.env.HYPERBROWSER_API_KEY!;
-  const results = {
-    hn: [] as ScrapedResult[],
-    reddit: [] as ScrapedResult[],
-    ph: [] as ScrapedResult[],
-    blog: [] as ScrapedResult[]
-  };
-
-  // Create promises for parallel execution
-  const promises: Promise<void>[] = [];
+  const results: ScrapedBySource = {};
 
-  // Scrape HN if enabled
-  if (bot.sources.hn) {
-    promises.push(
-      scrapeHN(apiKey)
-        .then(scraped => {
-          results.hn = scraped;
-        })
-        .catch(error => {
-          console.error(`[${bot.name}] HN scraping failed:`, error);
-        })
-    );
-  }
-
-  // Scrape Reddit if enabled
-  if (bot.sources.reddit?.subs && bot.sources.reddit.subs.length > 0) {
-    promises.push(
-      scrapeReddit(apiKey, bot.sources.reddit.subs)
-        .then(scraped => {
-          results.reddit = scraped;
-        })
-        .catch(error => {
-          console.error(`[${bot.name}] Reddit scraping failed:`, error);
-        })
-    );
-  }
-
-  // Scrape Product Hunt if enabled
-  if (bot.sources.producthunt) {
-    promises.push(
-      scrapeProductHunt(apiKey)
-        .then(scraped => {
-          results.ph = scraped;
-        })
-        .catch(error => {
-          console.error(`[${bot.name}] Product Hunt scraping failed:`, error);
-        })
-    );
-  }
-
-  // Scrape blogs if enabled
-  if (bot.sources.blogs && bot.sources.blogs.length > 0) {
-    promises.push(
-      scrapeBlogs(apiKey, bot.sources.blogs)
-        .then(scraped => {
-          results.blog = scraped;
-        })
-        .catch(error => {
-          console.error(`[${bot.name}] Blog scraping failed:`, error);
-        })
-    );
-  }
+  // Scrape every enabled source from the registry in parallel
+  const promises = getEnabledSources(bot.sources, bot.name).map(({ adapter, config }) => {
+    results[adapter.name] = [];
+    return adapter.scrape(apiKey, config)
+      .then(scraped => {
+        results[adapter.name] = scraped;
+      })
+      .catch(error => {
+        console.error(`[${bot.name}] ${adapter.label} scraping failed:`, error);
+      });
+  });
 
   // Wait for all scraping to complete
   await Promise.all(promises);
 
   return results;
-}
\ No newline at end of file
+}
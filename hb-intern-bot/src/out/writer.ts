@@ -0,0 +1,253 @@
+import fs from 'fs';
+import path from 'path';
+import { Event, BotConfig, DigestItem } from '../types.js';
+import { generateDeck, themeColors } from '../pipeline/deck.js';
+import { sourceLabel } from '../scraper/registry.js';
+import { slug, nowISO, truncate, isHttpUrl } from '../utils.js';
+
+export interface WriteDigestOptions {
+  generateDeck: boolean;
+  theme: string;
+  sendSlack: boolean;
+  slackWebhook?: string;
+}
+
+export function ensureOutputDir(dir: string): void {
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+}
+
+export async function writeDigest(
+  events: Event[],
+  bot: BotConfig,
+  outDir: string,
+  options: WriteDigestOptions
+): Promise<void> {
+  const generatedAt = nowISO();
+  const date = generatedAt.slice(0, 10);
+  const botDir = path.join(outDir, slug(bot.name));
+  const digestDir = path.join(botDir, date);
+  ensureOutputDir(digestDir);
+
+  const items = events.map(toDigestItem);
+  const written: string[] = [];
+
+  fs.writeFileSync(path.join(digestDir, 'digest.md'), renderMarkdown(items, bot, date), 'utf8');
+  written.push('digest.md');
+
+  fs.writeFileSync(path.join(digestDir, 'digest.json'), JSON.stringify(items, null, 2), 'utf8');
+  written.push('digest.json');
+
+  fs.writeFileSync(path.join(digestDir, 'digest.html'), renderHtml(items, bot, date, options.theme), 'utf8');
+  written.push('digest.html');
+
+  // The feed lives next to the dated folders so subscribers keep a stable URL
+  fs.writeFileSync(path.join(botDir, 'feed.xml'), renderRss(items, bot, generatedAt), 'utf8');
+  written.push('feed.xml');
+
+  if (options.generateDeck) {
+    try {
+      const pdfBytes = await generateDeck(events, bot, options.theme);
+      fs.writeFileSync(path.join(digestDir, 'deck.pdf'), pdfBytes);
+      written.push('deck.pdf');
+    } catch (error) {
+      console.error(`[${bot.name}] Deck generation failed:`, error);
+    }
+  }
+
+  let slackStatus = '';
+  if (options.sendSlack) {
+    const ok = await sendToSlack(items, bot, date, options.slackWebhook);
+    slackStatus = `, slack: ${ok ? 'OK' : 'FAILED'}`;
+  }
+
+  console.log(`[${bot.name}] wrote ${written.join(', ')}${slackStatus} → ${digestDir}`);
+}
+
+export function toDigestItem(event: Event): DigestItem {
+  return {
+    title: event.title,
+    url: event.url,
+    summary: event.summary || '',
+    why_matters: event.why_matters || '',
+    score: Number((event.score || 0).toFixed(3)),
+    source: event.source,
+    points: event.points,
+    comments: event.comments,
+    ...(event.links ? { links: event.links } : {}),
+    ...(event.community_reaction ? { community_reaction: event.community_reaction } : {})
+  };
+}
+
+function renderMarkdown(items: DigestItem[], bot: BotConfig, date: string): string {
+  const lines: string[] = [];
+
+  lines.push(`# ${bot.name} Digest — ${date}`);
+  lines.push('');
+  lines.push(`_${items.length} top stories • Built with [Hyperbrowser](https://hyperbrowser.ai)_`);
+  lines.push('');
+
+  items.forEach((item, i) => {
+    lines.push(`## ${i + 1}. [${item.title}](${item.url})`);
+    lines.push('');
+    lines.push(`**${sourceLabel(item.source)}** • ${item.points} points • ${item.comments} comments • score ${item.score.toFixed(2)}`);
+    lines.push('');
+    if (item.links) {
+      lines.push(`Discussed on: ${item.links.map(l => `[${sourceLabel(l.source)}](${l.permalink})`).join(' • ')}`);
+      lines.push('');
+    }
+    if (item.summary) {
+      summaryBullets(item.summary).forEach(bullet => lines.push(`- ${bullet}`));
+      lines.push('');
+    }
+    if (item.why_matters) {
+      lines.push(`> **Why it matters:** ${item.why_matters}`);
+      lines.push('');
+    }
+    if (item.community_reaction) {
+      lines.push(`💬 **Community reaction:** ${item.community_reaction}`);
+      lines.push('');
+    }
+  });
+
+  return lines.join('\n');
+}
+
+function renderHtml(items: DigestItem[], bot: BotConfig, date: string, theme: string): string {
+  const colors = themeColors(theme as 'modern' | 'dark' | 'neon');
+
+  const cards = items.map((item, i) => `    <article>
+      <h2>${i + 1}. ${anchor(item.url, item.title)}</h2>
+      <p class="meta">${escapeXml(sourceLabel(item.source))} • ${item.points} points • ${item.comments} comments • score ${item.score.toFixed(2)}</p>
+      ${item.links ? `<p class="links">Discussed on: ${item.links.map(l => `${anchor(l.permalink, sourceLabel(l.source))} (${l.points} pts, ${l.comments} comments)`).join(' • ')}</p>` : ''}
+      ${item.summary ? `<ul>${summaryBullets(item.summary).map(b => `<li>${escapeXml(b)}</li>`).join('')}</ul>` : ''}
+      ${item.why_matters ? `<p class="why"><strong>Why it matters:</strong> ${escapeXml(item.why_matters)}</p>` : ''}
+      ${item.community_reaction ? `<p class="why"><strong>Community reaction:</strong> ${escapeXml(item.community_reaction)}</p>` : ''}
+    </article>`).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeXml(bot.name)} Digest — ${date}</title>
+  <style>
+    body { margin: 0; padding: 2rem; background: ${colors.bg}; color: ${colors.fg}; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif; line-height: 1.5; }
+    main { max-width: 760px; margin: 0 auto; }
+    header { border-bottom: 3px solid ${colors.acc}; margin-bottom: 1.5rem; }
+    a { color: inherit; }
+    article { padding: 1rem 0; border-bottom: 1px solid rgba(127, 127, 127, 0.3); }
+    h2 { font-size: 1.15rem; margin: 0 0 0.25rem; }
+    .meta { color: ${colors.acc}; font-size: 0.85rem; margin: 0 0 0.5rem; }
+    .why { font-size: 0.95rem; }
+    .links { font-size: 0.85rem; margin: 0 0 0.5rem; }
+    footer { margin-top: 2rem; font-size: 0.8rem; opacity: 0.7; }
+  </style>
+</head>
+<body>
+  <main>
+    <header>
+      <h1>${escapeXml(bot.name)} Digest</h1>
+      <p>${date} • ${items.length} top stories</p>
+    </header>
+${cards}
+    <footer>Built with <a href="https://hyperbrowser.ai">Hyperbrowser</a></footer>
+  </main>
+</body>
+</html>
+`;
+}
+
+function renderRss(items: DigestItem[], bot: BotConfig, generatedAt: string): string {
+  const pubDate = new Date(generatedAt).toUTCString();
+
+  const entries = items.map(item => `    <item>
+      <title>${escapeXml(item.title)}</title>
+      <link>${escapeXml(item.url)}</link>
+      <guid isPermaLink="false">${escapeXml(`${slug(bot.name)}:${item.url}`)}</guid>
+      <pubDate>${pubDate}</pubDate>
+      <category>${escapeXml(sourceLabel(item.source))}</category>
+      <description>${escapeXml([item.summary, item.why_matters, item.community_reaction].filter(Boolean).join('\n\n'))}</description>
+    </item>`).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0">
+  <channel>
+    <title>${escapeXml(bot.name)} Digest</title>
+    <link>https://hyperbrowser.ai</link>
+    <description>${escapeXml(`Top ${bot.mode} stories collected by hb-intern`)}</description>
+    <lastBuildDate>${pubDate}</lastBuildDate>
+${entries}
+  </channel>
+</rss>
+`;
+}
+
+async function sendToSlack(
+  items: DigestItem[],
+  bot: BotConfig,
+  date: string,
+  webhookUrl?: string
+): Promise<boolean> {
+  if (!webhookUrl) {
+    console.error(`[${bot.name}] SLACK_WEBHOOK_URL is not set, skipping Slack`);
+    return false;
+  }
+
+  const lines = items.map((item, i) =>
+    `*${i + 1}. <${item.url}|${truncate(item.title, 120)}>*\n${sourceLabel(item.source)} • ${item.points} pts • ${item.comments} comments` +
+    (item.links ? ` • ${item.links.map(l => `<${l.permalink}|${sourceLabel(l.source)}>`).join(' ')}` : '') +
+    `\n${item.why_matters}`
+  );
+
+  try {
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        text: `${bot.name} Digest — ${date}`,
+        blocks: [
+          {
+            type: 'header',
+            text: { type: 'plain_text', text: truncate(`🤖 ${bot.name} Digest — ${date}`, 150) }
+          },
+          ...lines.map(text => ({
+            type: 'section',
+            text: { type: 'mrkdwn', text: truncate(text, 3000) }
+          }))
+        ]
+      })
+    });
+
+    if (!response.ok) {
+      console.error(`[${bot.name}] Slack webhook returned ${response.status}`);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error(`[${bot.name}] Slack webhook failed:`, error);
+    return false;
+  }
+}
+
+function summaryBullets(summary: string): string[] {
+  return summary
+    .split('\n')
+    .map(line => line.replace(/^\s*[•\-*]\s*/, '').trim())
+    .filter(Boolean);
+}
+
+// Escaping doesn't defuse a javascript: URL, so anything but a web link renders as plain text
+function anchor(url: string, text: string): string {
+  return isHttpUrl(url) ? `<a href="${escapeXml(url)}">${escapeXml(text)}</a>` : escapeXml(text);
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,221 @@
+import fs from 'fs';
+import path from 'path';
+import HyperbrowserClient from '../hyperbrowser-client.js';
+import { Event, EventContent } from '../types.js';
+import { sha1, truncate, nowISO } from '../utils.js';
+import { isExternalUrl } from './cluster.js';
+
+const ARTICLE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// Failed scrapes are often transient, so they are retried much sooner
+const ARTICLE_FAILURE_TTL_MS = 60 * 60 * 1000;
+const COMMENTS_TTL_MS = 6 * 60 * 60 * 1000;
+const MAX_ARTICLE_CHARS = 8000;
+const MAX_COMMENTS = 5;
+const MAX_COMMENT_CHARS = 300;
+
+const BOILERPLATE = /(cookie|subscribe|newsletter|sign up|sign in|log in|all rights reserved|privacy policy|terms of service|share this|advertisement)/i;
+
+interface CacheEntry<T> {
+  key: string;
+  fetched_at: string;
+  value: T;
+}
+
+// One JSON file per key so watch runs don't re-scrape the same URL
+export class ContentCache {
+  constructor(private dir: string) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  get<T>(key: string, maxAgeMs: number): T | undefined {
+    const file = this.fileFor(key);
+    try {
+      if (!fs.existsSync(file)) return undefined;
+      const entry = JSON.parse(fs.readFileSync(file, 'utf8')) as CacheEntry<T>;
+      if (Date.now() - new Date(entry.fetched_at).getTime() > maxAgeMs) return undefined;
+      return entry.value;
+    } catch {
+      return undefined;
+    }
+  }
+
+  set<T>(key: string, value: T): void {
+    const entry: CacheEntry<T> = { key, fetched_at: nowISO(), value };
+    try {
+      fs.writeFileSync(this.fileFor(key), JSON.stringify(entry), 'utf8');
+    } catch (error) {
+      console.warn(`Could not cache ${key}:`, error);
+    }
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.dir, `${sha1(key)}.json`);
+  }
+}
+
+export class ContentFetcher {
+  private hb: HyperbrowserClient;
+  private cache: ContentCache;
+
+  constructor(apiKey: string, cacheDir: string) {
+    this.hb = new HyperbrowserClient({ apiKey });
+    this.cache = new ContentCache(cacheDir);
+  }
+
+  async fetch(event: Event): Promise<EventContent> {
+    const [article, comments] = await Promise.all([
+      this.fetchArticle(event.url),
+      this.fetchComments(event)
+    ]);
+
+    return { article, comments };
+  }
+
+  private async fetchArticle(url: string): Promise<string | undefined> {
+    // Self posts and discussion pages have no article behind them
+    if (!isExternalUrl(url)) return undefined;
+
+    const key = `article:${url}`;
+    const failedKey = `article-failed:${url}`;
+    const cached = this.cache.get<string>(key, ARTICLE_TTL_MS);
+    if (cached) return cached;
+    if (this.cache.get<boolean>(failedKey, ARTICLE_FAILURE_TTL_MS)) return undefined;
+
+    const response = await this.hb.scrape(url);
+    const content = response.markdown ? extractMainContent(response.markdown) : '';
+
+    // Failures get a short-lived marker so a broken page isn't retried on every watch run
+    if (content) {
+      this.cache.set(key, content);
+    } else {
+      this.cache.set(failedKey, true);
+    }
+    return content || undefined;
+  }
+
+  private async fetchComments(event: Event): Promise<string[]> {
+    const links = event.links || [{ source: event.source, permalink: event.permalink, points: event.points, comments: event.comments }];
+    const comments: Array<{ text: string; score: number }> = [];
+
+    for (const link of links) {
+      if (link.comments === 0) continue;
+
+      const key = `comments:${link.permalink}`;
+      let fetched = this.cache.get<Array<{ text: string; score: number }>>(key, COMMENTS_TTL_MS);
+
+      if (!fetched) {
+        try {
+          if (link.source === 'hn') {
+            fetched = await fetchHNComments(link.permalink);
+          } else if (link.source === 'reddit') {
+            fetched = await fetchRedditComments(link.permalink);
+          }
+        } catch (error) {
+          console.warn(`Could not fetch comments for ${link.permalink}:`, error);
+        }
+        if (fetched) this.cache.set(key, fetched);
+      }
+
+      comments.push(...(fetched || []));
+    }
+
+    return comments
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_COMMENTS)
+      .map(c => c.text);
+  }
+}
+
+export function extractMainContent(markdown: string, maxChars: number = MAX_ARTICLE_CHARS): string {
+  const paragraphs: string[] = [];
+
+  for (const rawLine of markdown.split('\n')) {
+    const line = rawLine
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, '')      // images
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')   // links → text
+      .replace(/<[^>]+>/g, '')
+      .trim();
+
+    if (!line) {
+      if (paragraphs[paragraphs.length - 1] !== '') paragraphs.push('');
+      continue;
+    }
+
+    const isStructural = line.startsWith('#') || /^([-*+]|\d+\.)\s/.test(line) || line.startsWith('|');
+    const looksLikeSentence = /[.!?:;]["')]?$/.test(line) || line.length > 80;
+
+    // Navigation, share bars and footers are short lines without sentence punctuation
+    if (!isStructural && !looksLikeSentence && line.length < 40) continue;
+    if (line.length < 200 && BOILERPLATE.test(line)) continue;
+
+    paragraphs.push(line);
+  }
+
+  const text = paragraphs.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+  if (text.length <= maxChars) return text;
+
+  // Cut at the last paragraph break that fits
+  const cut = text.lastIndexOf('\n\n', maxChars);
+  return text.slice(0, cut > maxChars / 2 ? cut : maxChars).trim();
+}
+
+async function fetchHNComments(permalink: string): Promise<Array<{ text: string; score: number }>> {
+  const id = permalink.match(/[?&]id=(\d+)/)?.[1];
+  if (!id) return [];
+
+  const response = await fetch(`https://hn.algolia.com/api/v1/items/${id}`);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+  const item = await response.json() as { children?: Array<{ text?: string; author?: string; children?: unknown[] }> };
+
+  // HN exposes no comment scores; top-level order is rank order, and reply count marks engagement
+  return (item.children || [])
+    .filter(c => c.text)
+    .slice(0, MAX_COMMENTS * 2)
+    .map((c, i) => ({
+      text: formatComment(htmlToText(c.text!), c.author),
+      score: (c.children?.length || 0) + (MAX_COMMENTS * 2 - i)
+    }));
+}
+
+type RedditComment = {
+  kind: string;
+  data?: { body?: string; author?: string; score?: number; stickied?: boolean };
+};
+
+// Reddit returns [post listing, comment listing]
+type RedditThread = Array<{ data?: { children?: RedditComment[] } }>;
+
+async function fetchRedditComments(permalink: string): Promise<Array<{ text: string; score: number }>> {
+  const url = `${permalink.replace(/\/$/, '')}.json?sort=top&limit=${MAX_COMMENTS * 2}`;
+  const response = await fetch(url, {
+    headers: { 'User-Agent': 'hb-intern (+https://hyperbrowser.ai)' }
+  });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+  const listing = await response.json() as RedditThread;
+  const children = listing?.[1]?.data?.children || [];
+
+  return children.flatMap(c => {
+    const data = c.data;
+    if (c.kind !== 't1' || !data?.body || data.body === '[deleted]' || data.stickied) return [];
+    return [{ text: formatComment(data.body, data.author), score: data.score || 0 }];
+  });
+}
+
+function formatComment(text: string, author?: string): string {
+  const clean = truncate(text.replace(/\s+/g, ' ').trim(), MAX_COMMENT_CHARS);
+  return author ? `${author}: ${clean}` : clean;
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<p>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&#x27;/g, "'")
+    .replace(/&#x2F;/g, '/')
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,219 @@
+import { Event, EventLink } from '../types.js';
+
+const TRACKING_PARAMS = [
+  'ref', 'ref_src', 'source', 'fbclid', 'gclid', 'dclid', 'mc_cid', 'mc_eid',
+  'igshid', 'si', 'spm', 'share', 'via', 'cmpid', '_hsenc', '_hsmi'
+];
+
+const AGGREGATOR_HOSTS = [
+  'reddit.com',
+  'news.ycombinator.com',
+  'producthunt.com',
+  'lobste.rs'
+];
+
+const TITLE_STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'of', 'for', 'to', 'in', 'on', 'with', 'by',
+  'at', 'from', 'is', 'are', 'its', 'it', 'your', 'you', 'we', 'our', 'how', 'why'
+]);
+
+const TITLE_SIMILARITY_THRESHOLD = 0.6;
+const REDIRECT_TIMEOUT_MS = 5000;
+const REDIRECT_CONCURRENCY = 8;
+
+const redirectCache = new Map<string, string>();
+
+export interface ClusterOptions {
+  resolveRedirects?: boolean;
+  titleThreshold?: number;
+}
+
+export async function clusterEvents(events: Event[], options: ClusterOptions = {}): Promise<Event[]> {
+  if (events.length < 2) return events;
+
+  const threshold = options.titleThreshold ?? TITLE_SIMILARITY_THRESHOLD;
+  const resolved = options.resolveRedirects === false
+    ? new Map<string, string>()
+    : await resolveRedirects(events.filter(e => isExternalUrl(e.url)).map(e => e.url));
+
+  const canonical = events.map(e => canonicalUrl(resolved.get(e.url) || e.url));
+  const tokens = events.map(e => titleTokens(e.title));
+
+  // Union-find over events: same canonical URL or near-identical titles
+  const parent = events.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const union = (a: number, b: number) => {
+    const ra = find(a);
+    const rb = find(b);
+    if (ra !== rb) parent[rb] = ra;
+  };
+
+  const byUrl = new Map<string, number>();
+  canonical.forEach((url, i) => {
+    const existing = byUrl.get(url);
+    if (existing !== undefined) {
+      union(existing, i);
+    } else {
+      byUrl.set(url, i);
+    }
+  });
+
+  for (let i = 0; i < events.length; i++) {
+    for (let j = i + 1; j < events.length; j++) {
+      if (find(i) !== find(j) && jaccard(tokens[i], tokens[j]) >= threshold) {
+        union(i, j);
+      }
+    }
+  }
+
+  const groups = new Map<number, Event[]>();
+  events.forEach((event, i) => {
+    const root = find(i);
+    const group = groups.get(root) || [];
+    group.push(event);
+    groups.set(root, group);
+  });
+
+  return Array.from(groups.values()).map(mergeCluster);
+}
+
+export function mergeCluster(members: Event[]): Event {
+  if (members.length === 1) return members[0];
+
+  const primary = members.reduce((best, candidate) =>
+    shouldReplace(best, candidate) ? candidate : best
+  );
+
+  const links: EventLink[] = members.map(m => ({
+    source: m.source,
+    permalink: m.permalink,
+    points: m.points,
+    comments: m.comments
+  }));
+
+  // The earliest sighting keeps the cluster inside the --since window
+  const createdAt = members
+    .map(m => m.created_at)
+    .sort((a, b) => new Date(a).getTime() - new Date(b).getTime())[0];
+
+  return {
+    ...primary,
+    points: members.reduce((sum, m) => sum + m.points, 0),
+    comments: members.reduce((sum, m) => sum + m.comments, 0),
+    created_at: createdAt,
+    sources: Array.from(new Set(members.map(m => m.source))),
+    links,
+    member_ids: members.map(m => m.id)
+  };
+}
+
+export function canonicalUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.protocol = 'https:';
+    parsed.hostname = parsed.hostname.toLowerCase().replace(/^(www|m|mobile)\./, '');
+    parsed.hash = '';
+
+    for (const key of Array.from(parsed.searchParams.keys())) {
+      if (key.toLowerCase().startsWith('utm_') || TRACKING_PARAMS.includes(key.toLowerCase())) {
+        parsed.searchParams.delete(key);
+      }
+    }
+    parsed.searchParams.sort();
+
+    return parsed.toString().replace(/\/(?=$|\?)/, '');
+  } catch {
+    return url.toLowerCase();
+  }
+}
+
+export function isExternalUrl(url: string): boolean {
+  try {
+    const domain = new URL(url).hostname;
+    return !AGGREGATOR_HOSTS.some(host => domain.includes(host));
+  } catch {
+    return false;
+  }
+}
+
+export function titleTokens(title: string): Set<string> {
+  const cleaned = title
+    .toLowerCase()
+    .replace(/^(show|ask|launch|tell) hn:\s*/, '')
+    .replace(/\[[^\]]*\]|\([^)]*\)/g, ' ')
+    .replace(/[^a-z0-9\s]/g, ' ');
+
+  return new Set(
+    cleaned.split(/\s+/).filter(word => word.length > 1 && !TITLE_STOPWORDS.has(word))
+  );
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  // Very short titles ("Rust 2.0") collide too easily to cluster on
+  if (a.size < 3 || b.size < 3) return 0;
+
+  let intersection = 0;
+  for (const token of a) {
+    if (b.has(token)) intersection++;
+  }
+  return intersection / (a.size + b.size - intersection);
+}
+
+function shouldReplace(existing: Event, candidate: Event): boolean {
+  // Prefer external URLs over permalinks
+  if (isExternalUrl(candidate.url) && !isExternalUrl(existing.url)) {
+    return true;
+  }
+
+  if (!isExternalUrl(candidate.url) && isExternalUrl(existing.url)) {
+    return false;
+  }
+
+  // If both external or both permalinks, prefer higher points
+  return candidate.points > existing.points;
+}
+
+async function resolveRedirects(urls: string[]): Promise<Map<string, string>> {
+  const resolved = new Map<string, string>();
+  const pending = Array.from(new Set(urls)).filter(url => {
+    const cached = redirectCache.get(url);
+    if (cached) resolved.set(url, cached);
+    return !cached;
+  });
+
+  const worker = async () => {
+    while (pending.length > 0) {
+      const url = pending.shift()!;
+      const finalUrl = await resolveRedirect(url);
+      redirectCache.set(url, finalUrl);
+      resolved.set(url, finalUrl);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(REDIRECT_CONCURRENCY, pending.length) }, worker));
+  return resolved;
+}
+
+async function resolveRedirect(url: string): Promise<string> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REDIRECT_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(url, {
+      method: 'HEAD',
+      redirect: 'follow',
+      signal: controller.signal
+    });
+    return response.url || url;
+  } catch {
+    return url;
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -206,7 +206,7 @@ async function addEventSlide(
   yPosition -= 20;
   
   // Source and stats
-  const sourceText = `${event.source.toUpperCase()}${event.subreddit ? ` • r/${event.subreddit}` : ''} • ${event.points} points • ${event.comments} comments`;
+  const sourceText = `${(event.sources || [event.source]).map(s => s.toUpperCase()).join(' + ')}${event.subreddit ? ` • r/${event.subreddit}` : ''} • ${event.points} points • ${event.comments} comments`;
   page.drawText(sourceText, {
     x: margin,
     y: yPosition,
@@ -1,7 +1,8 @@
-import { Event, ScrapedResult, ParsedWindow, BotConfig } from '../types.js';
+import { Event, ScrapedResult, ScrapedBySource, BotConfig } from '../types.js';
 import { sha1, parseWindow } from '../utils.js';
+import { getSourceAdapter } from '../scraper/registry.js';
 
-export function toEvent(scraped: ScrapedResult, source: 'hn' | 'reddit' | 'ph' | 'blog'): Event {
+export function toEvent(scraped: ScrapedResult, source: string): Event {
   return {
     id: sha1(source + scraped.permalink),
     source,
@@ -18,18 +19,18 @@ export function toEvent(scraped: ScrapedResult, source: 'hn' | 'reddit' | 'ph' |
 }
 
 export function normalizeEvents(
-  scrapedResults: { hn: ScrapedResult[]; reddit: ScrapedResult[]; ph: ScrapedResult[]; blog: ScrapedResult[] },
+  scrapedResults: ScrapedBySource,
   bot: BotConfig,
   sinceWindow: string
 ): Event[] {
   const events: Event[] = [];
   const window = parseWindow(sinceWindow as '24h' | '48h' | '7d');
 
-  // Convert scraped results to events
-  scrapedResults.hn.forEach(r => events.push(toEvent(r, 'hn')));
-  scrapedResults.reddit.forEach(r => events.push(toEvent(r, 'reddit')));
-  scrapedResults.ph.forEach(r => events.push(toEvent(r, 'ph')));
-  scrapedResults.blog.forEach(r => events.push(toEvent(r, 'blog')));
+  // Convert scraped results to events, letting adapters override the mapping
+  for (const [source, results] of Object.entries(scrapedResults)) {
+    const adapter = getSourceAdapter(source);
+    results.forEach(r => events.push(adapter?.normalize ? adapter.normalize(r) : toEvent(r, source)));
+  }
 
   // Filter by time window
   const filtered = events.filter(event => {
@@ -43,7 +44,7 @@ export function normalizeEvents(
     return passesFilters(event, bot.include, bot.exclude);
   });
 
-  // Dedupe by URL preference (external URL > permalink) and then by ID
+  // Dedupe by ID
   const deduped = dedupeEvents(withFilters);
 
   return deduped.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
@@ -75,76 +76,16 @@ function passesFilters(event: Event, include: string[], exclude: string[]): bool
 }
 
 function dedupeEvents(events: Event[]): Event[] {
-  const urlMap = new Map<string, Event>();
   const idMap = new Map<string, Event>();
 
+  // Only exact duplicates are dropped here; the same story from different
+  // sources is merged later by clusterEvents so its engagement adds up
   for (const event of events) {
-    // Normalize URL for comparison
-    const normalizedUrl = normalizeUrl(event.url);
-    
-    // Check if we've seen this URL before
-    const existing = urlMap.get(normalizedUrl);
-    if (existing) {
-      // Keep the one with higher points, or prefer external URLs
-      if (shouldReplace(existing, event)) {
-        urlMap.set(normalizedUrl, event);
-        idMap.set(event.id, event);
-        idMap.delete(existing.id);
-      }
-    } else {
-      // Check for ID collision
-      if (!idMap.has(event.id)) {
-        urlMap.set(normalizedUrl, event);
-        idMap.set(event.id, event);
-      }
+    const existing = idMap.get(event.id);
+    if (!existing || event.points > existing.points) {
+      idMap.set(event.id, event);
     }
   }
 
   return Array.from(idMap.values());
 }
-
-function normalizeUrl(url: string): string {
-  try {
-    const parsed = new URL(url);
-    // Remove tracking parameters and normalize
-    parsed.searchParams.delete('utm_source');
-    parsed.searchParams.delete('utm_medium');
-    parsed.searchParams.delete('utm_campaign');
-    parsed.searchParams.delete('ref');
-    
-    // Remove trailing slash and fragments
-    let normalized = parsed.toString().replace(/\/$/, '').replace(/#.*$/, '');
-    
-    // Remove www
-    normalized = normalized.replace(/\/\/www\./, '//');
-    
-    return normalized;
-  } catch {
-    return url.toLowerCase();
-  }
-}
-
-function shouldReplace(existing: Event, candidate: Event): boolean {
-  // Prefer external URLs over permalinks
-  if (isExternalUrl(candidate.url) && !isExternalUrl(existing.url)) {
-    return true;
-  }
-  
-  if (!isExternalUrl(candidate.url) && isExternalUrl(existing.url)) {
-    return false;
-  }
-  
-  // If both external or both permalinks, prefer higher points
-  return candidate.points > existing.points;
-}
-
-function isExternalUrl(url: string): boolean {
-  try {
-    const domain = new URL(url).hostname;
-    return !domain.includes('reddit.com') && 
-           !domain.includes('news.ycombinator.com') && 
-           !domain.includes('producthunt.com');
-  } catch {
-    return false;
-  }
-}
@@ -1,9 +1,31 @@
-import { Event, ScoreComponents, BotConfig } from '../types.js';
+import { Event, ScoreComponents, BotConfig, ScoringConfig, ScoringWeights } from '../types.js';
 import { isReputableDomain, normalizeScores } from '../utils.js';
+import { getSourceAdapter } from '../scraper/registry.js';
+
+export const DEFAULT_WEIGHTS: ScoringWeights = {
+  velocity: 0.6,
+  authority: 0.25,
+  impact: 0.15
+};
+
+export function resolveWeights(scoring?: ScoringConfig): ScoringWeights {
+  const weights = { ...DEFAULT_WEIGHTS, ...scoring?.weights };
+  const total = weights.velocity + weights.authority + weights.impact;
+
+  // Keep the final score in 0..1 whatever the YAML weights add up to
+  if (total <= 0) return DEFAULT_WEIGHTS;
+  return {
+    velocity: weights.velocity / total,
+    authority: weights.authority / total,
+    impact: weights.impact / total
+  };
+}
 
 export function scoreEvents(events: Event[], bot: BotConfig): Event[] {
   if (events.length === 0) return events;
 
+  const weights = resolveWeights(bot.scoring);
+
   // Calculate raw scores
   const scores = events.map(event => calculateRawScore(event, bot));
   
@@ -16,15 +38,22 @@ export function scoreEvents(events: Event[], bot: BotConfig): Event[] {
     const rawScore = scores[i];
     const normalizedVelocity = normalizeVelocity(rawScore.velocity);
     
-    const finalScore = (
-      0.6 * normalizedVelocity +
-      0.25 * rawScore.authority +
-      0.15 * rawScore.impact
-    );
+    const finalScore = Math.max(0, Math.min(1, (
+      weights.velocity * normalizedVelocity +
+      weights.authority * rawScore.authority +
+      weights.impact * rawScore.impact +
+      (rawScore.adjustment || 0)
+    )));
 
     return {
       ...event,
-      score: Math.max(0, Math.min(1, finalScore))
+      score: finalScore,
+      score_components: {
+        ...rawScore,
+        normalized_velocity: normalizedVelocity,
+        final_score: finalScore,
+        weights
+      }
     };
   });
 
@@ -32,15 +61,19 @@ export function scoreEvents(events: Event[], bot: BotConfig): Event[] {
 }
 
 function calculateRawScore(event: Event, bot: BotConfig): ScoreComponents {
+  const reasons: string[] = [];
   const velocity = calculateVelocity(event);
-  const authority = calculateAuthority(event);
-  const impact = calculateImpact(event, bot);
+  const authority = calculateAuthority(event, bot.scoring, reasons);
+  const impact = calculateImpact(event, bot, reasons);
+  const adjustment = calculateDomainAdjustment(event, bot.scoring, reasons);
 
   return {
     velocity,
     authority,
     impact,
-    final_score: 0 // Will be calculated later with normalization
+    adjustment,
+    final_score: 0, // Will be calculated later with normalization
+    reasons
   };
 }
 
@@ -61,29 +94,26 @@ function calculateVelocity(event: Event): number {
   return cappedVelocity + (0.2 * commentBonus);
 }
 
-function calculateAuthority(event: Event): number {
+function calculateAuthority(event: Event, scoring: ScoringConfig | undefined, reasons: string[]): number {
   let authorityScore = 0;
 
   // Domain reputation
-  if (event.domain && isReputableDomain(event.domain)) {
-    authorityScore += 0.7;
+  if (event.domain) {
+    const allow = scoring?.domains?.allow;
+    const reputable = allow ? matchDomain(event.domain, allow) !== undefined : isReputableDomain(event.domain);
+    if (reputable) {
+      authorityScore += 0.7;
+      reasons.push(`reputable domain ${event.domain} +0.70`);
+    }
   }
 
   // Source authority
-  switch (event.source) {
-    case 'hn':
-      authorityScore += 0.3; // HN has good quality curation
-      break;
-    case 'reddit':
-      authorityScore += 0.2; // Reddit varies by subreddit
-      break;
-    case 'ph':
-      authorityScore += 0.25; // Product Hunt is curated
-      break;
-    case 'blog':
-      authorityScore += 0.4; // Blogs are typically authoritative
-      break;
-  }
+  const adapter = getSourceAdapter(event.source);
+  const sourceAuthority = scoring?.source_authority?.[adapter?.configKey ?? event.source]
+    ?? adapter?.defaultAuthority
+    ?? 0.2;
+  authorityScore += sourceAuthority;
+  reasons.push(`source ${event.source} +${sourceAuthority.toFixed(2)}`);
 
   // Author reputation (basic heuristic)
   if (event.author) {
@@ -96,7 +126,36 @@ function calculateAuthority(event: Event): number {
   return Math.min(1, authorityScore);
 }
 
-function calculateImpact(event: Event, bot: BotConfig): number {
+function calculateDomainAdjustment(event: Event, scoring: ScoringConfig | undefined, reasons: string[]): number {
+  if (!event.domain || !scoring?.domains) return 0;
+
+  let adjustment = 0;
+
+  const boosted = matchDomain(event.domain, Object.keys(scoring.domains.boost || {}));
+  if (boosted) {
+    adjustment += scoring.domains.boost![boosted];
+    reasons.push(`domain boost ${boosted} +${scoring.domains.boost![boosted].toFixed(2)}`);
+  }
+
+  const penalized = matchDomain(event.domain, Object.keys(scoring.domains.penalty || {}));
+  if (penalized) {
+    adjustment -= scoring.domains.penalty![penalized];
+    reasons.push(`domain penalty ${penalized} -${scoring.domains.penalty![penalized].toFixed(2)}`);
+  }
+
+  return adjustment;
+}
+
+// Matches the domain itself or any subdomain of it
+function matchDomain(domain: string, candidates: string[]): string | undefined {
+  const host = domain.toLowerCase();
+  return candidates.find(c => {
+    const candidate = c.toLowerCase();
+    return host === candidate || host.endsWith(`.${candidate}`);
+  });
+}
+
+function calculateImpact(event: Event, bot: BotConfig, reasons: string[]): number {
   const text = `${event.title} ${event.domain || ''}`.toLowerCase();
   let impactScore = 0;
 
@@ -110,6 +169,15 @@ function calculateImpact(event: Event, bot: BotConfig): number {
 
   if (keywordMatches > 0) {
     impactScore += Math.min(0.8, keywordMatches * 0.2);
+    reasons.push(`${keywordMatches} include keyword(s) +${Math.min(0.8, keywordMatches * 0.2).toFixed(2)}`);
+  }
+
+  // Configured keyword boosts
+  for (const [keyword, boost] of Object.entries(bot.scoring?.keywords || {})) {
+    if (text.includes(keyword.toLowerCase())) {
+      impactScore += boost;
+      reasons.push(`keyword "${keyword}" ${boost >= 0 ? '+' : ''}${boost.toFixed(2)}`);
+    }
   }
 
   // Title quality indicators
@@ -127,7 +195,7 @@ function calculateImpact(event: Event, bot: BotConfig): number {
     impactScore += 0.1;
   }
 
-  return Math.min(1, impactScore);
+  return Math.max(0, Math.min(1, impactScore));
 }
 
 function hasImpactfulWords(title: string): boolean {
@@ -154,3 +222,29 @@ export function getTopEvents(events: Event[], topN: number): Event[] {
     .sort((a, b) => (b.score || 0) - (a.score || 0))
     .slice(0, topN);
 }
+
+export function explainScores(events: Event[], bot: BotConfig): string {
+  const weights = resolveWeights(bot.scoring);
+  const lines: string[] = [
+    `[${bot.name}] score breakdown (weights: velocity ${weights.velocity.toFixed(2)}, authority ${weights.authority.toFixed(2)}, impact ${weights.impact.toFixed(2)})`
+  ];
+
+  events.forEach((event, i) => {
+    const c = event.score_components;
+    lines.push(`  ${String(i + 1).padStart(2)}. ${(event.score || 0).toFixed(3)}  ${event.title}`);
+    if (!c) return;
+
+    const nv = c.normalized_velocity ?? 0;
+    lines.push(`      velocity   ${nv.toFixed(2)} (raw ${c.velocity.toFixed(2)}) × ${weights.velocity.toFixed(2)} = ${(nv * weights.velocity).toFixed(3)}`);
+    lines.push(`      authority  ${c.authority.toFixed(2)} × ${weights.authority.toFixed(2)} = ${(c.authority * weights.authority).toFixed(3)}`);
+    lines.push(`      impact     ${c.impact.toFixed(2)} × ${weights.impact.toFixed(2)} = ${(c.impact * weights.impact).toFixed(3)}`);
+    if (c.adjustment) {
+      lines.push(`      adjustment ${c.adjustment >= 0 ? '+' : ''}${c.adjustment.toFixed(3)}`);
+    }
+    if (c.reasons && c.reasons.length > 0) {
+      lines.push(`      why: ${c.reasons.join('; ')}`);
+    }
+  });
+
+  return lines.join('\n');
+}
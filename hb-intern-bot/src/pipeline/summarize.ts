@@ -1,6 +1,9 @@
 import OpenAI from 'openai';
-import { Event } from '../types.js';
+import { Event, EventContent } from '../types.js';
 import { truncate } from '../utils.js';
+import { ContentFetcher } from './article.js';
+
+const MAX_PROMPT_ARTICLE_CHARS = 6000;
 
 let openaiClient: OpenAI | null = null;
 
@@ -10,15 +13,21 @@ export function initializeSummarizer(apiKey?: string): void {
   }
 }
 
-export async function summarizeEvents(events: Event[]): Promise<Event[]> {
+export async function summarizeEvents(events: Event[], fetcher?: ContentFetcher): Promise<Event[]> {
   const summarizedEvents = await Promise.all(
     events.map(async (event) => {
       try {
-        const summary = await generateSummary(event);
+        const content = fetcher ? await fetcher.fetch(event).catch(error => {
+          console.warn(`Failed to fetch content for event ${event.id}:`, error);
+          return undefined;
+        }) : undefined;
+
+        const summary = await generateSummary(event, content);
         return {
           ...event,
           summary: summary.summary,
-          why_matters: summary.why_matters
+          why_matters: summary.why_matters,
+          ...(summary.community_reaction ? { community_reaction: summary.community_reaction } : {})
         };
       } catch (error) {
         console.warn(`Failed to summarize event ${event.id}:`, error);
@@ -34,14 +43,27 @@ export async function summarizeEvents(events: Event[]): Promise<Event[]> {
   return summarizedEvents;
 }
 
-async function generateSummary(event: Event): Promise<{ summary: string; why_matters: string }> {
+async function generateSummary(
+  event: Event,
+  content?: EventContent
+): Promise<{ summary: string; why_matters: string; community_reaction?: string }> {
+  const comments = content?.comments || [];
+
   if (!openaiClient) {
     return {
-      summary: generateFallbackSummary(event),
-      why_matters: generateFallbackWhyMatters(event)
+      summary: generateFallbackSummary(event, content?.article),
+      why_matters: generateFallbackWhyMatters(event),
+      community_reaction: generateFallbackReaction(comments)
     };
   }
 
+  const articleSection = content?.article
+    ? `\nArticle content:\n"""\n${truncate(content.article, MAX_PROMPT_ARTICLE_CHARS)}\n"""\n`
+    : '';
+  const commentsSection = comments.length > 0
+    ? `\nTop community comments:\n${comments.map(c => `- ${c}`).join('\n')}\n`
+    : '';
+
   const prompt = `Analyze this ${event.source} post and provide a concise summary and why it matters:
 
 Title: ${event.title}
@@ -50,15 +72,17 @@ Domain: ${event.domain || 'N/A'}
 Points: ${event.points}
 Comments: ${event.comments}
 URL: ${event.url}
-
+${articleSection}${commentsSection}
 Instructions:
-1. Summary: 3-5 bullet points, max 50 words total
-2. Why it matters: 1-2 sentences explaining significance for developers/tech professionals
+1. Summary: 3-5 bullet points, max 50 words total${content?.article ? ', based on the article content rather than the title' : ''}
+2. Why it matters: 1-2 sentences explaining significance for developers/tech professionals${comments.length > 0 ? `
+3. Community reaction: 1-2 sentences on how commenters reacted (agreement, skepticism, notable points)` : ''}
 
 Format as JSON:
 {
   "summary": "• Point 1\n• Point 2\n• Point 3",
-  "why_matters": "Why this is significant..."
+  "why_matters": "Why this is significant..."${comments.length > 0 ? `,
+  "community_reaction": "How the community reacted..."` : ''}
 }`;
 
   try {
@@ -74,26 +98,31 @@ Format as JSON:
           content: prompt
         }
       ],
-      max_tokens: 200,
+      max_tokens: comments.length > 0 ? 300 : 200,
       temperature: 0.3
     });
 
-    const content = response.choices[0]?.message?.content;
-    if (content) {
+    const responseText = response.choices[0]?.message?.content;
+    if (responseText) {
       try {
-        const parsed = JSON.parse(content);
+        const parsed = JSON.parse(responseText);
         return {
-          summary: truncate(parsed.summary || generateFallbackSummary(event), 200),
-          why_matters: truncate(parsed.why_matters || generateFallbackWhyMatters(event), 150)
+          summary: truncate(parsed.summary || generateFallbackSummary(event, content?.article), 200),
+          why_matters: truncate(parsed.why_matters || generateFallbackWhyMatters(event), 150),
+          community_reaction: parsed.community_reaction
+            ? truncate(parsed.community_reaction, 250)
+            : generateFallbackReaction(comments)
         };
       } catch {
         // If JSON parsing fails, try to extract summary and why_matters from text
-        const summaryMatch = content.match(/"summary":\s*"([^"]+)"/);
-        const whyMattersMatch = content.match(/"why_matters":\s*"([^"]+)"/);
+        const summaryMatch = responseText.match(/"summary":\s*"([^"]+)"/);
+        const whyMattersMatch = responseText.match(/"why_matters":\s*"([^"]+)"/);
+        const reactionMatch = responseText.match(/"community_reaction":\s*"([^"]+)"/);
         
         return {
-          summary: summaryMatch?.[1] || generateFallbackSummary(event),
-          why_matters: whyMattersMatch?.[1] || generateFallbackWhyMatters(event)
+          summary: summaryMatch?.[1] || generateFallbackSummary(event, content?.article),
+          why_matters: whyMattersMatch?.[1] || generateFallbackWhyMatters(event),
+          community_reaction: reactionMatch?.[1] || generateFallbackReaction(comments)
         };
       }
     }
@@ -102,16 +131,28 @@ Format as JSON:
   }
 
   return {
-    summary: generateFallbackSummary(event),
-    why_matters: generateFallbackWhyMatters(event)
+    summary: generateFallbackSummary(event, content?.article),
+    why_matters: generateFallbackWhyMatters(event),
+    community_reaction: generateFallbackReaction(comments)
   };
 }
 
-function generateFallbackSummary(event: Event): string {
+function generateFallbackReaction(comments: string[]): string | undefined {
+  if (comments.length === 0) return undefined;
+  return `Top comment — ${truncate(comments[0], 200)}`;
+}
+
+function generateFallbackSummary(event: Event, article?: string): string {
   const bullets = [];
   
   // Title summary
   bullets.push(`• ${truncate(event.title, 80)}`);
+
+  // Lead sentence of the article, when we have it
+  const lead = article?.split('\n').find(line => line.length > 60 && !line.startsWith('#'));
+  if (lead) {
+    bullets.push(`• ${truncate(lead, 120)}`);
+  }
   
   // Source info
   if (event.domain && event.domain !== 'reddit.com' && event.domain !== 'news.ycombinator.com') {
@@ -164,12 +205,16 @@ function generateFallbackWhyMatters(event: Event): string {
   return 'Trending topic relevant to developers and tech professionals.';
 }
 
-export async function summarizeBatch(events: Event[], batchSize: number = 5): Promise<Event[]> {
+export async function summarizeBatch(
+  events: Event[],
+  batchSize: number = 5,
+  fetcher?: ContentFetcher
+): Promise<Event[]> {
   const results: Event[] = [];
   
   for (let i = 0; i < events.length; i += batchSize) {
     const batch = events.slice(i, i + batchSize);
-    const summarized = await summarizeEvents(batch);
+    const summarized = await summarizeEvents(batch, fetcher);
     results.push(...summarized);
     
     // Small delay between batches to avoid rate limiting
@@ -0,0 +1,373 @@
+import { BotConfig, Config, ScheduleConfig } from './types.js';
+import { WatchManager } from './watch.js';
+import { nowISO } from './utils.js';
+
+const MAX_TICK_MS = 60 * 1000;
+const MAX_CRON_STEPS = 200000;
+const CLEANUP_EVERY_RUNS = 10;
+
+interface CronSpec {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+interface ZonedParts {
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;
+}
+
+const CRON_MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *'
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+export function parseCron(expression: string): CronSpec {
+  const expanded = CRON_MACROS[expression.trim().toLowerCase()] || expression;
+  const fields = expanded.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields (minute hour day month weekday)`);
+  }
+
+  const [minute, hour, day, month, weekday] = fields;
+  const weekdays = parseCronField(weekday, 0, 7, WEEKDAY_NAMES);
+  if (weekdays.has(7)) {
+    weekdays.delete(7);
+    weekdays.add(0); // Both 0 and 7 mean Sunday
+  }
+
+  return {
+    minutes: parseCronField(minute, 0, 59),
+    hours: parseCronField(hour, 0, 23),
+    days: parseCronField(day, 1, 31),
+    months: parseCronField(month, 1, 12, MONTH_NAMES, 1),
+    weekdays,
+    anyDay: day === '*',
+    anyWeekday: weekday === '*'
+  };
+}
+
+function parseCronField(field: string, min: number, max: number, names: string[] = [], nameOffset: number = 0): Set<number> {
+  const values = new Set<number>();
+  const toNumber = (token: string): number => {
+    const named = names.indexOf(token.toLowerCase());
+    const value = named >= 0 ? named + nameOffset : parseInt(token, 10);
+    if (isNaN(value) || value < min || value > max || (named < 0 && !/^\d+$/.test(token))) {
+      throw new Error(`Invalid cron value "${token}" (expected ${min}-${max})`);
+    }
+    return value;
+  };
+
+  for (const part of field.split(',')) {
+    const [range, stepStr] = part.split('/');
+    const step = stepStr === undefined ? 1 : parseInt(stepStr, 10);
+    if (isNaN(step) || step < 1) {
+      throw new Error(`Invalid cron step "${part}"`);
+    }
+
+    let start = min;
+    let end = max;
+    if (range !== '*') {
+      const [from, to] = range.split('-');
+      start = toNumber(from);
+      end = to === undefined ? (stepStr === undefined ? start : max) : toNumber(to);
+    }
+    if (start > end) {
+      throw new Error(`Invalid cron range "${part}"`);
+    }
+
+    for (let v = start; v <= end; v += step) {
+      values.add(v);
+    }
+  }
+
+  return values;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function zonedParts(date: Date, timeZone?: string): ZonedParts {
+  const key = timeZone || 'local';
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short'
+    });
+    formatters.set(key, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    hour: parseInt(parts.hour, 10) % 24,
+    minute: parseInt(parts.minute, 10),
+    weekday: WEEKDAY_NAMES.indexOf(parts.weekday.toLowerCase().slice(0, 3))
+  };
+}
+
+function dayMatches(spec: CronSpec, parts: ZonedParts): boolean {
+  const dayOk = spec.days.has(parts.day);
+  const weekdayOk = spec.weekdays.has(parts.weekday);
+
+  // Classic cron: when both day fields are restricted, either one may match
+  if (!spec.anyDay && !spec.anyWeekday) return dayOk || weekdayOk;
+  return dayOk && weekdayOk;
+}
+
+export function nextCronTime(spec: CronSpec, after: Date, timeZone?: string): Date {
+  let t = Math.floor(after.getTime() / 60000) * 60000 + 60000;
+
+  for (let i = 0; i < MAX_CRON_STEPS; i++) {
+    const parts = zonedParts(new Date(t), timeZone);
+
+    if (!spec.months.has(parts.month) || !dayMatches(spec, parts)) {
+      t += (24 * 60 - (parts.hour * 60 + parts.minute)) * 60000;
+      continue;
+    }
+    if (!spec.hours.has(parts.hour)) {
+      t += (60 - parts.minute) * 60000;
+      continue;
+    }
+    if (!spec.minutes.has(parts.minute)) {
+      t += 60000;
+      continue;
+    }
+    return new Date(t);
+  }
+
+  throw new Error('Cron expression never matches');
+}
+
+export function parseInterval(every: string): number {
+  const match = every.trim().match(/^(\d+)\s*([mhd])$/);
+  if (!match) {
+    throw new Error(`Interval "${every}" must look like 30m, 3h or 1d`);
+  }
+
+  const value = parseInt(match[1], 10);
+  if (value < 1) {
+    throw new Error(`Interval "${every}" must be positive`);
+  }
+  return value * (match[2] === 'm' ? 1 : match[2] === 'h' ? 60 : 1440);
+}
+
+function parseQuietHours(range: string): { start: number; end: number } {
+  const match = range.trim().match(/^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/);
+  if (!match) {
+    throw new Error(`Quiet hours "${range}" must look like 22:00-07:00`);
+  }
+
+  const [, sh, sm, eh, em] = match.map(Number);
+  if (sh > 23 || eh > 23 || sm > 59 || em > 59) {
+    throw new Error(`Quiet hours "${range}" has an invalid time`);
+  }
+  return { start: sh * 60 + sm, end: eh * 60 + em };
+}
+
+function isQuiet(date: Date, quiet: { start: number; end: number }, timeZone?: string): boolean {
+  const parts = zonedParts(date, timeZone);
+  const minuteOfDay = parts.hour * 60 + parts.minute;
+
+  // Windows like 22:00-07:00 wrap past midnight
+  return quiet.start <= quiet.end
+    ? minuteOfDay >= quiet.start && minuteOfDay < quiet.end
+    : minuteOfDay >= quiet.start || minuteOfDay < quiet.end;
+}
+
+export function validateSchedule(schedule: ScheduleConfig, botName: string): void {
+  const where = `Bot "${botName}" schedule`;
+
+  if (!schedule || typeof schedule !== 'object') {
+    throw new Error(`${where} must be an object with "cron" or "every"`);
+  }
+  if (schedule.cron && schedule.every) {
+    throw new Error(`${where} must set only one of "cron" or "every"`);
+  }
+  if (!schedule.cron && !schedule.every) {
+    throw new Error(`${where} needs a "cron" expression or an "every" interval`);
+  }
+
+  try {
+    if (schedule.cron) parseCron(schedule.cron);
+    if (schedule.every) parseInterval(schedule.every);
+    if (schedule.quiet_hours) parseQuietHours(schedule.quiet_hours);
+    if (schedule.timezone) new Intl.DateTimeFormat('en-US', { timeZone: schedule.timezone });
+  } catch (error) {
+    throw new Error(`${where}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// A stable signature lets a restart tell whether the stored next-run still applies
+export function describeSchedule(bot: BotConfig, defaultMinutes: number): string {
+  const s = bot.schedule;
+  if (!s) return `every ${defaultMinutes}m`;
+
+  const base = s.cron ? `cron ${s.cron}` : `every ${s.every}`;
+  return [base, s.quiet_hours && `quiet ${s.quiet_hours}`, s.timezone && `tz ${s.timezone}`]
+    .filter(Boolean)
+    .join(', ');
+}
+
+export function computeNextRun(bot: BotConfig, after: Date, defaultMinutes: number): Date {
+  const schedule = bot.schedule;
+  const timeZone = schedule?.timezone;
+  const quiet = schedule?.quiet_hours ? parseQuietHours(schedule.quiet_hours) : undefined;
+
+  if (schedule?.cron) {
+    const spec = parseCron(schedule.cron);
+    let next = nextCronTime(spec, after, timeZone);
+    // Cron runs that land in quiet hours are skipped, not deferred
+    for (let i = 0; quiet && isQuiet(next, quiet, timeZone) && i < 10000; i++) {
+      next = nextCronTime(spec, next, timeZone);
+    }
+    return next;
+  }
+
+  const minutes = schedule?.every ? parseInterval(schedule.every) : defaultMinutes;
+  return deferPastQuietHours(bot, new Date(after.getTime() + minutes * 60000));
+}
+
+// Interval runs (and overdue runs) that land in quiet hours wait for the window to end
+function deferPastQuietHours(bot: BotConfig, date: Date): Date {
+  const quiet = bot.schedule?.quiet_hours ? parseQuietHours(bot.schedule.quiet_hours) : undefined;
+  let next = date;
+  for (let i = 0; quiet && isQuiet(next, quiet, bot.schedule?.timezone) && i < 24 * 60; i++) {
+    next = new Date(next.getTime() + 60000);
+  }
+  return next;
+}
+
+// When a bot should run after a (re)start. Cron bots wait for their next slot; interval
+// bots that have never run, or were due while we were down, run now unless it is quiet.
+export function computeStartRun(
+  bot: BotConfig,
+  now: Date,
+  defaultMinutes: number,
+  stored?: { schedule: string; nextRun: string }
+): Date {
+  if (stored && stored.schedule === describeSchedule(bot, defaultMinutes)) {
+    const storedNext = new Date(stored.nextRun);
+    return storedNext > now ? storedNext : deferPastQuietHours(bot, now);
+  }
+  return bot.schedule?.cron ? computeNextRun(bot, now, defaultMinutes) : deferPastQuietHours(bot, now);
+}
+
+export class Scheduler {
+  private stopping = false;
+  private wake?: () => void;
+
+  constructor(
+    private config: Config,
+    private runBots: (bots: BotConfig[]) => Promise<void>,
+    private watchManager: WatchManager,
+    private defaultMinutes: number
+  ) {}
+
+  get isStopping(): boolean {
+    return this.stopping;
+  }
+
+  stop(): void {
+    this.stopping = true;
+    this.wake?.();
+  }
+
+  async start(): Promise<void> {
+    const now = new Date();
+
+    for (const bot of this.config.bots) {
+      const signature = describeSchedule(bot, this.defaultMinutes);
+      const stored = this.watchManager.getSchedule(bot.name);
+
+      // Keep the persisted next run across restarts unless the schedule itself changed
+      const nextRun = computeStartRun(bot, now, this.defaultMinutes, stored).toISOString();
+      this.watchManager.setSchedule(bot.name, { schedule: signature, nextRun });
+      console.log(`⏰ ${bot.name}: ${signature}, next run ${formatRunTime(nextRun)}`);
+    }
+
+    let runCount = 0;
+
+    while (!this.stopping) {
+      const due = this.config.bots.filter(bot => {
+        const entry = this.watchManager.getSchedule(bot.name);
+        return !entry || new Date(entry.nextRun).getTime() <= Date.now();
+      });
+
+      if (due.length > 0) {
+        runCount++;
+        console.log(`\n--- Scheduled run #${runCount} at ${nowISO()}: ${due.map(b => b.name).join(', ')} ---`);
+
+        try {
+          await this.runBots(due);
+          this.watchManager.updateLastRun();
+        } catch (error) {
+          console.error(`Error in scheduled run #${runCount}:`, error);
+        }
+
+        const finishedAt = new Date();
+        for (const bot of due) {
+          const nextRun = computeNextRun(bot, finishedAt, this.defaultMinutes).toISOString();
+          this.watchManager.setSchedule(bot.name, { schedule: describeSchedule(bot, this.defaultMinutes), nextRun });
+          console.log(`[${bot.name}] next run ${formatRunTime(nextRun)}`);
+        }
+
+        // Cleanup periodically
+        if (runCount % CLEANUP_EVERY_RUNS === 0) {
+          this.watchManager.cleanup();
+        }
+        continue;
+      }
+
+      await this.sleepUntilNextDue();
+    }
+
+    console.log('Scheduler stopped.');
+  }
+
+  private sleepUntilNextDue(): Promise<void> {
+    const nextTimes = this.config.bots
+      .map(bot => this.watchManager.getSchedule(bot.name))
+      .filter((entry): entry is { schedule: string; nextRun: string } => !!entry)
+      .map(entry => new Date(entry.nextRun).getTime());
+    const waitMs = Math.max(0, Math.min(MAX_TICK_MS, Math.min(...nextTimes) - Date.now()));
+
+    // Sleep in short ticks so clock changes and stop() are picked up quickly
+    return new Promise(resolve => {
+      const timer = setTimeout(done, waitMs);
+      function done() {
+        clearTimeout(timer);
+        resolve();
+      }
+      this.wake = done;
+    });
+  }
+}
+
+function formatRunTime(iso: string): string {
+  const minutes = Math.round((new Date(iso).getTime() - Date.now()) / 60000);
+  return minutes <= 0 ? 'now' : `${iso} (in ${minutes}m)`;
+}
@@ -0,0 +1,60 @@
+import { z } from 'zod';
+import { ScrapedResult, SourceAdapter } from '../types.js';
+import { fetchFeed } from './rss.js';
+
+export async function scrapeArxiv(categories: string[], maxResults: number = 50): Promise<ScrapedResult[]> {
+  const results: ScrapedResult[] = [];
+  const query = categories.map(cat => `cat:${cat}`).join(' OR ');
+  const url = `https://export.arxiv.org/api/query?search_query=${encodeURIComponent(query)}` +
+    `&sortBy=submittedDate&sortOrder=descending&max_results=${maxResults}`;
+
+  try {
+    const entries = await fetchFeed(url);
+    console.log(`✅ Read ${entries.length} arXiv papers from: ${categories.join(', ')}`);
+
+    for (const entry of entries) {
+      results.push({
+        title: entry.title,
+        url: entry.link,
+        permalink: entry.link,
+        points: 0, // arXiv has no voting
+        comments: 0,
+        author: entry.author,
+        created_at: entry.published ? new Date(entry.published).toISOString() : new Date().toISOString(),
+        domain: 'arxiv.org'
+      });
+    }
+  } catch (error) {
+    console.error('Error scraping arXiv:', error);
+  }
+
+  return results;
+}
+
+// Accept both `arxiv: ["cs.AI"]` and `arxiv: { categories: [...], max_results: 50 }`
+const arxivConfigSchema = z.union([
+  z.array(z.string()),
+  z.object({
+    categories: z.array(z.string()),
+    max_results: z.number().int().positive().max(200).optional()
+  })
+]);
+
+type ArxivSourceConfig = z.infer<typeof arxivConfigSchema>;
+
+function categoriesFrom(config: ArxivSourceConfig): string[] {
+  return Array.isArray(config) ? config : config.categories;
+}
+
+export const arxivSource: SourceAdapter<ArxivSourceConfig> = {
+  name: 'arxiv',
+  configKey: 'arxiv',
+  label: 'arXiv',
+  configSchema: arxivConfigSchema,
+  defaultAuthority: 0.4, // Papers are primary sources
+  isEnabled: config => categoriesFrom(config).length > 0,
+  scrape: (_apiKey, config) => scrapeArxiv(
+    categoriesFrom(config),
+    Array.isArray(config) ? undefined : config.max_results
+  )
+};
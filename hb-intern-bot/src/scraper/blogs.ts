@@ -1,5 +1,6 @@
+import { z } from 'zod';
 import HyperbrowserClient from '../hyperbrowser-client.js';
-import { ScrapedResult } from '../types.js';
+import { ScrapedResult, SourceAdapter } from '../types.js';
 import { extractDomain, addJitter, sleep } from '../utils.js';
 
 export async function scrapeBlogs(apiKey: string, blogUrls: string[]): Promise<ScrapedResult[]> {
@@ -127,3 +128,13 @@ function parseDate(dateStr?: string): string | null {
     return null;
   }
 }
+
+export const blogsSource: SourceAdapter<string[]> = {
+  name: 'blog',
+  configKey: 'blogs',
+  label: 'Blog',
+  configSchema: z.array(z.string()),
+  defaultAuthority: 0.4, // Blogs are typically authoritative
+  isEnabled: config => config.length > 0,
+  scrape: (apiKey, config) => scrapeBlogs(apiKey, config)
+};
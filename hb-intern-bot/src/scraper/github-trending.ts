@@ -0,0 +1,73 @@
+import { z } from 'zod';
+import HyperbrowserClient from '../hyperbrowser-client.js';
+import { ScrapedResult, SourceAdapter } from '../types.js';
+import { addJitter, sleep } from '../utils.js';
+
+export async function scrapeGitHubTrending(
+  apiKey: string,
+  languages: string[] = [],
+  since: 'daily' | 'weekly' | 'monthly' = 'daily'
+): Promise<ScrapedResult[]> {
+  const hb = new HyperbrowserClient({ apiKey });
+  const results: ScrapedResult[] = [];
+  const pages = (languages.length > 0 ? languages : ['']).map(lang =>
+    `https://github.com/trending${lang ? `/${encodeURIComponent(lang.toLowerCase())}` : ''}?since=${since}`
+  );
+
+  for (const pageUrl of pages) {
+    try {
+      const response = await hb.extract({ url: pageUrl });
+
+      if (response.data?.data?.repositories) {
+        for (const repo of response.data.data.repositories) {
+          if (repo.name) {
+            const fullName = repo.name.replace(/\s+/g, '');
+            const permalink = `https://github.com/${fullName}`;
+
+            const exists = results.some(r => r.permalink === permalink);
+            if (!exists) {
+              results.push({
+                title: `${fullName}${repo.description ? ` - ${repo.description}` : ''}`,
+                url: permalink,
+                permalink,
+                points: repo.stars_today || 0, // Stars gained in the period drive velocity
+                comments: 0,
+                author: fullName.split('/')[0],
+                created_at: new Date().toISOString(), // Trending is always "now"
+                domain: 'github.com'
+              });
+            }
+          }
+        }
+      }
+
+      await sleep(addJitter(2000));
+    } catch (error) {
+      console.error(`Error scraping GitHub Trending ${pageUrl}:`, error);
+    }
+  }
+
+  return results;
+}
+
+const githubTrendingConfigSchema = z.union([
+  z.boolean(),
+  z.object({
+    languages: z.array(z.string()).optional(),
+    since: z.enum(['daily', 'weekly', 'monthly']).optional()
+  })
+]);
+
+type GitHubTrendingSourceConfig = z.infer<typeof githubTrendingConfigSchema>;
+
+export const githubTrendingSource: SourceAdapter<GitHubTrendingSourceConfig> = {
+  name: 'github',
+  configKey: 'github_trending',
+  label: 'GitHub',
+  configSchema: githubTrendingConfigSchema,
+  defaultAuthority: 0.3,
+  isEnabled: config => config !== false,
+  scrape: (apiKey, config) => typeof config === 'object'
+    ? scrapeGitHubTrending(apiKey, config.languages, config.since)
+    : scrapeGitHubTrending(apiKey)
+};
@@ -1,5 +1,6 @@
+import { z } from 'zod';
 import HyperbrowserClient from '../hyperbrowser-client.js';
-import { ScrapedResult } from '../types.js';
+import { ScrapedResult, SourceAdapter } from '../types.js';
 import { extractDomain, addJitter, sleep } from '../utils.js';
 
 export async function scrapeHN(apiKey: string): Promise<ScrapedResult[]> {
@@ -98,3 +99,12 @@ function parseHNTime(timeAgo?: string): string {
   
   return now.toISOString();
 }
+
+export const hnSource: SourceAdapter<boolean> = {
+  name: 'hn',
+  configKey: 'hn',
+  label: 'Hacker News',
+  configSchema: z.boolean(),
+  defaultAuthority: 0.3, // HN has good quality curation
+  scrape: apiKey => scrapeHN(apiKey)
+};
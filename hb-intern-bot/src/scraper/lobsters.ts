@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import { ScrapedResult, SourceAdapter } from '../types.js';
+import { extractDomain, addJitter, sleep } from '../utils.js';
+
+// The fields we read from lobste.rs story JSON
+interface LobstersStory {
+  title?: string;
+  url?: string;
+  score?: number;
+  comment_count?: number;
+  comments_url: string;
+  short_id_url: string;
+  created_at?: string;
+  // Older responses inline the user object
+  submitter_user?: string | { username?: string };
+}
+
+export async function scrapeLobsters(tags: string[] = []): Promise<ScrapedResult[]> {
+  const results: ScrapedResult[] = [];
+  const pages = tags.length > 0
+    ? tags.map(tag => `https://lobste.rs/t/${encodeURIComponent(tag)}.json`)
+    : ['https://lobste.rs/hottest.json', 'https://lobste.rs/newest.json'];
+
+  for (const pageUrl of pages) {
+    try {
+      const response = await fetch(pageUrl, {
+        headers: { 'User-Agent': 'hb-intern (+https://hyperbrowser.ai)' }
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const stories = await response.json() as LobstersStory[];
+      console.log(`✅ Read ${stories.length} stories from: ${pageUrl}`);
+
+      for (const story of stories) {
+        if (!story?.title) continue;
+
+        const permalink = story.comments_url || story.short_id_url;
+        const exists = results.some(r => r.permalink === permalink);
+        if (!exists) {
+          results.push({
+            title: story.title,
+            url: story.url || permalink,
+            permalink,
+            points: story.score || 0,
+            comments: story.comment_count || 0,
+            author: typeof story.submitter_user === 'string' ? story.submitter_user : story.submitter_user?.username,
+            created_at: story.created_at ? new Date(story.created_at).toISOString() : new Date().toISOString(),
+            domain: story.url ? extractDomain(story.url) : 'lobste.rs'
+          });
+        }
+      }
+
+      await sleep(addJitter(1000));
+    } catch (error) {
+      console.error(`Error scraping Lobsters ${pageUrl}:`, error);
+    }
+  }
+
+  return results;
+}
+
+// `lobsters: true` reads hottest + newest, `lobsters: { tags: [...] }` reads tag pages
+const lobstersConfigSchema = z.union([
+  z.boolean(),
+  z.object({ tags: z.array(z.string()) })
+]);
+
+type LobstersSourceConfig = z.infer<typeof lobstersConfigSchema>;
+
+export const lobstersSource: SourceAdapter<LobstersSourceConfig> = {
+  name: 'lobsters',
+  configKey: 'lobsters',
+  label: 'Lobsters',
+  configSchema: lobstersConfigSchema,
+  defaultAuthority: 0.3, // Invite-only community, similar curation to HN
+  isEnabled: config => config !== false,
+  scrape: (_apiKey, config) => scrapeLobsters(typeof config === 'object' ? config.tags : [])
+};
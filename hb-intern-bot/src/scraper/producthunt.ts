@@ -1,5 +1,6 @@
+import { z } from 'zod';
 import HyperbrowserClient from '../hyperbrowser-client.js';
-import { ScrapedResult } from '../types.js';
+import { ScrapedResult, SourceAdapter } from '../types.js';
 import { extractDomain } from '../utils.js';
 
 export async function scrapeProductHunt(apiKey: string): Promise<ScrapedResult[]> {
@@ -94,3 +95,12 @@ export async function scrapeProductHunt(apiKey: string): Promise<ScrapedResult[]
 
   return results;
 }
+
+export const productHuntSource: SourceAdapter<boolean> = {
+  name: 'ph',
+  configKey: 'producthunt',
+  label: 'Product Hunt',
+  configSchema: z.boolean(),
+  defaultAuthority: 0.25, // Product Hunt is curated
+  scrape: apiKey => scrapeProductHunt(apiKey)
+};
@@ -1,5 +1,6 @@
+import { z } from 'zod';
 import HyperbrowserClient from '../hyperbrowser-client.js';
-import { ScrapedResult } from '../types.js';
+import { ScrapedResult, SourceAdapter } from '../types.js';
 import { extractDomain, addJitter, sleep } from '../utils.js';
 
 export async function scrapeReddit(apiKey: string, subreddits: string[]): Promise<ScrapedResult[]> {
@@ -89,3 +90,25 @@ async function scrapeSubreddit(
     console.error(`Error scraping r/${subreddit}/${sort}:`, error);
   }
 }
+
+// Accept both `reddit: { subs: [...] }` and the shorthand `reddit: [...]`
+const redditConfigSchema = z.union([
+  z.array(z.string()),
+  z.object({ subs: z.array(z.string()) })
+]);
+
+type RedditSourceConfig = z.infer<typeof redditConfigSchema>;
+
+function subredditsFrom(config: RedditSourceConfig): string[] {
+  return Array.isArray(config) ? config : config.subs;
+}
+
+export const redditSource: SourceAdapter<RedditSourceConfig> = {
+  name: 'reddit',
+  configKey: 'reddit',
+  label: 'Reddit',
+  configSchema: redditConfigSchema,
+  defaultAuthority: 0.2, // Reddit varies by subreddit
+  isEnabled: config => subredditsFrom(config).length > 0,
+  scrape: (apiKey, config) => scrapeReddit(apiKey, subredditsFrom(config))
+};
@@ -0,0 +1,82 @@
+import { SourceAdapter, SourceConfig } from '../types.js';
+import { hnSource } from './hn.js';
+import { redditSource } from './reddit.js';
+import { productHuntSource } from './producthunt.js';
+import { blogsSource } from './blogs.js';
+import { lobstersSource } from './lobsters.js';
+import { githubTrendingSource } from './github-trending.js';
+import { arxivSource } from './arxiv.js';
+import { rssSource } from './rss.js';
+
+const adapters = new Map<string, SourceAdapter>();
+
+export function registerSource(adapter: SourceAdapter): void {
+  for (const existing of adapters.values()) {
+    if (existing.name === adapter.name || existing.configKey === adapter.configKey) {
+      throw new Error(`Source "${adapter.name}" conflicts with registered source "${existing.name}"`);
+    }
+  }
+  adapters.set(adapter.name, adapter);
+}
+
+export function getSourceAdapter(name: string): SourceAdapter | undefined {
+  return adapters.get(name);
+}
+
+export function getSourceAdapterByConfigKey(configKey: string): SourceAdapter | undefined {
+  for (const adapter of adapters.values()) {
+    if (adapter.configKey === configKey) return adapter;
+  }
+  return undefined;
+}
+
+export function listSourceAdapters(): SourceAdapter[] {
+  return Array.from(adapters.values());
+}
+
+export function sourceLabel(name: string): string {
+  return adapters.get(name)?.label || name;
+}
+
+// Parse a single source's YAML value, throwing a readable error when it doesn't match the schema
+export function parseSourceConfig(adapter: SourceAdapter, value: unknown, botName: string): unknown {
+  const result = adapter.configSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const at = issue.path.length > 0 ? `.${issue.path.join('.')}` : '';
+    throw new Error(`Bot "${botName}" sources.${adapter.configKey}${at}: ${issue.message}`);
+  }
+  return result.data;
+}
+
+export function getEnabledSources(
+  sources: SourceConfig,
+  botName: string
+): Array<{ adapter: SourceAdapter; config: unknown }> {
+  const enabled: Array<{ adapter: SourceAdapter; config: unknown }> = [];
+
+  for (const [key, value] of Object.entries(sources)) {
+    if (value === undefined || value === null || value === false) continue;
+
+    const adapter = getSourceAdapterByConfigKey(key);
+    if (!adapter) continue;
+
+    const config = parseSourceConfig(adapter, value, botName);
+    const isEnabled = adapter.isEnabled ? adapter.isEnabled(config) : true;
+    if (isEnabled) {
+      enabled.push({ adapter, config });
+    }
+  }
+
+  return enabled;
+}
+
+// Built-in sources
+registerSource(hnSource);
+registerSource(redditSource);
+registerSource(productHuntSource);
+registerSource(blogsSource);
+registerSource(lobstersSource);
+registerSource(githubTrendingSource);
+registerSource(arxivSource);
+registerSource(rssSource);
@@ -0,0 +1,123 @@
+import { z } from 'zod';
+import { ScrapedResult, SourceAdapter } from '../types.js';
+import { extractDomain, addJitter, isHttpUrl, sleep } from '../utils.js';
+
+export interface FeedEntry {
+  title: string;
+  link: string;
+  published?: string;
+  author?: string;
+  summary?: string;
+}
+
+export async function scrapeFeeds(feedUrls: string[]): Promise<ScrapedResult[]> {
+  const results: ScrapedResult[] = [];
+
+  for (const feedUrl of feedUrls) {
+    try {
+      const entries = await fetchFeed(feedUrl);
+      console.log(`✅ Read ${entries.length} entries from feed: ${feedUrl}`);
+
+      for (const entry of entries) {
+        const exists = results.some(r => r.permalink === entry.link);
+        if (!exists) {
+          results.push({
+            title: entry.title,
+            url: entry.link,
+            permalink: entry.link,
+            points: 0,
+            comments: 0,
+            author: entry.author,
+            created_at: toISO(entry.published) || new Date().toISOString(),
+            domain: extractDomain(entry.link) || extractDomain(feedUrl)
+          });
+        }
+      }
+
+      await sleep(addJitter(500));
+    } catch (error) {
+      console.error(`Error reading feed ${feedUrl}:`, error);
+    }
+  }
+
+  return results;
+}
+
+export async function fetchFeed(feedUrl: string): Promise<FeedEntry[]> {
+  const response = await fetch(feedUrl, {
+    headers: { 'User-Agent': 'hb-intern (+https://hyperbrowser.ai)' }
+  });
+
+  if (!response.ok) {
+    throw new Error(`Feed request failed with HTTP ${response.status}`);
+  }
+
+  return parseFeed(await response.text());
+}
+
+// Minimal RSS 2.0 / Atom parser: enough for titles, links, dates and authors
+export function parseFeed(xml: string): FeedEntry[] {
+  const entries: FeedEntry[] = [];
+  const blocks = xml.match(/<(item|entry)\b[\s\S]*?<\/\1>/gi) || [];
+
+  for (const block of blocks) {
+    const title = tagText(block, 'title');
+    const link = atomLink(block) || tagText(block, 'link') || tagText(block, 'guid');
+    // A guid is often not a URL at all, and a hostile feed can link to javascript:
+    if (!title || !link || !isHttpUrl(link)) continue;
+
+    entries.push({
+      title: title.replace(/\s+/g, ' '),
+      link,
+      published: tagText(block, 'pubDate') || tagText(block, 'published') || tagText(block, 'updated') || tagText(block, 'dc:date'),
+      author: tagText(block, 'dc:creator') || tagText(block, 'author'),
+      summary: tagText(block, 'description') || tagText(block, 'summary')
+    });
+  }
+
+  return entries;
+}
+
+function tagText(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`, 'i'));
+  if (!match) return undefined;
+
+  const text = decodeXml(match[1].replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1'))
+    .replace(/<[^>]+>/g, ' ')
+    .trim();
+
+  return text || undefined;
+}
+
+function atomLink(block: string): string | undefined {
+  const links = block.match(/<link\b[^>]*\bhref="[^"]*"[^>]*>/gi) || [];
+  const alternate = links.find(l => /rel="alternate"/i.test(l)) || links.find(l => !/rel=/i.test(l));
+  const href = alternate?.match(/href="([^"]*)"/i)?.[1];
+  return href ? decodeXml(href) : undefined;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&amp;/g, '&');
+}
+
+function toISO(dateStr?: string): string | null {
+  if (!dateStr) return null;
+  const date = new Date(dateStr);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+export const rssSource: SourceAdapter<string[]> = {
+  name: 'rss',
+  configKey: 'rss',
+  label: 'RSS',
+  configSchema: z.array(z.string().url()),
+  defaultAuthority: 0.3,
+  isEnabled: config => config.length > 0,
+  scrape: (_apiKey, config) => scrapeFeeds(config)
+};
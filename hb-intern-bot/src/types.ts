@@ -1,6 +1,8 @@
+import type { ZodType } from 'zod';
+
 export interface Event {
   id: string;
-  source: 'hn' | 'reddit' | 'ph' | 'blog';
+  source: string;
   title: string;
   url: string;
   permalink: string;
@@ -13,15 +15,73 @@ export interface Event {
   summary?: string;
   score?: number;
   why_matters?: string;
+  // Set when several sources reported the same story (see pipeline/cluster.ts)
+  sources?: string[];
+  links?: EventLink[];
+  member_ids?: string[];
+  score_components?: ScoreComponents;
+  community_reaction?: string;
+}
+
+export interface EventContent {
+  article?: string;   // Main text of the linked page, when fetched
+  comments: string[]; // Top HN/Reddit comments as "author: text"
+}
+
+export interface EventLink {
+  source: string;
+  permalink: string;
+  points: number;
+  comments: number;
 }
 
 export interface SourceConfig {
   hn?: boolean;
   reddit?: {
     subs: string[];
-  };
+  } | string[];
   producthunt?: boolean;
   blogs?: string[];
+  // Any other key is looked up in the source registry by its configKey
+  [key: string]: unknown;
+}
+
+export interface SourceAdapter<TConfig = unknown> {
+  name: string;         // Value stored in Event.source
+  configKey: string;    // Key under bot.sources in the YAML config
+  label: string;        // Display name used in logs and digests
+  configSchema: ZodType<TConfig>;
+  defaultAuthority: number;
+  isEnabled?(config: TConfig): boolean;
+  scrape(apiKey: string, config: TConfig): Promise<ScrapedResult[]>;
+  normalize?(scraped: ScrapedResult): Event;
+}
+
+export type ScrapedBySource = Record<string, ScrapedResult[]>;
+
+export interface ScoringWeights {
+  velocity: number;
+  authority: number;
+  impact: number;
+}
+
+export interface ScoringConfig {
+  profile?: string;                          // Name from top-level scoring_profiles to start from
+  weights?: Partial<ScoringWeights>;
+  source_authority?: Record<string, number>; // By source config key; overrides the adapter's defaultAuthority
+  domains?: {
+    allow?: string[];                        // Replaces the built-in reputable domain list
+    boost?: Record<string, number>;          // Added to the final score
+    penalty?: Record<string, number>;        // Subtracted from the final score
+  };
+  keywords?: Record<string, number>;         // Added to impact when the keyword matches
+}
+
+export interface ScheduleConfig {
+  cron?: string;         // 5-field cron expression or @hourly/@daily/@weekly
+  every?: string;        // Interval such as 30m, 3h or 1d
+  quiet_hours?: string;  // e.g. 22:00-07:00, no runs start inside the window
+  timezone?: string;     // IANA zone for cron and quiet hours (default: system)
 }
 
 export interface BotConfig {
@@ -30,10 +90,13 @@ export interface BotConfig {
   sources: SourceConfig;
   include: string[];
   exclude: string[];
+  scoring?: ScoringConfig;
+  schedule?: ScheduleConfig;
 }
 
 export interface Config {
   bots: BotConfig[];
+  scoring_profiles?: Record<string, ScoringConfig>;
 }
 
 export interface DigestItem {
@@ -45,6 +108,8 @@ export interface DigestItem {
   source: string;
   points: number;
   comments: number;
+  links?: EventLink[];
+  community_reaction?: string;
 }
 
 export interface CLIOptions {
@@ -57,18 +122,44 @@ export interface CLIOptions {
   watch?: number;
   theme: string;
   reset: boolean;
+  explain: boolean;
+  fetchContent: boolean;
 }
 
 export interface WatchState {
   seenIds: Set<string>;
   lastRun: string;
+  schedules: Record<string, BotScheduleState>;
+}
+
+export interface BotScheduleState {
+  schedule: string;  // Signature of the schedule the next run was computed from
+  nextRun: string;
+}
+
+export interface HistoryObservation {
+  observed_at: string;
+  points: number;
+  comments: number;
+  points_per_hour?: number; // Since the previous observation
+}
+
+export interface DomainTrend {
+  domain: string;
+  items: number;
+  points: number;
+  previous_items: number;
 }
 
 export interface ScoreComponents {
   velocity: number;
+  normalized_velocity?: number;
   authority: number;
   impact: number;
+  adjustment?: number;
   final_score: number;
+  weights?: ScoringWeights;
+  reasons?: string[];
 }
 
 export interface ParsedWindow {
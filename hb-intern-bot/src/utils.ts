@@ -68,6 +68,16 @@ export function extractDomain(url: string): string {
   }
 }
 
+// Feeds and scraped pages are third-party input; only web links are safe to follow or render
+export function isHttpUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
 export function isReputableDomain(domain: string): boolean {
   const reputable = [
     'github.com',
@@ -1,42 +1,55 @@
 import fs from 'fs';
 import path from 'path';
-import { WatchState } from './types.js';
-import { sleep, nowISO } from './utils.js';
+import { WatchState, BotScheduleState } from './types.js';
+import { EventHistory } from './history.js';
+import { nowISO } from './utils.js';
+
+const SEEN_RETENTION_DAYS = 30;
 
 export class WatchManager {
+  readonly history: EventHistory;
   private stateFile: string;
   private state: WatchState;
 
   constructor(outputDir: string) {
     this.stateFile = path.join(outputDir, 'state.json');
+    this.history = new EventHistory(outputDir);
     this.state = this.loadState();
   }
 
   private loadState(): WatchState {
+    let lastRun = nowISO();
+    let schedules: Record<string, BotScheduleState> = {};
+
     try {
       if (fs.existsSync(this.stateFile)) {
         const data = fs.readFileSync(this.stateFile, 'utf8');
         const parsed = JSON.parse(data);
-        return {
-          seenIds: new Set(parsed.seenIds || []),
-          lastRun: parsed.lastRun || nowISO()
-        };
+        lastRun = parsed.lastRun || lastRun;
+        schedules = parsed.schedules || {};
+
+        // Older state files kept seen ids inline; move them into the history store once
+        if (Array.isArray(parsed.seenIds) && parsed.seenIds.length > 0) {
+          this.history.markSeen(parsed.seenIds);
+          fs.writeFileSync(this.stateFile, JSON.stringify({ lastRun, schedules }, null, 2), 'utf8');
+        }
       }
     } catch (error) {
       console.warn('Could not load watch state:', error);
     }
 
     return {
-      seenIds: new Set(),
-      lastRun: nowISO()
+      seenIds: new Set(this.history.loadSeenIds()),
+      lastRun,
+      schedules
     };
   }
 
   private saveState(): void {
     try {
       const data = {
-        seenIds: Array.from(this.state.seenIds),
-        lastRun: this.state.lastRun
+        lastRun: this.state.lastRun,
+        schedules: this.state.schedules
       };
       fs.writeFileSync(this.stateFile, JSON.stringify(data, null, 2), 'utf8');
     } catch (error) {
@@ -48,7 +61,7 @@ export class WatchManager {
     for (const id of eventIds) {
       this.state.seenIds.add(id);
     }
-    this.saveState();
+    this.history.markSeen(eventIds);
   }
 
   isEventSeen(eventId: string): boolean {
@@ -64,11 +77,22 @@ export class WatchManager {
     return this.state.lastRun;
   }
 
+  getSchedule(botName: string): BotScheduleState | undefined {
+    return this.state.schedules[botName];
+  }
+
+  setSchedule(botName: string, schedule: BotScheduleState): void {
+    this.state.schedules[botName] = schedule;
+    this.saveState();
+  }
+
   reset(): void {
     this.state = {
       seenIds: new Set(),
-      lastRun: nowISO()
+      lastRun: nowISO(),
+      schedules: {}
     };
+    this.history.clearSeen();
     
     try {
       if (fs.existsSync(this.stateFile)) {
@@ -79,61 +103,25 @@ export class WatchManager {
     }
   }
 
-  filterUnseenEvents<T extends { id: string }>(events: T[]): T[] {
-    return events.filter(event => !this.isEventSeen(event.id));
+  close(): void {
+    this.history.close();
   }
 
-  // Clean up old seen IDs to prevent memory bloat
-  // Keep only IDs from the last 30 days
-  cleanup(): void {
-    const thirtyDaysAgo = new Date();
-    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-    
-    // Since we don't store timestamps for seen IDs, we'll just limit the size
-    const maxSeenIds = 10000;
-    
-    if (this.state.seenIds.size > maxSeenIds) {
-      const idsArray = Array.from(this.state.seenIds);
-      // Keep the last maxSeenIds/2 entries (assuming newer ones are added last)
-      const keepIds = idsArray.slice(-Math.floor(maxSeenIds / 2));
-      this.state.seenIds = new Set(keepIds);
-      this.saveState();
-      console.log(`Cleaned up seen IDs: kept ${keepIds.length} of ${idsArray.length}`);
-    }
+  // A clustered event counts as seen once any of its member events was seen
+  filterUnseenEvents<T extends { id: string; member_ids?: string[] }>(events: T[]): T[] {
+    return events.filter(event => !(event.member_ids || [event.id]).some(id => this.isEventSeen(id)));
   }
-}
 
-export async function runWatchLoop(
-  runFunction: () => Promise<void>,
-  intervalMinutes: number,
-  watchManager: WatchManager
-): Promise<void> {
-  console.log(`Starting watch loop: running every ${intervalMinutes} minutes`);
-  
-  let runCount = 0;
-  
-  while (true) {
-    try {
-      runCount++;
-      console.log(`\n--- Watch run #${runCount} at ${nowISO()} ---`);
-      
-      await runFunction();
-      watchManager.updateLastRun();
-      
-      // Cleanup periodically
-      if (runCount % 10 === 0) {
-        watchManager.cleanup();
-      }
-      
-      console.log(`Completed run #${runCount}. Next run in ${intervalMinutes} minutes.`);
-      
-    } catch (error) {
-      console.error(`Error in watch run #${runCount}:`, error);
+  // Forget seen IDs and event history older than 30 days
+  cleanup(): void {
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - SEEN_RETENTION_DAYS);
+
+    const removed = this.history.expireOlderThan(cutoff.toISOString());
+    if (removed.seen > 0 || removed.events > 0) {
+      this.state.seenIds = new Set(this.history.loadSeenIds());
+      console.log(`Cleaned up history: expired ${removed.seen} seen IDs and ${removed.events} events older than ${SEEN_RETENTION_DAYS} days`);
     }
-    
-    // Wait for the specified interval
-    const waitMs = intervalMinutes * 60 * 1000;
-    await sleep(waitMs);
   }
 }
 
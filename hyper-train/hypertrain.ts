@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import * as crypto from 'crypto';
 import Hyperbrowser from '@hyperbrowser/sdk';
 import OpenAI from 'openai';
 
@@ -13,13 +14,22 @@ interface Config {
   embed: boolean;
   qa: number | null;
   tag: string | null;
+  // train / validation / test fractions, summing to 1
+  split: [number, number, number];
+  splitBy: 'url' | 'domain';
+  // Estimated Jaccard similarity at which a chunk counts as a near-duplicate; 0 disables
+  dedup: number;
+  fresh: boolean;
 }
 
+type Split = 'train' | 'validation' | 'test';
+
 interface ChunkData {
   id: string;
   url: string;
   title: string;
   chunk_id: string;
+  split: Split;
   text: string;
   metadata: {
     collected_at: string;
@@ -27,6 +37,131 @@ interface ChunkData {
   };
 }
 
+// One line of the checkpoint: a page that finished scraping
+interface ScrapedPage {
+  url: string;
+  title: string;
+  content: string;
+  collected_at: string;
+}
+
+const SPLITS: Split[] = ['train', 'validation', 'test'];
+const CHECKPOINT_FILE = 'checkpoint.jsonl';
+
+const MINHASH_PERMUTATIONS = 128;
+// 32 bands of 4 rows: pairs above ~0.6 similarity almost always share a band
+const MINHASH_BANDS = 32;
+const SHINGLE_WORDS = 5;
+
+// Phrases that hint at how a source is licensed, reported in the dataset card
+const LICENSE_HINTS: Array<[string, RegExp]> = [
+  ['Creative Commons', /creative\s+commons|\bCC[\s-]BY(?:-[A-Z]{2})*\b|\bCC0\b/i],
+  ['MIT', /\bMIT\s+License\b/i],
+  ['Apache 2.0', /\bApache\s+License,?\s+Version\s+2\.0\b/i],
+  ['GPL', /\bGNU\s+(?:Affero\s+|Lesser\s+)?General\s+Public\s+License\b/i],
+  ['All rights reserved', /\ball\s+rights\s+reserved\b/i],
+];
+
+// Rough token estimate (~4 characters per token for English text)
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function domainOf(url: string): string {
+  return new URL(url).hostname.replace(/^www\./, '');
+}
+
+// FNV-1a
+function hash32(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// murmur3 finalizer; XOR-ing a different seed in first gives each permutation its own hash
+function mix32(value: number): number {
+  let x = value;
+  x ^= x >>> 16;
+  x = Math.imul(x, 0x85ebca6b);
+  x ^= x >>> 13;
+  x = Math.imul(x, 0xc2b2ae35);
+  x ^= x >>> 16;
+  return x >>> 0;
+}
+
+const PERMUTATION_SEEDS = Array.from({ length: MINHASH_PERMUTATIONS }, (_, i) => mix32(i + 1));
+
+function minHashSignature(text: string): number[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  const shingles = new Set<number>();
+  for (let i = 0; i + SHINGLE_WORDS <= words.length; i++) {
+    shingles.add(hash32(words.slice(i, i + SHINGLE_WORDS).join(' ')));
+  }
+  if (shingles.size === 0) shingles.add(hash32(words.join(' ')));
+
+  return PERMUTATION_SEEDS.map(seed => {
+    let min = 0xffffffff;
+    for (const shingle of shingles) {
+      const value = mix32(shingle ^ seed);
+      if (value < min) min = value;
+    }
+    return min;
+  });
+}
+
+// The share of matching positions estimates the Jaccard similarity of the shingle sets
+function signatureSimilarity(a: number[], b: number[]): number {
+  let same = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) same++;
+  }
+  return same / a.length;
+}
+
+// Drops chunks that nearly repeat an earlier one (boilerplate, mirrored pages, reposts).
+// The first occurrence in input order is kept.
+function removeNearDuplicates(chunks: ChunkData[], threshold: number): ChunkData[] {
+  const rows = MINHASH_PERMUTATIONS / MINHASH_BANDS;
+  const buckets = new Map<string, number[]>();
+  const signatures: number[][] = [];
+  const kept: ChunkData[] = [];
+
+  for (const chunk of chunks) {
+    const signature = minHashSignature(chunk.text);
+    const bands = Array.from({ length: MINHASH_BANDS }, (_, band) =>
+      `${band}:${signature.slice(band * rows, (band + 1) * rows).join(',')}`
+    );
+    const candidates = new Set(bands.flatMap(band => buckets.get(band) || []));
+    if ([...candidates].some(index => signatureSimilarity(signature, signatures[index]!) >= threshold)) continue;
+
+    const index = signatures.push(signature) - 1;
+    kept.push(chunk);
+    for (const band of bands) {
+      const bucket = buckets.get(band);
+      if (bucket) bucket.push(index);
+      else buckets.set(band, [index]);
+    }
+  }
+  return kept;
+}
+
+// Hashing the key (not sampling) keeps every URL, or every domain, in the same split
+// across reruns and as the input list grows, so nothing leaks between splits.
+function assignSplit(key: string, ratios: [number, number, number]): Split {
+  const position = crypto.createHash('sha256').update(key).digest().readUInt32BE(0) / 0x100000000;
+  if (position < ratios[0]) return 'train';
+  if (position < ratios[0] + ratios[1]) return 'validation';
+  return 'test';
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))]!;
+}
+
 class HyperTrain {
   private config: Config;
   private hyperbrowser: Hyperbrowser = null as any;
@@ -171,6 +306,8 @@ class HyperTrain {
               { role: 'assistant', content: pair.answer }
             ],
             source_id: chunk.chunk_id,
+            // Pairs inherit their chunk's split, so QA data does not leak either
+            split: chunk.split,
           });
         });
       } catch (error) {
@@ -204,64 +341,227 @@ class HyperTrain {
     return pairs;
   }
 
+  // A crash can leave a half-written last line; everything before it is still good
+  private async loadCheckpoint(checkpointPath: string): Promise<Map<string, ScrapedPage>> {
+    const pages = new Map<string, ScrapedPage>();
+    if (!fs.existsSync(checkpointPath)) return pages;
+
+    let text = await fs.promises.readFile(checkpointPath, 'utf-8');
+    // Cut the torn line off the file too, or the next record would be glued onto it
+    if (text && !text.endsWith('\n')) {
+      text = text.slice(0, text.lastIndexOf('\n') + 1);
+      await fs.promises.truncate(checkpointPath, Buffer.byteLength(text));
+      console.warn(`⚠️  Dropped a half-written last line from ${checkpointPath}`);
+    }
+
+    for (const line of text.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const page: ScrapedPage = JSON.parse(line);
+        pages.set(page.url, page);
+      } catch {
+        console.warn(`⚠️  Skipping an unreadable line in ${checkpointPath}`);
+      }
+    }
+    return pages;
+  }
+
+  private async writeJsonl(fileName: string, rows: unknown[]): Promise<string> {
+    const outputPath = path.join(this.config.out, fileName);
+    await fs.promises.writeFile(outputPath, rows.map(row => JSON.stringify(row) + '\n').join(''));
+    return outputPath;
+  }
+
+  private async writeDatasetCard(urls: string[], pages: Map<string, ScrapedPage>, chunks: ChunkData[], duplicates: number): Promise<void> {
+    const scraped = urls.filter(url => pages.has(url));
+    const tokens = chunks.map(chunk => estimateTokens(chunk.text)).sort((a, b) => a - b);
+    const totalTokens = tokens.reduce((sum, count) => sum + count, 0);
+    const [train, validation, test] = this.config.split;
+
+    const lines = [
+      `# Dataset Card: ${path.basename(path.resolve(this.config.out))}`,
+      '',
+      `Built with HyperTrain from \`${this.config.input}\` on ${new Date().toISOString().slice(0, 10)}.` +
+        (this.config.tag ? ` Tag: \`${this.config.tag}\`.` : ''),
+      '',
+      '## Summary',
+      '',
+      '| | Count |',
+      '| --- | ---: |',
+      `| URLs in input | ${urls.length} |`,
+      `| URLs scraped | ${scraped.length} |`,
+      `| URLs failed | ${urls.length - scraped.length} |`,
+      `| Chunks | ${chunks.length} |`,
+      `| Near-duplicate chunks removed | ${this.config.dedup > 0 ? `${duplicates} (MinHash, similarity ≥ ${this.config.dedup})` : 'dedup disabled'} |`,
+      '',
+      '## Splits',
+      '',
+      `Assigned by ${this.config.splitBy} (train ${train} / validation ${validation} / test ${test}) from a SHA-256 hash, ` +
+        `so every chunk of a ${this.config.splitBy} lands in the same split and reruns give the same assignment.`,
+      '',
+      '| Split | File | URLs | Chunks | Tokens |',
+      '| --- | --- | ---: | ---: | ---: |',
+      ...SPLITS.map(split => {
+        const inSplit = chunks.filter(chunk => chunk.split === split);
+        const splitTokens = inSplit.reduce((sum, chunk) => sum + estimateTokens(chunk.text), 0);
+        return `| ${split} | \`${split}.jsonl\` | ${new Set(inSplit.map(chunk => chunk.url)).size} | ${inSplit.length} | ${splitTokens} |`;
+      }),
+      '',
+      '## Token Statistics',
+      '',
+      'Per chunk, estimated at ~4 characters per token.',
+      '',
+      '| | Tokens |',
+      '| --- | ---: |',
+      `| Total | ${totalTokens} |`,
+      `| Mean | ${tokens.length ? Math.round(totalTokens / tokens.length) : 0} |`,
+      `| Median | ${percentile(tokens, 50)} |`,
+      `| p95 | ${percentile(tokens, 95)} |`,
+      `| Min | ${tokens[0] ?? 0} |`,
+      `| Max | ${tokens[tokens.length - 1] ?? 0} |`,
+      '',
+      '## Domains',
+      '',
+      '| Domain | URLs | Chunks | Splits |',
+      '| --- | ---: | ---: | --- |',
+    ];
+
+    const domains = new Map<string, { urls: Set<string>; chunks: number; splits: Set<Split> }>();
+    for (const url of scraped) {
+      const domain = domainOf(url);
+      if (!domains.has(domain)) domains.set(domain, { urls: new Set(), chunks: 0, splits: new Set() });
+      domains.get(domain)!.urls.add(url);
+    }
+    for (const chunk of chunks) {
+      const entry = domains.get(domainOf(chunk.url))!;
+      entry.chunks++;
+      entry.splits.add(chunk.split);
+    }
+    const byChunks = [...domains].sort((a, b) => b[1].chunks - a[1].chunks);
+    for (const [domain, entry] of byChunks) {
+      lines.push(`| ${domain} | ${entry.urls.size} | ${entry.chunks} | ${SPLITS.filter(split => entry.splits.has(split)).join(', ')} |`);
+    }
+
+    lines.push(
+      '',
+      '## License Notes',
+      '',
+      'The text was scraped from third-party websites and each source keeps its own copyright and terms of use. ' +
+        'HyperTrain does not check whether a source permits use for training; review each domain before training or redistributing.',
+      ''
+    );
+    const hints = byChunks.flatMap(([domain, entry]) => {
+      const found = LICENSE_HINTS
+        .filter(([, pattern]) => [...entry.urls].some(url => pattern.test(pages.get(url)!.content)))
+        .map(([label]) => label);
+      return found.length ? [`- ${domain}: ${found.join(', ')}`] : [];
+    });
+    if (hints.length) {
+      lines.push('License mentions found in the scraped text (a hint, not a determination):', '', ...hints);
+    } else {
+      lines.push('No license mentions were found in the scraped text.');
+    }
+
+    const outputPath = path.join(this.config.out, 'dataset_card.md');
+    await fs.promises.writeFile(outputPath, lines.join('\n') + '\n');
+    console.log(`📇 Wrote dataset card to ${outputPath}`);
+  }
+
   async run(): Promise<void> {
     console.log('🚀 Starting HyperTrain...');
     
-    const urls = await this.readUrls();
+    // Repeated URLs would be scraped and split twice
+    const urls = [...new Set(await this.readUrls())];
     await fs.promises.mkdir(this.config.out, { recursive: true });
-    
-    const allChunks: ChunkData[] = [];
-    const urlData = new Map();
-
-    // Process URLs with concurrency
-    for (let i = 0; i < urls.length; i += this.config.concurrency) {
-      const batch = urls.slice(i, i + this.config.concurrency);
-      const results = await Promise.allSettled(batch.map(url => this.scrapeUrl(url)));
-
-      results.forEach((result, j) => {
-        if (result.status === 'fulfilled' && result.value) {
-          const url = batch[j];
-          if (!url) return;
-          
-          const { title, content } = result.value;
-          const chunks = this.chunkText(content);
-          const timestamp = new Date().toISOString();
-
-          const chunkData = chunks.map((chunk, index) => ({
-            id: `${new URL(url).hostname.replace(/\./g, '_')}_${Date.now()}_${index}`,
-            url,
-            title,
-            chunk_id: `chunk_${i + j}_${index}`,
-            text: chunk,
-            metadata: {
-              collected_at: timestamp,
-              ...(this.config.tag && { tag: this.config.tag }),
-            },
-          }));
-
-          allChunks.push(...chunkData);
-          urlData.set(url, { title, chunks: chunkData });
-        }
-      });
+
+    // Every scraped page is appended here as soon as it finishes, so a crash or
+    // Ctrl-C loses at most the batch in flight; the next run skips what is done.
+    const checkpointPath = path.join(this.config.out, CHECKPOINT_FILE);
+    if (this.config.fresh) await fs.promises.rm(checkpointPath, { force: true });
+    const pages = await this.loadCheckpoint(checkpointPath);
+    const pending = urls.filter(url => !pages.has(url));
+    if (pending.length < urls.length) {
+      console.log(`⏭️  Resuming: ${urls.length - pending.length}/${urls.length} URLs already scraped (${checkpointPath})`);
+    }
+
+    // One stream for the whole run, so lines from concurrent scrapes never interleave
+    const checkpoint = fs.createWriteStream(checkpointPath, { flags: 'a' });
+    // A failed write (disk full, out dir removed) also emits 'error', which would otherwise end the run
+    let checkpointError: Error | undefined;
+    checkpoint.on('error', error => { checkpointError ??= error; });
+    try {
+      // Process URLs with concurrency
+      for (let i = 0; i < pending.length; i += this.config.concurrency) {
+        const batch = pending.slice(i, i + this.config.concurrency);
+        await Promise.allSettled(batch.map(async url => {
+          const result = await this.scrapeUrl(url);
+          if (!result) return;
+
+          const page: ScrapedPage = { url, ...result, collected_at: new Date().toISOString() };
+          pages.set(url, page);
+          await new Promise<void>((resolve, reject) =>
+            checkpoint.write(JSON.stringify(page) + '\n', error => {
+              if (!error) return resolve();
+              checkpointError ??= error;
+              reject(error);
+            }));
+        }));
+      }
+    } finally {
+      // end() calls back on error too; a stream already destroyed by one never would
+      await new Promise<void>(resolve => checkpoint.destroyed ? resolve() : checkpoint.end(resolve));
     }
+    if (checkpointError) {
+      console.warn(`⚠️  Could not write ${checkpointPath} (${checkpointError.message}); the next run will scrape these pages again`);
+    }
+
+    // Chunks are built from the checkpoint, so a rerun with another --chunk does not rescrape
+    const allChunks: ChunkData[] = [];
+    urls.forEach((url, urlIndex) => {
+      const page = pages.get(url);
+      if (!page) return;
+
+      const split = assignSplit(this.config.splitBy === 'domain' ? domainOf(url) : url, this.config.split);
+      allChunks.push(...this.chunkText(page.content).map((chunk, index) => ({
+        id: `${new URL(url).hostname.replace(/\./g, '_')}_${Date.parse(page.collected_at)}_${index}`,
+        url,
+        title: page.title,
+        // Numbered by position in the input, so ids stay the same across resumed runs
+        chunk_id: `chunk_${urlIndex}_${index}`,
+        split,
+        text: chunk,
+        metadata: {
+          collected_at: page.collected_at,
+          ...(this.config.tag && { tag: this.config.tag }),
+        },
+      })));
+    });
+
+    const chunks = this.config.dedup > 0 ? removeNearDuplicates(allChunks, this.config.dedup) : allChunks;
+    const duplicates = allChunks.length - chunks.length;
+    if (duplicates) console.log(`🧹 Removed ${duplicates} near-duplicate chunks`);
 
     // Write outputs
     if (this.config.format.includes('jsonl')) {
-      const outputPath = path.join(this.config.out, 'dataset.jsonl');
-      const writeStream = fs.createWriteStream(outputPath);
-      allChunks.forEach(chunk => writeStream.write(JSON.stringify(chunk) + '\n'));
-      writeStream.end();
+      const outputPath = await this.writeJsonl('dataset.jsonl', chunks);
       console.log(`💾 Wrote JSONL dataset to ${outputPath}`);
+      for (const split of SPLITS) {
+        const inSplit = chunks.filter(chunk => chunk.split === split);
+        await this.writeJsonl(`${split}.jsonl`, inSplit);
+        console.log(`   ${split}: ${inSplit.length} chunks`);
+      }
     }
 
     if (this.config.format.includes('md')) {
-      for (const [url, data] of urlData) {
-        if (!url || !data) continue;
+      for (const url of urls) {
+        const urlChunks = chunks.filter(chunk => chunk.url === url);
+        const first = urlChunks[0];
+        if (!first) continue;
         
-        const fileName = (data.title || 'scraped').replace(/[^a-z0-9]/gi, '_').toLowerCase() + '.md';
+        const fileName = (first.title || 'scraped').replace(/[^a-z0-9]/gi, '_').toLowerCase() + '.md';
         const outputPath = path.join(this.config.out, fileName);
-        let content = `# ${data.title || 'Scraped Content'}\n\n**Source:** ${url}\n**Collected:** ${data.chunks[0]?.metadata.collected_at || new Date().toISOString()}\n\n---\n\n`;
-        data.chunks.forEach((chunk: any, i: number) => {
+        let content = `# ${first.title || 'Scraped Content'}\n\n**Source:** ${url}\n**Collected:** ${first.metadata.collected_at}\n**Split:** ${first.split}\n\n---\n\n`;
+        urlChunks.forEach((chunk, i) => {
           content += `## Chunk ${i + 1}\n\n${chunk.text || ''}\n\n`;
         });
         await fs.promises.writeFile(outputPath, content);
@@ -269,10 +569,14 @@ class HyperTrain {
       console.log(`📝 Wrote Markdown files`);
     }
 
-    if (this.config.embed) await this.generateEmbeddings(allChunks);
-    if (this.config.qa) await this.generateQAPairs(allChunks);
+    await this.writeDatasetCard(urls, pages, chunks, duplicates);
+
+    if (this.config.embed) await this.generateEmbeddings(chunks);
+    if (this.config.qa) await this.generateQAPairs(chunks);
 
-    console.log(`🎉 Completed! Created ${allChunks.length} chunks from ${urls.length} URLs`);
+    const failed = urls.length - urls.filter(url => pages.has(url)).length;
+    console.log(`🎉 Completed! Created ${chunks.length} chunks from ${urls.length} URLs`);
+    if (failed) console.log(`⚠️  ${failed} URLs failed; run the same command again to retry them`);
     console.log('\nFollow @hyperbrowser_ai for updates.');
   }
 }
@@ -288,6 +592,10 @@ function parseArgs(): Config {
     embed: false,
     qa: null,
     tag: null,
+    split: [0.8, 0.1, 0.1],
+    splitBy: 'url',
+    dedup: 0.85,
+    fresh: false,
   };
 
   for (let i = 0; i < args.length; i++) {
@@ -301,6 +609,35 @@ function parseArgs(): Config {
       case '--embed': config.embed = true; break;
       case '--qa': config.qa = parseInt(args[++i] || '0') || null; break;
       case '--tag': config.tag = args[++i] || null; break;
+      case '--split': {
+        const ratios = (args[++i] || '').split(',').map(Number);
+        const total = ratios.reduce((sum, ratio) => sum + ratio, 0);
+        if (ratios.length !== 3 || ratios.some(ratio => !(ratio >= 0)) || total <= 0) {
+          console.error('❌ --split takes three non-negative numbers: train,validation,test (e.g. 0.8,0.1,0.1)');
+          process.exit(1);
+        }
+        config.split = [ratios[0]! / total, ratios[1]! / total, ratios[2]! / total];
+        break;
+      }
+      case '--split-by': {
+        const splitBy = args[++i];
+        if (splitBy !== 'url' && splitBy !== 'domain') {
+          console.error('❌ --split-by must be url or domain');
+          process.exit(1);
+        }
+        config.splitBy = splitBy;
+        break;
+      }
+      case '--dedup': {
+        const threshold = parseFloat(args[++i] || '');
+        if (!(threshold >= 0 && threshold <= 1)) {
+          console.error('❌ --dedup takes a similarity between 0 and 1 (0 disables it)');
+          process.exit(1);
+        }
+        config.dedup = threshold;
+        break;
+      }
+      case '--fresh': config.fresh = true; break;
       case '--help': case '-h':
         console.log(`
 **Built with Hyperbrowser (https://hyperbrowser.ai)**
@@ -316,6 +653,10 @@ Options:
   --embed               Generate embeddings
   --qa <N>              Generate N QA pairs per chunk
   --tag <string>        Add custom tag to metadata
+  --split <t,v,t>       Train,validation,test fractions (default: 0.8,0.1,0.1)
+  --split-by <key>      Keep each url or domain in one split (default: url)
+  --dedup <similarity>  Drop chunks this similar to an earlier one (default: 0.85, 0 disables)
+  --fresh               Ignore the checkpoint and scrape every URL again
   --help, -h            Show this help
 
 Environment Variables:
@@ -0,0 +1,145 @@
+import fs from 'fs';
+import nodemailer from 'nodemailer';
+
+import { AlertRule, AlertsConfig, FileDataSchema, PricePoint, zodAlertsConfigSchema } from './types';
+import { effectivePrice, seriesKey, similarProductPrice } from './history';
+
+type ProductEntry = FileDataSchema[string];
+
+export type PriceAlert = {
+  rule: AlertRule['type'];
+  // The tracked product (key in the saved file) the alert belongs to
+  productUrl: string;
+  name: string;
+  link: string;
+  previousPrice?: number;
+  currentPrice: number;
+  message: string;
+};
+
+export function loadAlertsConfig(filePath: string): AlertsConfig {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read alerts file ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+  const parsed = zodAlertsConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`Invalid alerts file ${filePath}:\n  ${issues.join('\n  ')}`);
+  }
+  return parsed.data;
+}
+
+const money = (value: number) => `$${value.toFixed(2)}`;
+
+// Compares the refresh that just ran (`after`) with the previous one (`before`).
+// Drops and sales are measured against the last time each product was seen.
+export function evaluateAlerts(productUrl: string, before: ProductEntry, after: ProductEntry, rules: AlertRule[]): PriceAlert[] {
+  const alerts: PriceAlert[] = [];
+  const history = after.priceHistory || {};
+  const applicable = rules.filter(rule => !rule.url || rule.url === productUrl);
+
+  // Only products seen in this refresh can trigger alerts
+  const seen = Object.entries(history).filter(([, series]) => series.points[series.points.length - 1]?.date === after.lastUpdated);
+
+  for (const [link, series] of seen) {
+    const current = series.points[series.points.length - 1];
+    const previous: PricePoint | undefined = series.points[series.points.length - 2];
+    if (!previous) continue;
+    const now = effectivePrice(current);
+    const then = effectivePrice(previous);
+    const label = link === productUrl ? `${series.name} (tracked product)` : series.name;
+    const base = { productUrl, name: series.name, link, previousPrice: then, currentPrice: now };
+
+    for (const rule of applicable) {
+      if (rule.type === 'priceDrop' && then - now >= rule.amount) {
+        alerts.push({ ...base, rule: rule.type, message: `${label} dropped ${money(then - now)}: ${money(then)} → ${money(now)}` });
+      } else if (rule.type === 'percentDrop' && then > 0 && ((then - now) / then) * 100 >= rule.percent) {
+        const percent = ((then - now) / then) * 100;
+        alerts.push({ ...base, rule: rule.type, message: `${label} dropped ${percent.toFixed(1)}%: ${money(then)} → ${money(now)}` });
+      } else if (rule.type === 'onSale' && previous.salePrice === undefined && current.salePrice !== undefined) {
+        alerts.push({ ...base, rule: rule.type, message: `${label} is on sale: ${money(current.price)} → ${money(current.salePrice)}` });
+      }
+    }
+  }
+
+  // Alternatives are compared with the original at the same refresh
+  const cheaperRules = applicable.filter((rule): rule is Extract<AlertRule, { type: 'cheaperAlternative' }> => rule.type === 'cheaperAlternative');
+  if (cheaperRules.length) {
+    const originalNow = after.originalProduct.price;
+    const previousSavings = new Map<string, number>();
+    for (const product of before.similarProducts) {
+      previousSavings.set(seriesKey(product), before.originalProduct.price - similarProductPrice(product));
+    }
+
+    const reported = new Set<string>();
+    for (const product of after.similarProducts) {
+      const key = seriesKey(product);
+      const price = similarProductPrice(product);
+      const savings = originalNow - price;
+      for (const rule of cheaperRules) {
+        if (savings <= 0 || savings < rule.minSavings || reported.has(key)) continue;
+        const earlier = previousSavings.get(key);
+        if (earlier !== undefined && earlier > 0 && earlier >= rule.minSavings) continue;
+        reported.add(key);
+        alerts.push({
+          rule: rule.type,
+          productUrl,
+          name: product.name,
+          link: key,
+          currentPrice: price,
+          message: `${product.name} (${product.brand}) costs ${money(price)}, ${money(savings)} less than ${after.originalProduct.name} at ${money(originalNow)}`
+        });
+      }
+    }
+  }
+
+  return alerts;
+}
+
+function formatAlerts(alerts: PriceAlert[]): string {
+  return alerts.map(alert => `• ${alert.message}\n  ${alert.link}`).join('\n');
+}
+
+// Delivers to every configured channel; returns one message per channel that failed
+export async function sendPriceAlerts(config: AlertsConfig, alerts: PriceAlert[]): Promise<string[]> {
+  const errors: string[] = [];
+  const subject = `Price alert: ${alerts.length} change${alerts.length === 1 ? '' : 's'}`;
+
+  for (const url of config.notify.webhook) {
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text: `${subject}\n${formatAlerts(alerts)}`, alerts }),
+        signal: AbortSignal.timeout(10_000)
+      });
+      if (!response.ok) errors.push(`webhook ${url}: HTTP ${response.status}`);
+    } catch (error) {
+      errors.push(`webhook ${url}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (config.notify.email.length) {
+    const smtpUrl = process.env.SMTP_URL;
+    if (!smtpUrl) {
+      errors.push('email: SMTP_URL is not set');
+    } else {
+      try {
+        const transport = nodemailer.createTransport(smtpUrl);
+        await transport.sendMail({
+          from: process.env.ALERT_EMAIL_FROM || 'product-finder@localhost',
+          to: config.notify.email.join(', '),
+          subject,
+          text: formatAlerts(alerts)
+        });
+      } catch (error) {
+        errors.push(`email: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+
+  return errors;
+}
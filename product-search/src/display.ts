@@ -1,4 +1,5 @@
-import { ProductResponseSchema, SimilarProductsResponseSchema } from './types';
+import { FileDataSchema, PricePoint, ProductResponseSchema, SimilarProductsResponseSchema } from './types';
+import { effectivePrice, seedHistory, seriesKey } from './history';
 
 // Function to display product details in console
 export function displayProductDetails(product: ProductResponseSchema) {
@@ -41,4 +42,89 @@ export function displaySimilarProducts(products: SimilarProductsResponseSchema['
   });
   
   console.log('='.repeat(50));
-} 
\ No newline at end of file
+}
+
+const CHART_HEIGHT = 8;
+const CHART_WIDTH = 60;
+const SPARK_CHARS = '▁▂▃▄▅▆▇█';
+
+// Plots the most recent CHART_WIDTH points, one column per refresh
+function renderPriceChart(points: PricePoint[]): string[] {
+  const recent = points.slice(-CHART_WIDTH);
+  const prices = recent.map(effectivePrice);
+  const min = Math.min(...prices);
+  const max = Math.max(...prices);
+  const rowOf = (price: number) => max === min ? Math.floor(CHART_HEIGHT / 2) : Math.round(((max - price) / (max - min)) * (CHART_HEIGHT - 1));
+
+  const grid = Array.from({ length: CHART_HEIGHT }, () => Array(recent.length).fill(' '));
+  prices.forEach((price, column) => {
+    // Sale prices are drawn differently so a drop caused by a sale is visible
+    grid[rowOf(price)][column] = recent[column].salePrice !== undefined ? '◆' : '●';
+  });
+
+  const labelWidth = Math.max(`$${max.toFixed(2)}`.length, `$${min.toFixed(2)}`.length);
+  const lines = grid.map((row, index) => {
+    const label = index === 0 ? `$${max.toFixed(2)}` : index === CHART_HEIGHT - 1 && max !== min ? `$${min.toFixed(2)}` : '';
+    return `${label.padStart(labelWidth)} ┤${row.join('')}`;
+  });
+  lines.push(`${' '.repeat(labelWidth)} └${'─'.repeat(recent.length)}`);
+
+  const first = recent[0].date.slice(0, 10);
+  const last = recent[recent.length - 1].date.slice(0, 10);
+  const axis = recent.length > 1 && first !== last ? `${first}${last.padStart(Math.max(recent.length - first.length, last.length + 1))}` : first;
+  lines.push(`${' '.repeat(labelWidth + 2)}${axis}`);
+  return lines;
+}
+
+function sparkline(points: PricePoint[]): string {
+  const prices = points.slice(-20).map(effectivePrice);
+  const min = Math.min(...prices);
+  const max = Math.max(...prices);
+  return prices.map(price => SPARK_CHARS[max === min ? 3 : Math.round(((price - min) / (max - min)) * (SPARK_CHARS.length - 1))]).join('');
+}
+
+function changeSinceFirst(points: PricePoint[]): string {
+  if (points.length < 2) return '';
+  const first = effectivePrice(points[0]);
+  const last = effectivePrice(points[points.length - 1]);
+  if (first === 0 || first === last) return ' ─ unchanged';
+  const percent = ((last - first) / first) * 100;
+  return `${percent < 0 ? ' ↓' : ' ↑'} ${Math.abs(percent).toFixed(1)}%`;
+}
+
+// Function to display the price history of a tracked product and its similar products
+export function displayPriceHistory(productUrl: string, storedEntry: FileDataSchema[string], similarCount: number) {
+  const entry = seedHistory(productUrl, storedEntry);
+  const history = entry.priceHistory || {};
+  const original = history[productUrl];
+
+  console.log(`\n📈 Price History: ${entry.originalProduct.name}`);
+  console.log('='.repeat(50));
+  console.log(`🔗 ${productUrl}`);
+
+  if (original && original.points.length) {
+    const prices = original.points.map(effectivePrice);
+    console.log(`💰 Now: $${prices[prices.length - 1].toFixed(2)} · Low: $${Math.min(...prices).toFixed(2)} · High: $${Math.max(...prices).toFixed(2)} · ${prices.length} refresh${prices.length === 1 ? '' : 'es'}${changeSinceFirst(original.points)}`);
+    console.log('');
+    renderPriceChart(original.points).forEach(line => console.log(line));
+  }
+
+  // Similar products in the order of the latest refresh (most similar first)
+  const shown = entry.similarProducts.slice(0, similarCount);
+  if (shown.length) {
+    console.log(`\n🔍 Similar products (oldest → newest):`);
+    shown.forEach((product, index) => {
+      const series = history[seriesKey(product)];
+      if (!series || !series.points.length) return;
+      const prices = series.points.map(effectivePrice);
+      console.log(`\n#${index + 1}: ${product.name}`);
+      console.log(`   ${sparkline(series.points)}  $${prices[prices.length - 1].toFixed(2)} (low $${Math.min(...prices).toFixed(2)}, high $${Math.max(...prices).toFixed(2)})${changeSinceFirst(series.points)}`);
+    });
+  }
+
+  const others = entry.similarProducts.length - shown.length;
+  if (others > 0) {
+    console.log(`\n…and ${others} more similar product${others === 1 ? '' : 's'} (use --similar to show more)`);
+  }
+  console.log('='.repeat(50));
+}
@@ -0,0 +1,63 @@
+import { FileDataSchema, PricePoint, PriceSeries, ProductResponseSchema, SimilarProductsResponseSchema } from './types';
+
+type ProductEntry = FileDataSchema[string];
+type SimilarProduct = SimilarProductsResponseSchema['products'][number];
+
+// What the buyer would actually pay: the sale price when the product is on sale
+export function effectivePrice(point: PricePoint): number {
+  return point.salePrice !== undefined ? point.salePrice : point.price;
+}
+
+export function similarProductPrice(product: SimilarProduct): number {
+  return product.onSale && product.salePrice !== undefined ? product.salePrice : product.price;
+}
+
+function similarPoint(product: SimilarProduct, date: string): PricePoint {
+  return product.onSale && product.salePrice !== undefined
+    ? { date, price: product.price, salePrice: product.salePrice }
+    : { date, price: product.price };
+}
+
+// Some listings come back without a link; fall back to the name so they are still tracked
+export function seriesKey(product: SimilarProduct): string {
+  return product.linkToProduct || product.name;
+}
+
+// Appends today's prices to the existing history. Products that dropped out of
+// the results keep their series, so they reappear in the chart if they come back.
+export function recordPrices(
+  productUrl: string,
+  originalProduct: ProductResponseSchema,
+  similarProducts: SimilarProductsResponseSchema['products'],
+  date: string,
+  previous?: ProductEntry
+): { [link: string]: PriceSeries } {
+  const history: { [link: string]: PriceSeries } = {};
+  for (const [link, series] of Object.entries(previous?.priceHistory || {})) {
+    history[link] = { name: series.name, points: [...series.points] };
+  }
+
+  const append = (link: string, name: string, point: PricePoint) => {
+    const series = history[link] || (history[link] = { name, points: [] });
+    series.name = name;
+    series.points.push(point);
+  };
+
+  append(productUrl, originalProduct.name, { date, price: originalProduct.price });
+  for (const product of similarProducts) {
+    const key = seriesKey(product);
+    // The same listing twice in one result set is recorded once
+    if (history[key]?.points[history[key].points.length - 1]?.date === date) continue;
+    append(key, product.name, similarPoint(product, date));
+  }
+  return history;
+}
+
+// Files written before price tracking have no history; seed it from the stored snapshot
+export function seedHistory(productUrl: string, entry: ProductEntry): ProductEntry {
+  if (entry.priceHistory) return entry;
+  return {
+    ...entry,
+    priceHistory: recordPrices(productUrl, entry.originalProduct, entry.similarProducts, entry.lastUpdated)
+  };
+}
@@ -1,13 +1,27 @@
 import 'dotenv/config';
+import fs from 'fs';
 import path from 'path';
 import { Command } from 'commander';
 
 // Import functions from our modules
 import { searchForProduct, refreshProductInfo } from './product';
-import { setupCronJob, removeCronJob } from './scheduler';
+import {
+  addScheduledJob,
+  listJobs,
+  listRuns,
+  removeLegacyCronJob,
+  removeScheduledJob,
+  runDaemon,
+  setJobPaused
+} from './scheduler';
+import { loadAlertsConfig } from './alerts';
+import { displayPriceHistory } from './display';
+import { FileDataSchema } from './types';
 
 // Configuration
 const OUTPUT_FILE = path.join(__dirname, '../saved_products.json');
+const ALERTS_FILE = path.join(__dirname, '../price-alerts.json');
+const SCHEDULES_FILE = path.join(__dirname, '../schedules.json');
 const API_KEY = process.env.HYPERBROWSER_API_KEY as string;
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY as string;
 
@@ -35,34 +49,133 @@ async function main() {
     .command('refresh')
     .description('Refresh information for a product using a saved file')
     .requiredOption('-f, --file <file>', 'Path to the saved product file', OUTPUT_FILE)
-    .action(async (options: { file: string, }) => {
+    .option('-a, --alerts <file>', 'Price alert rules (used automatically when price-alerts.json exists)')
+    .action(async (options: { file: string, alerts?: string }) => {
       if (!API_KEY) {
         throw new Error('HYPERBROWSER_API_KEY is not set');
       }
-      await refreshProductInfo(options.file, API_KEY, OPENAI_API_KEY);
+      // An explicitly passed alerts file must exist; the default one is optional
+      const alertsFile = options.alerts || (fs.existsSync(ALERTS_FILE) ? ALERTS_FILE : undefined);
+      const alertsConfig = alertsFile ? loadAlertsConfig(alertsFile) : undefined;
+      if (!(await refreshProductInfo(options.file, API_KEY, OPENAI_API_KEY, alertsConfig))) {
+        // Lets the scheduler daemon record the run as failed
+        process.exitCode = 1;
+      }
+    });
+
+  program
+    .command('history')
+    .description('Chart the recorded price history of saved products')
+    .option('-f, --file <file>', 'Path to the saved product file', OUTPUT_FILE)
+    .option('-u, --url <url>', 'Only show this product (defaults to all saved products)')
+    .option('-s, --similar <count>', 'Number of similar products to show per product', '5')
+    .action(async (options: { file: string, url?: string, similar: string }) => {
+      if (!fs.existsSync(options.file)) {
+        throw new Error(`File not found: ${options.file}`);
+      }
+      const data: FileDataSchema = JSON.parse(fs.readFileSync(options.file, 'utf8'));
+      const similarCount = parseInt(options.similar, 10);
+      if (isNaN(similarCount) || similarCount < 0) {
+        throw new Error(`--similar must be a non-negative number, got ${options.similar}`);
+      }
+
+      const urls = options.url ? [options.url] : Object.keys(data);
+      if (urls.length === 0) {
+        console.log(`No products saved in ${options.file}`);
+      }
+      for (const url of urls) {
+        if (!data[url]) {
+          throw new Error(`No saved product for ${url} in ${options.file}`);
+        }
+        displayPriceHistory(url, data[url], similarCount);
+      }
     });
 
   program
     .command('schedule')
-    .description('Set up a cron job to run the product finder periodically')
+    .description('Add or update a scheduled refresh, run by the scheduler daemon')
+    .option('-n, --name <name>', 'Job name (defaults to the product file name)')
     .option('-f, --file <file>', 'Path to the saved product file', OUTPUT_FILE)
     .option('-i, --interval <interval>', 'Cron schedule interval', '0 0 * * *') // Default: every day at midnight
-    .action(async (options: { file: string, interval: string }) => {
-      if (!API_KEY) {
-        throw new Error('HYPERBROWSER_API_KEY is not set');
-      }
-      await setupCronJob(options, API_KEY);
+    .option('-a, --alerts <file>', 'Price alert rules to check on every run')
+    .option('-c, --config <file>', 'Schedules file', SCHEDULES_FILE)
+    .action(async (options: { name?: string, file: string, interval: string, alerts?: string, config: string }) => {
+      await addScheduledJob(options.config, options);
     });
 
   program
     .command('unschedule')
-    .description('Remove the scheduled cron job')
-    .option('-d, --delete-script', 'Also delete the script file', false)
-    .action(async (options: { deleteScript: boolean }) => {
-      await removeCronJob(options);
+    .description('Remove a scheduled refresh')
+    .argument('[name]', 'Job name')
+    .option('-c, --config <file>', 'Schedules file', SCHEDULES_FILE)
+    .option('--legacy', 'Remove the crontab entry and script created by earlier versions', false)
+    .action(async (name: string | undefined, options: { config: string, legacy: boolean }) => {
+      if (options.legacy) {
+        await removeLegacyCronJob();
+      }
+      if (name) {
+        await removeScheduledJob(options.config, name);
+      } else if (!options.legacy) {
+        throw new Error('Specify the job name to remove (see: product-finder jobs list)');
+      }
+    });
+
+  program
+    .command('daemon')
+    .description('Run scheduled jobs until stopped')
+    .option('-c, --config <file>', 'Schedules file', SCHEDULES_FILE)
+    .action(async (options: { config: string }) => {
+      // Checked up front so a missing key fails here rather than in every run
+      if (!API_KEY) {
+        throw new Error('HYPERBROWSER_API_KEY is not set (set it in the environment or .env)');
+      }
+      await runDaemon(path.resolve(options.config));
+    });
+
+  const jobs = program
+    .command('jobs')
+    .description('List, pause and resume scheduled jobs and view their runs');
+
+  jobs
+    .command('list')
+    .description('List scheduled jobs with their next and last run')
+    .option('-c, --config <file>', 'Schedules file', SCHEDULES_FILE)
+    .action((options: { config: string }) => {
+      listJobs(options.config);
+    });
+
+  jobs
+    .command('pause')
+    .description('Pause a job; the daemon skips it until resumed')
+    .argument('<name>', 'Job name')
+    .option('-c, --config <file>', 'Schedules file', SCHEDULES_FILE)
+    .action(async (name: string, options: { config: string }) => {
+      await setJobPaused(options.config, name, true);
+    });
+
+  jobs
+    .command('resume')
+    .description('Resume a paused job')
+    .argument('<name>', 'Job name')
+    .option('-c, --config <file>', 'Schedules file', SCHEDULES_FILE)
+    .action(async (name: string, options: { config: string }) => {
+      await setJobPaused(options.config, name, false);
+    });
+
+  jobs
+    .command('runs')
+    .description('Show the run history')
+    .argument('[name]', 'Only show runs of this job')
+    .option('-l, --limit <count>', 'Number of runs to show', '10')
+    .option('-c, --config <file>', 'Schedules file', SCHEDULES_FILE)
+    .action((name: string | undefined, options: { limit: string, config: string }) => {
+      listRuns(options.config, { job: name, limit: parseInt(options.limit, 10) || 10 });
     });
 
   await program.parseAsync(process.argv);
 }
 
-main().catch(console.error);
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -5,6 +5,7 @@ import { zodResponseFormat } from "openai/helpers/zod";
 import OpenAI from 'openai';
 
 import {
+  AlertsConfig,
   ProductResponseSchema,
   SimilarProductsResponseSchema,
   FileDataSchema,
@@ -13,6 +14,8 @@ import {
   zodSimilarProductsSchema
 } from './types';
 import { displayProductDetails, displaySimilarProducts } from './display';
+import { recordPrices, seedHistory } from './history';
+import { evaluateAlerts, PriceAlert, sendPriceAlerts } from './alerts';
 import { z } from 'zod';
 
 export async function searchForProduct(productUrl: string, outputFile: string, apiKey: string, openAiKey?: string) {
@@ -47,13 +50,6 @@ export async function searchForProduct(productUrl: string, outputFile: string, a
     // Display similar products information
     displaySimilarProducts(similarProducts);
 
-    // Prepare the results
-    const results = {
-      originalProduct: productData,
-      similarProducts: similarProducts,
-      lastUpdated: new Date().toISOString()
-    };
-
     // Check if the file exists and is not empty
     spinner.start(`Saving results to ${outputFile}`);
     let existingData: FileDataSchema = {};
@@ -67,6 +63,16 @@ export async function searchForProduct(productUrl: string, outputFile: string, a
       }
     }
 
+    // Prepare the results, continuing the price history if this product was searched before
+    const lastUpdated = new Date().toISOString();
+    const previous = existingData[productUrl] ? seedHistory(productUrl, existingData[productUrl]) : undefined;
+    const results = {
+      originalProduct: productData,
+      similarProducts: similarProducts,
+      lastUpdated,
+      priceHistory: recordPrices(productUrl, productData, similarProducts, lastUpdated, previous)
+    };
+
     // Merge with existing data or create new file
     const updatedResults = { ...existingData, [productUrl]: results };
     fs.writeFileSync(outputFile, JSON.stringify(updatedResults, null, 2));
@@ -77,7 +83,7 @@ export async function searchForProduct(productUrl: string, outputFile: string, a
   }
 }
 
-export async function refreshProductInfo(filePath: string, apiKey: string, openAiKey?: string) {
+export async function refreshProductInfo(filePath: string, apiKey: string, openAiKey?: string, alertsConfig?: AlertsConfig): Promise<boolean> {
   // Create a single spinner instance to reuse
   const spinner = ora(`Reading product information from ${filePath}`).start();
 
@@ -87,7 +93,7 @@ export async function refreshProductInfo(filePath: string, apiKey: string, openA
     // 1. Read the product data from the file
     if (!fs.existsSync(filePath)) {
       spinner.fail(`File not found: ${filePath}`);
-      return;
+      return false;
     }
 
     const fileContent = fs.readFileSync(filePath, 'utf8');
@@ -95,7 +101,7 @@ export async function refreshProductInfo(filePath: string, apiKey: string, openA
 
     if (Object.keys(existingData).length === 0) {
       spinner.fail(`No products found in file: ${filePath}`);
-      return;
+      return false;
     }
 
     spinner.succeed(`Found ${Object.keys(existingData).length} products to refresh`);
@@ -111,15 +117,17 @@ export async function refreshProductInfo(filePath: string, apiKey: string, openA
     } catch (error) {
       spinner.fail('Failed to initialize browser');
       console.error('Error:', error);
-      return;
+      return false;
     }
 
     // 2 & 3. Iterate through each product URL and refresh its data
     const updatedData: FileDataSchema = {};
+    const alerts: PriceAlert[] = [];
     let successCount = 0;
     let failCount = 0;
 
-    for (const [productUrl, productInfo] of Object.entries(existingData)) {
+    for (const [productUrl, storedInfo] of Object.entries(existingData)) {
+      const productInfo = seedHistory(productUrl, storedInfo);
       spinner.start(`Refreshing product information for: ${productUrl}`);
 
       // Display original product information
@@ -127,16 +135,30 @@ export async function refreshProductInfo(filePath: string, apiKey: string, openA
       displayProductDetails(productInfo.originalProduct);
 
       try {
+        // Re-read the original so its price is tracked too; keep the stored one if the page can't be read
+        let originalProduct = productInfo.originalProduct;
+        try {
+          originalProduct = (await extractProductData(client, productUrl)) || originalProduct;
+        } catch (error) {
+          console.warn(`Could not re-read ${productUrl}, keeping the stored price: ${error}`);
+        }
+
         // Find updated similar products
-        const updatedSimilarProducts = await findSimilarProducts(client, productInfo.originalProduct, openAiKey);
+        const updatedSimilarProducts = await findSimilarProducts(client, originalProduct, openAiKey);
 
         // Update the entry
+        const lastUpdated = new Date().toISOString();
         updatedData[productUrl] = {
-          originalProduct: productInfo.originalProduct,
+          originalProduct,
           similarProducts: updatedSimilarProducts,
-          lastUpdated: new Date().toISOString()
+          lastUpdated,
+          priceHistory: recordPrices(productUrl, originalProduct, updatedSimilarProducts, lastUpdated, productInfo)
         };
 
+        if (alertsConfig) {
+          alerts.push(...evaluateAlerts(productUrl, productInfo, updatedData[productUrl], alertsConfig.rules));
+        }
+
         spinner.succeed(`Successfully refreshed data for ${productUrl}`);
 
         // Display updated similar products
@@ -157,9 +179,29 @@ export async function refreshProductInfo(filePath: string, apiKey: string, openA
     fs.writeFileSync(filePath, JSON.stringify(updatedData, null, 2));
     spinner.succeed(`Refreshed data saved to ${filePath} (${successCount} success, ${failCount} failed)`);
 
+    // 5. Notify about price changes that matched an alert rule
+    if (alertsConfig) {
+      if (alerts.length === 0) {
+        console.log('🔕 No price alerts triggered');
+      } else {
+        console.log(`\n🔔 ${alerts.length} price alert${alerts.length === 1 ? '' : 's'}:`);
+        alerts.forEach(alert => console.log(`  • ${alert.message}`));
+        spinner.start('Sending price alerts...');
+        const errors = await sendPriceAlerts(alertsConfig, alerts);
+        if (errors.length) {
+          spinner.fail(`Some price alerts could not be delivered:\n  ${errors.join('\n  ')}`);
+        } else {
+          spinner.succeed('Price alerts sent');
+        }
+      }
+    }
+
+    return failCount === 0;
+
   } catch (error) {
     spinner.fail('Error during product refresh');
     console.error('Error details:', error);
+    return false;
   }
 }
 
@@ -2,111 +2,317 @@ import fs from 'fs';
 import path from 'path';
 import { spawn } from 'child_process';
 import ora from 'ora';
+import { CronExpressionParser } from 'cron-parser';
 
-export async function setupCronJob(options: { file: string, interval: string }, apiKey: string) {
-  const spinner = ora('Setting up scheduled task...').start();
+import { JOB_NAME_PATTERN, ScheduledRun, ScheduleJob, SchedulesConfig, zodSchedulesConfigSchema } from './types';
+
+// Keep the run history bounded; logs of older runs stay on disk
+const MAX_RUNS = 500;
+// The daemon re-reads the schedules file at least this often, so pause/resume apply without a restart
+const RELOAD_INTERVAL_MS = 60_000;
+
+export function loadSchedules(configFile: string): SchedulesConfig {
+  if (!fs.existsSync(configFile)) {
+    return { jobs: [] };
+  }
+  const parsed = zodSchedulesConfigSchema.safeParse(JSON.parse(fs.readFileSync(configFile, 'utf8')));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`Invalid schedules file ${configFile}:\n  ${issues.join('\n  ')}`);
+  }
+  return parsed.data;
+}
+
+function saveSchedules(configFile: string, config: SchedulesConfig) {
+  fs.writeFileSync(configFile, JSON.stringify(config, null, 2));
+}
+
+function runsFile(configFile: string): string {
+  return path.join(path.dirname(configFile), 'schedule-runs.json');
+}
+
+export function loadRuns(configFile: string): ScheduledRun[] {
+  const file = runsFile(configFile);
+  return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : [];
+}
+
+function recordRun(configFile: string, run: ScheduledRun) {
+  const runs = [...loadRuns(configFile), run].slice(-MAX_RUNS);
+  fs.writeFileSync(runsFile(configFile), JSON.stringify(runs, null, 2));
+}
+
+function nextRun(job: ScheduleJob, after: Date): Date {
+  return CronExpressionParser.parse(job.interval, { currentDate: after }).next().toDate();
+}
+
+export async function addScheduledJob(
+  configFile: string,
+  options: { name?: string, file: string, interval: string, alerts?: string }
+) {
+  const spinner = ora('Saving scheduled job...').start();
 
   try {
-    // Get absolute paths
-    const scriptPath = path.resolve(__dirname, '..');
-    const filePath = path.resolve(options.file);
+    try {
+      CronExpressionParser.parse(options.interval);
+    } catch (error) {
+      spinner.fail(`Invalid cron expression "${options.interval}": ${error instanceof Error ? error.message : error}`);
+      return;
+    }
 
-    // Create the script to run
-    const scriptContent = createCronScript(scriptPath, options, apiKey);
-    const scriptFilePath = path.join(scriptPath, 'run-scheduled-task.sh');
+    if (options.name && !JOB_NAME_PATTERN.test(options.name)) {
+      spinner.fail(`Invalid job name "${options.name}": use only letters, digits, "_", "." and "-"`);
+      return;
+    }
 
-    fs.writeFileSync(scriptFilePath, scriptContent);
-    fs.chmodSync(scriptFilePath, '755'); // Make executable
+    const job: ScheduleJob = {
+      name: options.name || path.basename(options.file, path.extname(options.file)).replace(/[^\w.-]+/g, '-'),
+      interval: options.interval,
+      // Absolute, so the daemon can be started from any directory
+      file: path.resolve(options.file),
+      ...(options.alerts ? { alerts: path.resolve(options.alerts) } : {}),
+      paused: false
+    };
 
-    spinner.succeed('Created task script at ' + scriptFilePath);
+    const config = loadSchedules(configFile);
+    const existing = config.jobs.findIndex(j => j.name === job.name);
+    if (existing >= 0) {
+      config.jobs[existing] = job;
+    } else {
+      config.jobs.push(job);
+    }
+    saveSchedules(configFile, config);
 
-    // Add to crontab
-    spinner.start('Adding task to crontab...');
+    spinner.succeed(`Job "${job.name}" ${existing >= 0 ? 'updated' : 'scheduled'}: ${job.interval} (next run ${nextRun(job, new Date()).toLocaleString()})`);
+    console.log('Jobs run while the scheduler daemon is running: product-finder daemon');
+  } catch (error) {
+    spinner.fail('Error saving scheduled job');
+    console.error('Error details:', error);
+  }
+}
 
-    const cronCommand = `(crontab -l 2>/dev/null || echo "") | grep -v "${scriptFilePath}" | cat - <(echo "${options.interval} ${scriptFilePath}") | crontab -`;
+export async function removeScheduledJob(configFile: string, name: string) {
+  const spinner = ora(`Removing scheduled job "${name}"...`).start();
 
-    const process = spawn('bash', ['-c', cronCommand]);
+  try {
+    const config = loadSchedules(configFile);
+    if (!config.jobs.some(job => job.name === name)) {
+      spinner.info(`No scheduled job named "${name}". Nothing to remove.`);
+      return;
+    }
+    config.jobs = config.jobs.filter(job => job.name !== name);
+    saveSchedules(configFile, config);
+    spinner.succeed(`Job "${name}" removed`);
+  } catch (error) {
+    spinner.fail('Error removing scheduled job');
+    console.error('Error details:', error);
+  }
+}
 
-    process.on('close', (code) => {
-      if (code === 0) {
-        spinner.succeed(`Task scheduled! Will run: ${options.interval}`);
-      } else {
-        spinner.fail('Failed to add cron job. You may need to add it manually.');
-        console.log(`Add this line to your crontab: ${options.interval} ${scriptFilePath}`);
-      }
-    });
+export async function setJobPaused(configFile: string, name: string, paused: boolean) {
+  const spinner = ora(`${paused ? 'Pausing' : 'Resuming'} job "${name}"...`).start();
 
+  try {
+    const config = loadSchedules(configFile);
+    const job = config.jobs.find(j => j.name === name);
+    if (!job) {
+      spinner.fail(`No scheduled job named "${name}"`);
+      process.exitCode = 1;
+      return;
+    }
+    job.paused = paused;
+    saveSchedules(configFile, config);
+    spinner.succeed(paused
+      ? `Job "${name}" paused`
+      : `Job "${name}" resumed (next run ${nextRun(job, new Date()).toLocaleString()})`);
   } catch (error) {
-    spinner.fail('Error setting up cron job');
+    spinner.fail(`Error ${paused ? 'pausing' : 'resuming'} job`);
     console.error('Error details:', error);
   }
 }
 
-export async function removeCronJob(options: { deleteScript: boolean }) {
-  const spinner = ora('Removing scheduled task...').start();
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+export function listJobs(configFile: string) {
+  const config = loadSchedules(configFile);
+  const runs = loadRuns(configFile);
+
+  console.log('\n🗓️ Scheduled Jobs:');
+  console.log('='.repeat(50));
+  if (config.jobs.length === 0) {
+    console.log('No jobs scheduled. Add one with: product-finder schedule');
+  }
+  for (const job of config.jobs) {
+    const last = [...runs].reverse().find(run => run.job === job.name);
+    console.log(`\n${job.paused ? '⏸️' : '▶️'}  ${job.name} (${job.paused ? 'paused' : 'active'})`);
+    console.log(`⏰ Schedule: ${job.interval}${job.paused ? '' : ` · next run ${nextRun(job, new Date()).toLocaleString()}`}`);
+    console.log(`📄 File: ${job.file}`);
+    if (job.alerts) console.log(`🔔 Alerts: ${job.alerts}`);
+    if (last) {
+      console.log(`${last.status === 'success' ? '✅' : '❌'} Last run: ${new Date(last.startedAt).toLocaleString()} · ${last.status}`);
+    } else {
+      console.log('🕓 Last run: never');
+    }
+  }
+  console.log('='.repeat(50));
+}
+
+export function listRuns(configFile: string, options: { job?: string, limit: number }) {
+  const runs = loadRuns(configFile).filter(run => !options.job || run.job === options.job).slice(-options.limit);
+
+  console.log(`\n📜 Recent Runs${options.job ? ` of "${options.job}"` : ''}:`);
+  console.log('='.repeat(50));
+  if (runs.length === 0) {
+    console.log('No runs recorded yet.');
+  }
+  for (const run of runs.reverse()) {
+    const duration = formatDuration(Date.parse(run.finishedAt) - Date.parse(run.startedAt));
+    const exit = run.exitCode === null ? 'killed' : `exit ${run.exitCode}`;
+    console.log(`${run.status === 'success' ? '✅' : '❌'} ${new Date(run.startedAt).toLocaleString()} · ${run.job} · ${duration} · ${exit}`);
+    console.log(`   📝 ${run.log}`);
+  }
+  console.log('='.repeat(50));
+}
+
+// Runs the job as a child `refresh` process so a crash fails the run, not the daemon.
+// The child inherits the daemon's environment, which already holds the secrets from .env.
+function runJob(configFile: string, job: ScheduleJob): Promise<ScheduledRun> {
+  const startedAt = new Date();
+  const logDir = path.join(path.dirname(configFile), 'logs', 'scheduler');
+  fs.mkdirSync(logDir, { recursive: true });
+  const log = path.join(logDir, `${job.name}-${startedAt.toISOString().replace(/[:.]/g, '-')}.log`);
+  const output = fs.createWriteStream(log);
+  // A log that can't be written must not take the daemon down with it
+  output.on('error', error => console.error(`⚠️  Could not write ${log}: ${error.message}`));
+
+  const args = [path.join(__dirname, 'index.js'), 'refresh', '--file', job.file];
+  if (job.alerts) args.push('--alerts', job.alerts);
+
+  return new Promise(resolve => {
+    const child = spawn(process.execPath, args, { env: process.env, stdio: ['ignore', 'pipe', 'pipe'] });
+    child.stdout.pipe(output, { end: false });
+    child.stderr.pipe(output, { end: false });
+
+    const finish = (exitCode: number | null, error?: Error) => {
+      if (error) output.write(`\nFailed to start: ${error.message}\n`);
+      output.end();
+      resolve({
+        job: job.name,
+        startedAt: startedAt.toISOString(),
+        finishedAt: new Date().toISOString(),
+        status: exitCode === 0 ? 'success' : 'failed',
+        exitCode,
+        log
+      });
+    };
+    child.on('error', error => finish(null, error));
+    child.on('close', code => finish(code));
+  });
+}
+
+// Runs jobs on their cron schedules until SIGINT/SIGTERM. Jobs run one at a time;
+// a slot missed while another job was running (or while paused) is skipped, not replayed.
+export async function runDaemon(configFile: string) {
+  console.log(`🗓️ Scheduler started · jobs from ${configFile}`);
+
+  let config = loadSchedules(configFile);
+  // The time each job's next run is computed from
+  const since = new Map<string, Date>();
+
+  let stopping = false;
+  let wake: (() => void) | undefined;
+  const stop = () => {
+    if (stopping) return;
+    stopping = true;
+    console.log('\n⏹  Stopping after the current run...');
+    wake?.();
+  };
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+
+  while (!stopping) {
+    try {
+      config = loadSchedules(configFile);
+    } catch (error) {
+      // Keep the last good schedule while the file is being edited
+      console.error(`⚠️  ${error instanceof Error ? error.message : error}; keeping the previous schedule`);
+    }
+
+    const now = new Date();
+    let due: ScheduleJob | undefined;
+    let wakeAt = now.getTime() + RELOAD_INTERVAL_MS;
+    for (const job of config.jobs) {
+      if (job.paused || !since.has(job.name)) {
+        since.set(job.name, now);
+        if (job.paused) continue;
+      }
+      let next: Date;
+      try {
+        next = nextRun(job, since.get(job.name)!);
+      } catch (error) {
+        console.error(`⚠️  Job "${job.name}" has an invalid schedule "${job.interval}", skipping it`);
+        continue;
+      }
+      if (next <= now && !due) {
+        due = job;
+      } else {
+        wakeAt = Math.min(wakeAt, next.getTime());
+      }
+    }
+
+    if (!due) {
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, Math.max(wakeAt - Date.now(), 0));
+        wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      wake = undefined;
+      continue;
+    }
+
+    console.log(`${new Date().toLocaleString()} ▶️  Running "${due.name}"...`);
+    const run = await runJob(configFile, due);
+    since.set(due.name, new Date());
+    recordRun(configFile, run);
+    const duration = formatDuration(Date.parse(run.finishedAt) - Date.parse(run.startedAt));
+    console.log(`${new Date().toLocaleString()} ${run.status === 'success' ? '✅' : '❌'} "${due.name}" ${run.status} in ${duration} · log: ${run.log}`);
+  }
+}
+
+// Earlier versions scheduled refreshes through crontab with a generated shell
+// script that contained the API key; this removes both.
+export async function removeLegacyCronJob() {
+  const spinner = ora('Removing legacy crontab task...').start();
 
   try {
-    // Find the script path
-    const scriptPath = path.resolve(__dirname, '..');
-    const scriptFilePath = path.join(scriptPath, 'run-scheduled-task.sh');
+    const scriptFilePath = path.join(path.resolve(__dirname, '..'), 'run-scheduled-task.sh');
 
     if (!fs.existsSync(scriptFilePath)) {
-      spinner.info('No scheduled task script found. Nothing to remove.');
+      spinner.info('No legacy task script found. Nothing to remove.');
       return;
     }
 
-    // Remove from crontab
-    spinner.text = 'Removing task from crontab...';
-
     const cronCommand = `(crontab -l 2>/dev/null || echo "") | grep -v "${scriptFilePath}" | crontab -`;
 
     const process = spawn('bash', ['-c', cronCommand]);
 
     process.on('close', (code) => {
+      if (code !== 0) {
+        spinner.warn('Could not update crontab. Run `crontab -e` and remove the line containing: ' + scriptFilePath);
+      }
+      // The script holds the API key in plain text, so it goes either way
+      fs.unlinkSync(scriptFilePath);
       if (code === 0) {
-        spinner.succeed('Task removed from crontab');
-
-        // Delete the script file if requested
-        if (options.deleteScript) {
-          try {
-            fs.unlinkSync(scriptFilePath);
-            console.log(`Script file deleted: ${scriptFilePath}`);
-          } catch (error) {
-            console.error(`Failed to delete script file: ${error}`);
-          }
-        } else {
-          console.log(`Script file remains at: ${scriptFilePath}`);
-          console.log('You can delete it manually or use --delete-script flag next time');
-        }
-      } else {
-        spinner.fail('Failed to remove cron job. You may need to remove it manually.');
-        console.log('To manually remove, run: crontab -e');
-        console.log(`And remove the line containing: ${scriptFilePath}`);
+        spinner.succeed(`Legacy task removed from crontab and ${scriptFilePath} deleted`);
       }
     });
 
   } catch (error) {
-    spinner.fail('Error removing cron job');
+    spinner.fail('Error removing legacy cron job');
     console.error('Error details:', error);
   }
 }
-
-// Helper function to create the shell script content
-function createCronScript(basePath: string, options: { file: string }, apiKey: string) {
-  const nodeExecPath = process.execPath; // Path to the current Node.js executable
-  const indexPath = path.join(basePath, 'dist/index.js');
-
-  let command = `${nodeExecPath} ${indexPath} refresh --file "${options.file}"`;
-
-  return `#!/bin/bash
-# Auto-generated script for product finder scheduled task
-# Created: ${new Date().toISOString()}
-
-# Change to the application directory
-cd "${basePath}"
-export HYPERBROWSER_API_KEY=${apiKey}
-
-# Run the command
-${command} >> "${basePath}/scheduled-run.log" 2>&1
-`;
-} 
\ No newline at end of file
@@ -22,10 +22,78 @@ export const zodSimilarProductsArraySchema = z.object({
 export type ProductResponseSchema = z.infer<typeof zodProductSchema>;
 export type SimilarProductsResponseSchema = z.infer<typeof zodSimilarProductsArraySchema>;
 
+// One observation of a product's price, recorded on every search/refresh
+export type PricePoint = {
+  date: string;
+  price: number;
+  salePrice?: number;
+};
+
+export type PriceSeries = {
+  name: string;
+  points: PricePoint[];
+};
+
 export type FileDataSchema = {
   [key: string]: {
     originalProduct: ProductResponseSchema;
     similarProducts: SimilarProductsResponseSchema['products'];
     lastUpdated: string;
+    // Keyed by product link; the original product is keyed by its own URL.
+    // Optional so files written before price tracking still load.
+    priceHistory?: { [link: string]: PriceSeries };
   };
-}; 
\ No newline at end of file
+};
+
+// Alert rules, read from the alerts file
+export const zodAlertRuleSchema = z.discriminatedUnion('type', [
+  // Price fell by at least `amount` dollars since the previous refresh
+  z.object({ type: z.literal('priceDrop'), amount: z.number().positive(), url: z.string().optional() }),
+  // Price fell by at least `percent` % since the previous refresh
+  z.object({ type: z.literal('percentDrop'), percent: z.number().positive().max(100), url: z.string().optional() }),
+  // A product that was not on sale at the previous refresh is now
+  z.object({ type: z.literal('onSale'), url: z.string().optional() }),
+  // A similar product is cheaper than the original by `minSavings` and was not at the previous refresh
+  z.object({ type: z.literal('cheaperAlternative'), minSavings: z.number().nonnegative().default(0), url: z.string().optional() })
+]);
+
+export const zodAlertsConfigSchema = z.object({
+  rules: z.array(zodAlertRuleSchema).min(1),
+  notify: z.object({
+    email: z.array(z.string().email()).default([]),
+    webhook: z.array(z.string().url()).default([])
+  })
+});
+
+export type AlertRule = z.infer<typeof zodAlertRuleSchema>;
+export type AlertsConfig = z.infer<typeof zodAlertsConfigSchema>;
+
+// Scheduled jobs, read from the schedules file by the daemon
+export const JOB_NAME_PATTERN = /^[\w.-]+$/;
+
+export const zodScheduleJobSchema = z.object({
+  // Used in log file names, so no path separators or spaces
+  name: z.string().regex(JOB_NAME_PATTERN, 'Job names may only contain letters, digits, "_", "." and "-"'),
+  // Cron expression, e.g. "0 */6 * * *"
+  interval: z.string().min(1),
+  file: z.string().min(1),
+  alerts: z.string().optional(),
+  paused: z.boolean().default(false)
+});
+
+export const zodSchedulesConfigSchema = z.object({
+  jobs: z.array(zodScheduleJobSchema).default([])
+});
+
+export type ScheduleJob = z.infer<typeof zodScheduleJobSchema>;
+export type SchedulesConfig = z.infer<typeof zodSchedulesConfigSchema>;
+
+export type ScheduledRun = {
+  job: string;
+  startedAt: string;
+  finishedAt: string;
+  status: 'success' | 'failed';
+  exitCode: number | null;
+  // File holding everything the run printed
+  log: string;
+};
@@ -3,8 +3,11 @@ import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
 import { Hyperbrowser } from '@hyperbrowser/sdk';
 import * as cheerio from 'cheerio';
+import { marked } from 'marked';
+import { countTokens } from 'gpt-tokenizer';
 import * as fs from 'fs';
 import * as path from 'path';
+import { createHash } from 'crypto';
 import { createReadStream } from 'fs';
 import { createInterface } from 'readline';
 
@@ -13,9 +16,62 @@ interface Chunk {
   tokens: number;
   source: string;
   rank: number;
+  // Hash of the chunk as scraped (before compression), used for the changelog
+  hash: string;
+  // Headings the chunk sits under, e.g. "Guide > Install > Linux"
+  breadcrumb: string;
+  // Set when packing for a --query
+  relevance?: number;
+  bm25?: number;
+  similarity?: number;
+  embedding?: number[];
 }
 
-const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+type EmbedProvider = 'openai' | 'local';
+
+interface QueryOptions {
+  query: string;
+  embed?: EmbedProvider;
+  embedModel?: string;
+  embedUrl: string;
+}
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Share of the relevance score taken from embedding similarity when embeddings are on
+const EMBEDDING_WEIGHT = 0.6;
+const EMBED_BATCH_SIZE = 64;
+// Cache index entry: the URL's current content lives in objects/<hash>.md
+interface CacheEntry {
+  hash: string;
+  fetchedAt: string;
+  etag?: string;
+  lastModified?: string;
+}
+
+interface CacheIndex {
+  [url: string]: CacheEntry;
+}
+
+interface ManifestEntry {
+  source: string;
+  hash: string;
+  tokens: number;
+}
+
+interface Manifest {
+  generated_at: string;
+  urls: string[];
+  chunks: ManifestEntry[];
+}
+
+const DEFAULT_EMBED_MODELS: Record<EmbedProvider, string> = {
+  openai: 'text-embedding-3-small',
+  local: 'nomic-embed-text'
+};
+
+
+const sha256 = (text: string): string => createHash('sha256').update(text).digest('hex');
 
 const progressBar = (current: number, total: number): string => {
   const percent = current / total;
@@ -47,51 +103,117 @@ const cleanHtml = (html: string, url: string): string[] => {
     .filter((seg, idx, arr) => arr.indexOf(seg) === idx);
 };
 
-const createChunks = (segments: string[], url: string): Chunk[] => {
+// Chunks never mix sections and never split these blocks
+const ATOMIC_BLOCKS = new Set(['code', 'table']);
+const MAX_CHUNK_TOKENS = 800;
+const MIN_CHUNK_TOKENS = 10;
+// Deeper headings stay in the chunk text instead of the breadcrumb
+const BREADCRUMB_DEPTH = 3;
+
+interface Block {
+  text: string;
+  tokens: number;
+  atomic: boolean;
+}
+
+// Splits an oversized paragraph or list by lines, then sentences, then words
+const splitText = (text: string, maxTokens: number): string[] => {
+  const separators: [RegExp, string][] = [[/\n/, '\n'], [/(?<=[.!?])\s+/, ' '], [/\s+/, ' ']];
+  for (const [pattern, joiner] of separators) {
+    const pieces = text.split(pattern).filter(piece => piece.trim());
+    if (pieces.length < 2) continue;
+    const parts: string[] = [];
+    let current = '';
+    for (const piece of pieces) {
+      const combined = current ? `${current}${joiner}${piece}` : piece;
+      if (current && countTokens(combined) > maxTokens) {
+        parts.push(current);
+        current = piece;
+      } else {
+        current = combined;
+      }
+    }
+    if (current) parts.push(current);
+    return parts.flatMap(part => countTokens(part) > maxTokens && part !== text ? splitText(part, maxTokens) : [part]);
+  }
+  return [text];
+};
+
+const createChunks = (markdown: string, url: string): Chunk[] => {
   const chunks: Chunk[] = [];
-  let current = '';
+  const headings: string[] = [];
+  let breadcrumb = '';
+  let blocks: Block[] = [];
   let chunkId = 0;
-  
-  for (const segment of segments) {
-    const combined = current ? `${current}\n\n${segment}` : segment;
-    const tokens = estimateTokens(combined);
-    const currentTokens = estimateTokens(current);
-    
-    if (tokens <= 800 && current) {
-      current = combined;
+
+  const flush = () => {
+    if (blocks.length === 0) return;
+    const content = blocks.map(b => b.text).join('\n\n');
+    const tokens = countTokens(content);
+    // Tiny chunks are usually navigation leftovers, but a short code sample or table is worth keeping
+    if (tokens >= MIN_CHUNK_TOKENS || blocks.some(b => b.atomic)) {
+      chunks.push({
+        content,
+        tokens,
+        source: `${url}#chunk${chunkId}`,
+        rank: content.split(/\s+/).length,
+        hash: sha256(`${breadcrumb}\n${content}`),
+        breadcrumb
+      });
+      chunkId++;
+    }
+    blocks = [];
+  };
+
+  const add = (block: Block) => {
+    const used = blocks.reduce((sum, b) => sum + b.tokens, 0);
+    if (blocks.length && used + block.tokens > MAX_CHUNK_TOKENS) flush();
+    blocks.push(block);
+    // An atomic block larger than the limit becomes a chunk of its own
+    if (block.tokens > MAX_CHUNK_TOKENS) flush();
+  };
+
+  // Front matter would otherwise parse as a setext heading
+  const body = markdown.replace(/^---\n[\s\S]*?\n---\n/, '');
+
+  for (const token of marked.lexer(body)) {
+    if (token.type === 'heading' && token.depth <= BREADCRUMB_DEPTH) {
+      flush();
+      headings.length = token.depth - 1;
+      headings[token.depth - 1] = token.text.replace(/[*_`]/g, '').trim();
+      breadcrumb = headings.filter(Boolean).join(' > ');
+      continue;
+    }
+    if (token.type === 'space' || token.type === 'hr' || token.type === 'def') continue;
+
+    const text = token.raw.trim();
+    if (text.length < 10) continue;
+    const atomic = ATOMIC_BLOCKS.has(token.type);
+    const tokens = countTokens(text);
+    if (atomic || tokens <= MAX_CHUNK_TOKENS) {
+      add({ text, tokens, atomic });
     } else {
-      if (current && currentTokens >= 20) {
-        chunks.push({
-          content: current,
-          tokens: currentTokens,
-          source: `${url}#chunk${chunkId}`,
-          rank: current.split(/\s+/).length
-        });
-        chunkId++;
-      }
-      current = segment;
+      for (const part of splitText(text, MAX_CHUNK_TOKENS)) add({ text: part, tokens: countTokens(part), atomic: false });
     }
   }
-  
-  const finalTokens = estimateTokens(current);
-  if (current && finalTokens >= 20) {
-    chunks.push({
-      content: current,
-      tokens: finalTokens,
-      source: `${url}#chunk${chunkId}`,
-      rank: current.split(/\s+/).length
-    });
-  }
+  flush();
+
   return chunks;
 };
 
+// What ranking sees: the section path carries meaning the chunk text often lacks
+const searchText = (chunk: Chunk): string => chunk.breadcrumb ? `${chunk.breadcrumb}\n${chunk.content}` : chunk.content;
+
+const tokenize = (text: string, minLength = 3): string[] =>
+  text.toLowerCase()
+    .replace(/[^\w\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length >= minLength);
+
 const calculateTfIdf = (chunks: Chunk[]): void => {
   const vocabulary = new Set<string>();
   const chunkWords = chunks.map(chunk => {
-    const words = chunk.content.toLowerCase()
-      .replace(/[^\w\s]/g, ' ')
-      .split(/\s+/)
-      .filter(word => word.length > 2);
+    const words = tokenize(chunk.content);
     words.forEach(word => vocabulary.add(word));
     return words;
   });
@@ -122,6 +244,147 @@ const calculateTfIdf = (chunks: Chunk[]): void => {
   });
 };
 
+// Okapi BM25 of each chunk against the query, normalised to 0-1 by the best chunk
+const scoreBm25 = (chunks: Chunk[], query: string): void => {
+  // Short terms carry the meaning of queries like "AI safety" or "Go vs JS", so keep them here
+  const queryTerms = [...new Set(tokenize(query, 1))];
+  if (queryTerms.length === 0) {
+    console.warn(`[SCORE] Warning: no searchable terms in query "${query}", chunks are selected by diversity alone`);
+  }
+  const chunkWords = chunks.map(chunk => tokenize(searchText(chunk), 1));
+  const N = chunks.length;
+  const avgLength = chunkWords.reduce((sum, words) => sum + words.length, 0) / Math.max(N, 1);
+
+  const idf: Record<string, number> = {};
+  for (const term of queryTerms) {
+    const docCount = chunkWords.filter(words => words.includes(term)).length;
+    idf[term] = Math.log(1 + (N - docCount + 0.5) / (docCount + 0.5));
+  }
+
+  const raw = chunkWords.map(words => {
+    const counts: Record<string, number> = {};
+    words.forEach(word => { counts[word] = (counts[word] || 0) + 1; });
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = counts[term] || 0;
+      if (tf === 0) continue;
+      score += idf[term] * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * words.length / avgLength));
+    }
+    return score;
+  });
+
+  const max = Math.max(...raw, 0);
+  chunks.forEach((chunk, idx) => {
+    chunk.bm25 = max > 0 ? raw[idx] / max : 0;
+  });
+};
+
+const cosine = (a: number[], b: number[]): number => {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+const jaccard = (a: string, b: string): number => {
+  const wordsA = new Set(tokenize(a));
+  const wordsB = new Set(tokenize(b));
+  const intersection = [...wordsA].filter(x => wordsB.has(x)).length;
+  const union = new Set([...wordsA, ...wordsB]).size;
+  return union ? intersection / union : 0;
+};
+
+// Embeds the query and every chunk. "local" talks to an OpenAI-compatible
+// embeddings endpoint such as Ollama's, so no key leaves the machine.
+const embedChunks = async (chunks: Chunk[], options: QueryOptions): Promise<number[] | undefined> => {
+  const provider = options.embed!;
+  if (provider === 'openai' && !process.env.OPENAI_API_KEY) {
+    console.log('[EMBED] OPENAI_API_KEY not found, ranking with BM25 only');
+    return undefined;
+  }
+
+  try {
+    const { default: OpenAI } = await import('openai');
+    const client = provider === 'openai'
+      ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
+      : new OpenAI({ apiKey: process.env.LOCAL_EMBED_API_KEY || 'local', baseURL: options.embedUrl });
+    const model = options.embedModel || DEFAULT_EMBED_MODELS[provider];
+
+    const inputs = [options.query, ...chunks.map(searchText)];
+    const vectors: number[][] = [];
+    for (let i = 0; i < inputs.length; i += EMBED_BATCH_SIZE) {
+      process.stdout.write(`\r[EMBED] ${progressBar(Math.min(i + EMBED_BATCH_SIZE, inputs.length), inputs.length)} ${model}`);
+      const response = await client.embeddings.create({ model, input: inputs.slice(i, i + EMBED_BATCH_SIZE) });
+      vectors.push(...response.data.sort((a, b) => a.index - b.index).map(d => d.embedding));
+    }
+    console.log('');
+
+    chunks.forEach((chunk, idx) => {
+      chunk.embedding = vectors[idx + 1];
+    });
+    return vectors[0];
+  } catch (error) {
+    console.log(`\n[EMBED] Embedding with ${provider} failed, ranking with BM25 only: ${error}`);
+    chunks.forEach(chunk => { delete chunk.embedding; });
+    return undefined;
+  }
+};
+
+// Final relevance of chunks already scored by BM25: blended with embedding similarity when available
+const scoreRelevance = async (chunks: Chunk[], options: QueryOptions): Promise<string> => {
+  const queryEmbedding = options.embed ? await embedChunks(chunks, options) : undefined;
+
+  for (const chunk of chunks) {
+    if (queryEmbedding && chunk.embedding) {
+      chunk.similarity = Math.max(0, cosine(queryEmbedding, chunk.embedding));
+      chunk.relevance = EMBEDDING_WEIGHT * chunk.similarity + (1 - EMBEDDING_WEIGHT) * chunk.bm25!;
+    } else {
+      chunk.relevance = chunk.bm25!;
+    }
+    chunk.rank = chunk.relevance;
+  }
+  return queryEmbedding ? `bm25+${options.embed}` : 'bm25';
+};
+
+// Maximal marginal relevance: repeatedly takes the chunk that best trades
+// relevance against similarity to what is already selected, among the chunks
+// that still fit the budget. lambda 1 is pure relevance, lower values favour
+// covering more of the sources.
+const selectMmr = (chunks: Chunk[], budget: number, lambda: number): Chunk[] => {
+  const remaining = chunks.filter(c => c.tokens <= budget);
+  const selected: Chunk[] = [];
+  const maxSimilarity = new Map<Chunk, number>(remaining.map(c => [c, 0]));
+  let used = 0;
+
+  while (remaining.length) {
+    let best = -1;
+    let bestScore = -Infinity;
+    remaining.forEach((chunk, idx) => {
+      if (used + chunk.tokens > budget) return;
+      const score = lambda * chunk.relevance! - (1 - lambda) * maxSimilarity.get(chunk)!;
+      if (score > bestScore) {
+        bestScore = score;
+        best = idx;
+      }
+    });
+    if (best < 0) break;
+
+    const [chosen] = remaining.splice(best, 1);
+    selected.push(chosen);
+    used += chosen.tokens;
+    for (const chunk of remaining) {
+      const similarity = chosen.embedding && chunk.embedding
+        ? Math.max(0, cosine(chosen.embedding, chunk.embedding))
+        : jaccard(chosen.content, chunk.content);
+      maxSimilarity.set(chunk, Math.max(maxSimilarity.get(chunk)!, similarity));
+    }
+  }
+  return selected;
+};
+
 const deduplicateChunks = (chunks: Chunk[]): Chunk[] => {
   const kept: Chunk[] = [];
   
@@ -182,7 +445,7 @@ const compressWithOpenAI = async (chunks: Chunk[]): Promise<Chunk[]> => {
           compressed.push({
             ...chunks[i],
             content: result,
-            tokens: estimateTokens(result)
+            tokens: countTokens(result)
           });
         } else {
           compressed.push(chunks[i]);
@@ -215,6 +478,134 @@ const readUrlsFromFile = async (filePath: string): Promise<string[]> => {
   return urls;
 };
 
+const parseTtl = (ttl: string): number => {
+  const match = /^(\d+(?:\.\d+)?)\s*(s|m|h|d)?$/.exec(ttl.trim());
+  if (!match) throw new Error(`Invalid --ttl "${ttl}", expected e.g. 30m, 24h or 7d`);
+  const unit = { s: 1_000, m: 60_000, h: 3_600_000, d: 86_400_000 }[(match[2] || 's') as 's' | 'm' | 'h' | 'd'];
+  return Number(match[1]) * unit;
+};
+
+const loadCacheIndex = (cacheDir: string): CacheIndex => {
+  const file = path.join(cacheDir, 'index.json');
+  return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : {};
+};
+
+// Writes the index and drops objects no URL points at any more
+const saveCache = (cacheDir: string, index: CacheIndex): void => {
+  fs.mkdirSync(path.join(cacheDir, 'objects'), { recursive: true });
+  fs.writeFileSync(path.join(cacheDir, 'index.json'), JSON.stringify(index, null, 2));
+  const live = new Set(Object.values(index).map(entry => `${entry.hash}.md`));
+  for (const file of fs.readdirSync(path.join(cacheDir, 'objects'))) {
+    if (!live.has(file)) fs.unlinkSync(path.join(cacheDir, 'objects', file));
+  }
+};
+
+const readCachedContent = (cacheDir: string, entry: CacheEntry): string | undefined => {
+  const file = path.join(cacheDir, 'objects', `${entry.hash}.md`);
+  return fs.existsSync(file) ? fs.readFileSync(file, 'utf8') : undefined;
+};
+
+const storeContent = (cacheDir: string, content: string): string => {
+  const hash = sha256(content);
+  fs.mkdirSync(path.join(cacheDir, 'objects'), { recursive: true });
+  const file = path.join(cacheDir, 'objects', `${hash}.md`);
+  if (!fs.existsSync(file)) fs.writeFileSync(file, content);
+  return hash;
+};
+
+// The scrape API does not expose response headers, so validators come from a HEAD request.
+// Servers that ignore HEAD or send neither header are simply re-scraped once stale.
+const fetchValidators = async (url: string, entry?: CacheEntry): Promise<{ status: number; etag?: string; lastModified?: string } | undefined> => {
+  try {
+    const headers: Record<string, string> = {};
+    if (entry?.etag) headers['If-None-Match'] = entry.etag;
+    if (entry?.lastModified) headers['If-Modified-Since'] = entry.lastModified;
+    const response = await fetch(url, { method: 'HEAD', headers, redirect: 'follow', signal: AbortSignal.timeout(10_000) });
+    return {
+      status: response.status,
+      etag: response.headers.get('etag') || entry?.etag || undefined,
+      lastModified: response.headers.get('last-modified') || entry?.lastModified || undefined
+    };
+  } catch {
+    return undefined;
+  }
+};
+
+type FetchOutcome = 'cached' | 'revalidated' | 'scraped';
+
+// Returns the page's markdown from the cache when it is younger than the TTL or the
+// server confirms it has not changed (304), and scrapes it otherwise.
+const fetchPage = async (
+  hb: Hyperbrowser,
+  url: string,
+  cache: { dir: string; index: CacheIndex; ttlMs: number } | undefined
+): Promise<{ content: string; outcome: FetchOutcome }> => {
+  const entry = cache?.index[url];
+  const cached = cache && entry ? readCachedContent(cache.dir, entry) : undefined;
+  let validators: Awaited<ReturnType<typeof fetchValidators>>;
+
+  if (cache && entry && cached !== undefined) {
+    if (Date.now() - Date.parse(entry.fetchedAt) < cache.ttlMs) {
+      return { content: cached, outcome: 'cached' };
+    }
+    if (entry.etag || entry.lastModified) {
+      validators = await fetchValidators(url, entry);
+      if (validators?.status === 304) {
+        cache.index[url] = { ...entry, fetchedAt: new Date().toISOString(), etag: validators.etag, lastModified: validators.lastModified };
+        return { content: cached, outcome: 'revalidated' };
+      }
+    }
+  }
+
+  // Use official Hyperbrowser scrape method - simple approach like the docs
+  const scrapeResult = await hb.scrape.startAndWait({
+    url: url
+  });
+
+  // Hyperbrowser returns markdown content by default, which is perfect for RAG!
+  const content = scrapeResult.data?.markdown || scrapeResult.data?.html;
+
+  if (!content) {
+    throw new Error('No content returned from scrape');
+  }
+
+  if (cache) {
+    if (!validators || validators.status >= 300) validators = await fetchValidators(url);
+    cache.index[url] = {
+      hash: storeContent(cache.dir, content),
+      fetchedAt: new Date().toISOString(),
+      ...(validators?.etag ? { etag: validators.etag } : {}),
+      ...(validators?.lastModified ? { lastModified: validators.lastModified } : {})
+    };
+  }
+  return { content, outcome: 'scraped' };
+};
+
+const loadManifest = (outputDir: string): Manifest | undefined => {
+  const file = path.join(outputDir, 'manifest.json');
+  return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : undefined;
+};
+
+// Chunks are matched by content first, so a chunk that only moved is unchanged;
+// of the rest, one with the same source as before is "changed".
+const diffPacks = (previous: Manifest, chunks: Chunk[]) => {
+  const previousHashes = new Set(previous.chunks.map(c => c.hash));
+  const currentHashes = new Set(chunks.map(c => c.hash));
+  const fresh = chunks.filter(c => !previousHashes.has(c.hash));
+  const gone = previous.chunks.filter(c => !currentHashes.has(c.hash));
+  const goneSources = new Set(gone.map(c => c.source));
+  const changed = fresh.filter(c => goneSources.has(c.source)).map(c => c.source);
+  const changedSet = new Set(changed);
+
+  return {
+    since: previous.generated_at,
+    added: fresh.filter(c => !changedSet.has(c.source)).map(c => c.source),
+    removed: gone.filter(c => !changedSet.has(c.source)).map(c => c.source),
+    changed,
+    unchanged: chunks.length - fresh.length
+  };
+};
+
 const writeOutputs = (chunks: Chunk[], outputDir: string, format: string, stats: any): void => {
   if (!fs.existsSync(outputDir)) fs.mkdirSync(outputDir, { recursive: true });
   
@@ -225,15 +616,29 @@ const writeOutputs = (chunks: Chunk[], outputDir: string, format: string, stats:
       chunk: c.content,
       tokens: c.tokens,
       source: c.source,
-      rank: Number(c.rank.toFixed(4))
+      rank: Number(c.rank.toFixed(4)),
+      breadcrumb: c.breadcrumb,
+      ...(c.relevance !== undefined ? { relevance: Number(c.relevance.toFixed(4)), bm25: Number(c.bm25!.toFixed(4)) } : {}),
+      ...(c.similarity !== undefined ? { similarity: Number(c.similarity.toFixed(4)) } : {})
     }));
     fs.writeFileSync(path.join(outputDir, 'pack.jsonl'), lines.join('\n'));
   } else {
-    const content = chunks.map(c => `## ${c.source}\n\n${c.content}\n\n---`).join('\n\n');
+    const content = chunks.map(c => {
+      const relevance = c.relevance !== undefined ? ` (relevance ${c.relevance.toFixed(2)})` : '';
+      const section = c.breadcrumb ? `**Section:** ${c.breadcrumb}\n\n` : '';
+      return `## ${c.source}${relevance}\n\n${section}${c.content}\n\n---`;
+    }).join('\n\n');
     fs.writeFileSync(path.join(outputDir, 'pack.md'), content);
   }
   
   fs.writeFileSync(path.join(outputDir, 'stats.json'), JSON.stringify(stats, null, 2));
+
+  const manifest: Manifest = {
+    generated_at: new Date().toISOString(),
+    urls: stats.urls,
+    chunks: chunks.map(c => ({ source: c.source, hash: c.hash, tokens: c.tokens }))
+  };
+  fs.writeFileSync(path.join(outputDir, 'manifest.json'), JSON.stringify(manifest, null, 2));
   
   const citations = [...new Set(chunks.map(c => c.source.split('#')[0]))];
   fs.writeFileSync(path.join(outputDir, 'citations.md'), '# Citations\n\n' + citations.map(url => `- ${url}`).join('\n'));
@@ -247,18 +652,55 @@ async function main() {
     .option('out', { type: 'string', default: 'distill', description: 'Output directory' })
     .option('format', { choices: ['jsonl', 'md'], default: 'jsonl', description: 'Output format' })
     .option('llm', { type: 'boolean', default: false, description: 'Enable OpenAI compression' })
+    .option('query', { type: 'string', description: 'Rank chunks by relevance to this question' })
+    .option('embed', { choices: ['openai', 'local'] as const, description: 'Blend embedding similarity into --query ranking' })
+    .option('embed-model', { type: 'string', description: 'Embedding model (default: text-embedding-3-small for openai, nomic-embed-text for local)' })
+    .option('embed-url', { type: 'string', default: 'http://localhost:11434/v1', description: 'OpenAI-compatible embeddings endpoint for --embed local' })
+    .option('mmr-lambda', { type: 'number', default: 0.7, description: 'Relevance vs. diversity trade-off for --query selection (1 = relevance only)' })
+    .option('cache', { type: 'boolean', default: true, description: 'Reuse scraped pages from the cache (--no-cache to always scrape)' })
+    .option('cache-dir', { type: 'string', default: '.ragzip-cache', description: 'Scrape cache directory' })
+    .option('ttl', { type: 'string', default: '24h', description: 'How long a cached page is used without checking it (e.g. 30m, 24h, 7d)' })
+    .option('refresh', { type: 'boolean', default: false, description: 'Re-pack the URLs of the previous pack in --out, re-scraping only stale pages' })
     .help()
     .argv;
   
+  const previousManifest = loadManifest(argv.out);
+
   let urls: string[] = [];
+  if (argv.refresh) {
+    if (!previousManifest) {
+      console.error(`Error: --refresh needs a previous pack in ${argv.out}`);
+      process.exit(1);
+    }
+    urls.push(...previousManifest.urls);
+  }
   if (argv.url) urls.push(...argv.url);
   if (argv.urls) urls.push(...await readUrlsFromFile(argv.urls));
+  urls = [...new Set(urls)];
   
   if (urls.length === 0) {
     console.error('Error: No URLs provided. Use --url or --urls');
     process.exit(1);
   }
 
+  let ttlMs: number;
+  try {
+    ttlMs = parseTtl(argv.ttl);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  if (argv.embed && !argv.query) {
+    console.error('Error: --embed requires --query');
+    process.exit(1);
+  }
+
+  if (argv['mmr-lambda'] < 0 || argv['mmr-lambda'] > 1) {
+    console.error('Error: --mmr-lambda must be between 0 and 1');
+    process.exit(1);
+  }
+
   if (!process.env.HYPERBROWSER_API_KEY) {
     console.error('Error: HYPERBROWSER_API_KEY environment variable is required');
     process.exit(1);
@@ -267,40 +709,47 @@ async function main() {
   console.log(`[FETCH] Processing ${urls.length} URLs...`);
   
   const hb = new Hyperbrowser({ apiKey: process.env.HYPERBROWSER_API_KEY });
+  const cache = argv.cache ? { dir: argv['cache-dir'], index: loadCacheIndex(argv['cache-dir']), ttlMs } : undefined;
+  const fetched: Record<FetchOutcome | 'failed', number> = { cached: 0, revalidated: 0, scraped: 0, failed: 0 };
   const allChunks: Chunk[] = [];
   
   for (let i = 0; i < urls.length; i++) {
     const url = urls[i];
     process.stdout.write(`\r[FETCH] ${progressBar(i + 1, urls.length)} ${url.slice(0, 50)}...`);
     
+    let content: string | undefined;
     try {
-      // Use official Hyperbrowser scrape method - simple approach like the docs
-      const scrapeResult = await hb.scrape.startAndWait({
-        url: url
-      });
+      const page = await fetchPage(hb, url, cache);
+      content = page.content;
+      fetched[page.outcome]++;
 
-      // Hyperbrowser returns markdown content by default, which is perfect for RAG!
-      const content = scrapeResult.data?.markdown || scrapeResult.data?.html;
-      
-      if (!content) {
-        throw new Error('No content returned from scrape');
+      if (page.outcome === 'scraped') {
+        console.log(`\n    [SUCCESS] Scraped ${content.length} chars from ${url}`);
+      } else {
+        console.log(`\n    [CACHE] ${page.outcome === 'cached' ? 'Fresh in cache' : 'Unchanged (304)'}: ${url}`);
       }
-
-      console.log(`\n    [SUCCESS] Scraped ${content.length} chars from ${url}`);
-
-      // For markdown content, we can split by paragraphs instead of HTML parsing
-      const segments = content.split('\n\n').filter(segment => 
-        segment.trim().length >= 10 && !segment.startsWith('---')
-      );
-      const chunks = createChunks(segments, url);
-      allChunks.push(...chunks);
-      
     } catch (error) {
-      console.log(`\n[FETCH] Scraping failed for ${url}: ${error}`);
+      // A stale copy beats dropping the page from the pack
+      const stale = cache?.index[url] ? readCachedContent(cache.dir, cache.index[url]) : undefined;
+      if (stale !== undefined) {
+        console.log(`\n[FETCH] Scraping failed for ${url}: ${error}; using the cached copy from ${cache!.index[url].fetchedAt}`);
+        content = stale;
+        fetched.cached++;
+      } else {
+        console.log(`\n[FETCH] Scraping failed for ${url}: ${error}`);
+        fetched.failed++;
+      }
+    }
+
+    if (content) {
+      allChunks.push(...createChunks(content, url));
     }
   }
+
+  if (cache) saveCache(cache.dir, cache.index);
+  console.log(`\n[FETCH] ${fetched.scraped} scraped, ${fetched.cached} from cache, ${fetched.revalidated} revalidated, ${fetched.failed} failed`);
   
-  console.log(`\n[CLEAN] Created ${allChunks.length} chunks from ${urls.length} pages`);
+  console.log(`[CLEAN] Created ${allChunks.length} chunks from ${urls.length} pages`);
   
   if (allChunks.length === 0) {
     console.error('Error: No content was successfully extracted from any URLs');
@@ -309,9 +758,16 @@ async function main() {
 
   const rawTokenCount = allChunks.reduce((sum, c) => sum + c.tokens, 0);
   
-  // Calculate TF-IDF rankings
-  console.log('[SCORE] Calculating TF-IDF scores...');
-  calculateTfIdf(allChunks);
+  // Rank: relevance to the question when there is one, query-independent TF-IDF otherwise
+  let ranking = 'tfidf';
+  if (argv.query) {
+    console.log(`[SCORE] Scoring BM25 relevance to: ${argv.query}`);
+    scoreBm25(allChunks, argv.query);
+    allChunks.forEach(chunk => { chunk.rank = chunk.bm25!; });
+  } else {
+    console.log('[SCORE] Calculating TF-IDF scores...');
+    calculateTfIdf(allChunks);
+  }
   
   // Sort by rank (descending)
   allChunks.sort((a, b) => b.rank - a.rank);
@@ -324,10 +780,22 @@ async function main() {
   let selectedChunks: Chunk[] = [];
   let currentTokens = 0;
   
-  for (const chunk of uniqueChunks) {
-    if (currentTokens + chunk.tokens <= argv.budget) {
-      selectedChunks.push(chunk);
-      currentTokens += chunk.tokens;
+  if (argv.query) {
+    // Embeddings are only computed for the chunks that survived deduplication
+    ranking = await scoreRelevance(uniqueChunks, {
+      query: argv.query,
+      embed: argv.embed,
+      embedModel: argv['embed-model'],
+      embedUrl: argv['embed-url']
+    });
+    selectedChunks = selectMmr(uniqueChunks, argv.budget, argv['mmr-lambda']);
+    currentTokens = selectedChunks.reduce((sum, c) => sum + c.tokens, 0);
+  } else {
+    for (const chunk of uniqueChunks) {
+      if (currentTokens + chunk.tokens <= argv.budget) {
+        selectedChunks.push(chunk);
+        currentTokens += chunk.tokens;
+      }
     }
   }
   
@@ -348,11 +816,21 @@ async function main() {
     raw_tokens: rawTokenCount,
     kept_tokens: finalTokens,
     dedupe_rate: Number(((allChunks.length - uniqueChunks.length) / allChunks.length * 100).toFixed(2)),
-    compression_ratio: argv.llm ? Number((finalTokens / currentTokens * 100).toFixed(2)) : 100
+    compression_ratio: argv.llm ? Number((finalTokens / currentTokens * 100).toFixed(2)) : 100,
+    ranking,
+    ...(argv.query ? { query: argv.query, mmr_lambda: argv['mmr-lambda'] } : {}),
+    urls,
+    fetch: fetched,
+    ...(previousManifest ? { changelog: diffPacks(previousManifest, selectedChunks) } : {})
   };
   
   writeOutputs(selectedChunks, argv.out, argv.format, stats);
   
+  if (stats.changelog) {
+    const { added, removed, changed, unchanged } = stats.changelog;
+    console.log(`[DIFF] Since ${stats.changelog.since}: ${added.length} added, ${removed.length} removed, ${changed.length} changed, ${unchanged} unchanged`);
+  }
+  
   console.log('[DONE] RAG pack created successfully');
   console.log(`       Output: ${argv.out}/pack.${argv.format}`);
   console.log(`       Stats: ${argv.out}/stats.json`);
@@ -18,6 +18,19 @@ interface PromptBlock {
   hash: string;
 }
 
+interface CrawlStats {
+  root: string;
+  maxDepth: number;
+  maxPages: number;
+  robotsTxt: boolean;
+  sitemapUrls: number;
+  discoveredUrls: number;
+  crawledPages: number;
+  skippedByRobots: number;
+  skippedByPattern: number;
+  deepestLevel: number;
+}
+
 interface Stats {
   totalUrls: number;
   successfulScrapes: number;
@@ -26,8 +39,47 @@ interface Stats {
   deduplicatedBlocks: number;
   finalBlocks: number;
   llmCompressed: boolean;
+  target: Target;
+  // Tokens of each rendered file, wrappers and citations included
+  renderedTokens?: Record<string, number>;
+  crawl?: CrawlStats;
+}
+
+interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+  sitemaps: string[];
+}
+
+interface CrawlOptions {
+  maxDepth: number;
+  maxPages: number;
+  include: string[];
+  exclude: string[];
 }
 
+interface Citation {
+  index: number;
+  url: string;
+  title: string;
+}
+
+type Target = 'jsonl' | 'xml' | 'llms-txt' | 'template';
+
+// A rendered output file; blocks are dropped from the end until it fits the budget
+interface RenderedFile {
+  name: string;
+  render: (blocks: PromptBlock[], citations: Citation[]) => string;
+}
+
+const TARGETS: Target[] = ['jsonl', 'xml', 'llms-txt', 'template'];
+const TEMPLATE_PLACEHOLDERS = ['blocks', 'citations', 'title', 'date'];
+
+const CRAWL_USER_AGENT = 'site2prompt';
+const MAX_SITEMAP_FILES = 10;
+// Links to these are never pages worth scraping
+const NON_PAGE_EXTENSIONS = /\.(png|jpe?g|gif|svg|webp|ico|pdf|zip|gz|tar|mp4|mp3|woff2?|ttf|css|js|json|xml|txt)$/i;
+
 // Simple token counter (rough estimation)
 function countTokens(text: string): number {
   return Math.ceil(text.length / 4);
@@ -106,6 +158,241 @@ function cleanHtml(html: string, url: string): { title: string; content: string
   };
 }
 
+// Convert a glob to a regex: ** spans path segments, * and ? stay within one
+function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      pattern += '.*';
+      i++;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+// Patterns starting with http match the full URL, others the path (plus query)
+function matchesAny(url: URL, patterns: RegExp[], sources: string[]): boolean {
+  return patterns.some((pattern, i) =>
+    pattern.test(sources[i].startsWith('http') ? url.href : url.pathname + url.search)
+  );
+}
+
+// Parse robots.txt, keeping the group for our user agent, or * if there is none
+function parseRobots(text: string): RobotsRules {
+  const groups: { agents: string[]; allow: string[]; disallow: string[] }[] = [];
+  const sitemaps: string[] = [];
+  let current: { agents: string[]; allow: string[]; disallow: string[] } | undefined;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator < 0) continue;
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      if (!current || !lastWasAgent) {
+        current = { agents: [], allow: [], disallow: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+    lastWasAgent = false;
+    if (field === 'sitemap' && value) sitemaps.push(value);
+    else if (field === 'allow' && current && value) current.allow.push(value);
+    // An empty Disallow allows everything
+    else if (field === 'disallow' && current && value) current.disallow.push(value);
+  }
+
+  const group = groups.find(g => g.agents.includes(CRAWL_USER_AGENT)) || groups.find(g => g.agents.includes('*'));
+  return { allow: group?.allow || [], disallow: group?.disallow || [], sitemaps };
+}
+
+function robotsPatternLength(pattern: string, path: string): number {
+  const regex = new RegExp('^' + pattern
+    .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\\\$$/, '$'));
+  return regex.test(path) ? pattern.length : -1;
+}
+
+// The longest matching rule wins; Allow wins a tie
+function isAllowedByRobots(rules: RobotsRules, url: URL): boolean {
+  const target = url.pathname + url.search;
+  const allow = Math.max(-1, ...rules.allow.map(p => robotsPatternLength(p, target)));
+  const disallow = Math.max(-1, ...rules.disallow.map(p => robotsPatternLength(p, target)));
+  return disallow < 0 || allow >= disallow;
+}
+
+// RFC 9309: a server error on robots.txt means the whole site is disallowed, any other failure means no rules
+async function fetchRobots(origin: string): Promise<{ rules: RobotsRules; found: boolean }> {
+  const none: RobotsRules = { allow: [], disallow: [], sitemaps: [] };
+  try {
+    const response = await fetch(`${origin}/robots.txt`, {
+      headers: { 'User-Agent': CRAWL_USER_AGENT },
+      signal: AbortSignal.timeout(15000)
+    });
+    if (response.status >= 500) {
+      console.log(`[WARNING] ${origin}/robots.txt returned ${response.status}, treating the whole site as disallowed`);
+      return { rules: { ...none, disallow: ['/'] }, found: false };
+    }
+    return response.ok ? { rules: parseRobots(await response.text()), found: true } : { rules: none, found: false };
+  } catch {
+    return { rules: none, found: false };
+  }
+}
+
+async function fetchText(url: string): Promise<string | undefined> {
+  try {
+    const response = await fetch(url, {
+      headers: { 'User-Agent': CRAWL_USER_AGENT },
+      signal: AbortSignal.timeout(15000)
+    });
+    return response.ok ? await response.text() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Collect page URLs from sitemaps, following sitemap indexes
+async function readSitemaps(sitemapUrls: string[]): Promise<string[]> {
+  const pages: string[] = [];
+  const queue = [...sitemapUrls];
+  const seen = new Set<string>();
+
+  while (queue.length && seen.size < MAX_SITEMAP_FILES) {
+    const sitemapUrl = queue.shift()!;
+    if (seen.has(sitemapUrl)) continue;
+    seen.add(sitemapUrl);
+
+    const xml = await fetchText(sitemapUrl);
+    if (!xml) continue;
+    const $ = cheerio.load(xml, { xmlMode: true });
+    $('sitemap > loc').each((_: number, el: any) => { queue.push($(el).text().trim()); });
+    $('url > loc').each((_: number, el: any) => { pages.push($(el).text().trim()); });
+  }
+  return pages;
+}
+
+// Resolve a link against its page; undefined for other origins and non-page files
+function normalizeLink(href: string, base: string, origin: string): string | undefined {
+  try {
+    const url = new URL(href, base);
+    if (url.origin !== origin || NON_PAGE_EXTENSIONS.test(url.pathname)) return undefined;
+    url.hash = '';
+    return url.href;
+  } catch {
+    return undefined;
+  }
+}
+
+function extractLinks(html: string): string[] {
+  const $ = cheerio.load(html);
+  return $('a[href]').map((_: number, el: any) => $(el).attr('href') || '').get();
+}
+
+// Breadth-first crawl of one origin. Pages listed in the sitemap start at depth 1.
+async function crawlSite(
+  hbClient: Hyperbrowser,
+  root: string,
+  options: CrawlOptions
+): Promise<{ pages: { url: string; title: string; content: string }[]; failed: number; stats: CrawlStats }> {
+  const rootUrl = new URL(root);
+  const origin = rootUrl.origin;
+  const includes = options.include.map(globToRegExp);
+  const excludes = options.exclude.map(globToRegExp);
+
+  const { rules: robots, found: robotsFound } = await fetchRobots(origin);
+  const sitemapPages = await readSitemaps(robots.sitemaps.length ? robots.sitemaps : [`${origin}/sitemap.xml`]);
+
+  const stats: CrawlStats = {
+    root,
+    maxDepth: options.maxDepth,
+    maxPages: options.maxPages,
+    robotsTxt: robotsFound,
+    sitemapUrls: sitemapPages.length,
+    discoveredUrls: 0,
+    crawledPages: 0,
+    skippedByRobots: 0,
+    skippedByPattern: 0,
+    deepestLevel: 0
+  };
+
+  const seen = new Set<string>();
+  const queue: { url: string; depth: number }[] = [];
+
+  // The root is always crawled; include/exclude only decide what it leads to
+  const enqueue = (href: string, depth: number, base: string, isRoot = false) => {
+    const normalized = normalizeLink(href, base, origin);
+    if (!normalized || seen.has(normalized)) return;
+    seen.add(normalized);
+    stats.discoveredUrls++;
+
+    const url = new URL(normalized);
+    if (!isAllowedByRobots(robots, url)) {
+      stats.skippedByRobots++;
+      return;
+    }
+    if (!isRoot && ((includes.length && !matchesAny(url, includes, options.include)) || matchesAny(url, excludes, options.exclude))) {
+      stats.skippedByPattern++;
+      return;
+    }
+    queue.push({ url: normalized, depth });
+  };
+
+  enqueue(root, 0, root, true);
+  if (options.maxDepth >= 1) {
+    for (const page of sitemapPages) enqueue(page, 1, root);
+  }
+
+  const pages: { url: string; title: string; content: string }[] = [];
+  let failed = 0;
+
+  while (queue.length && stats.crawledPages < options.maxPages) {
+    const { url, depth } = queue.shift()!;
+    stats.crawledPages++;
+    stats.deepestLevel = Math.max(stats.deepestLevel, depth);
+
+    try {
+      console.log(`[CRAWL] (depth ${depth}, ${stats.crawledPages}/${options.maxPages}) ${url}`);
+      // Navigation has to stay in the HTML to find links; cleanHtml strips it from the content
+      const result = await hbClient.scrape.startAndWait({
+        url,
+        scrapeOptions: { formats: ['html', 'links'], onlyMainContent: false }
+      });
+      const html = result.data?.html;
+      if (!html) {
+        console.log(`[WARNING] No HTML data found in result for ${url}`);
+        failed++;
+        continue;
+      }
+
+      const { title, content } = cleanHtml(html, url);
+      pages.push({ url, title, content });
+
+      if (depth < options.maxDepth) {
+        const links: string[] = result.data?.links?.length ? result.data.links : extractLinks(html);
+        for (const link of links) enqueue(link, depth + 1, url);
+      }
+    } catch (error) {
+      console.error(`[FAILED] ${url}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      failed++;
+    }
+  }
+
+  return { pages, failed, stats };
+}
+
 // Compress content using OpenAI (if available)
 async function compressWithLLM(content: string): Promise<string> {
   try {
@@ -181,6 +468,109 @@ function createBlocks(content: string, url: string, title: string): PromptBlock[
   return blocks;
 }
 
+// Number each source once, in order of first appearance
+function buildCitations(blocks: PromptBlock[]): Citation[] {
+  const citations: Citation[] = [];
+  for (const block of blocks) {
+    if (!citations.some(c => c.url === block.url)) {
+      citations.push({ index: citations.length + 1, url: block.url, title: block.title });
+    }
+  }
+  return citations;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// Group blocks by page, keeping the order pages first appear in
+function groupByUrl(blocks: PromptBlock[], citations: Citation[]): { citation: Citation; blocks: PromptBlock[] }[] {
+  return citations.map(citation => ({ citation, blocks: blocks.filter(b => b.url === citation.url) }));
+}
+
+// One <document> per page, the layout long-context prompts usually quote sources in
+function renderXml(blocks: PromptBlock[], citations: Citation[]): string {
+  const documents = groupByUrl(blocks, citations).map(({ citation, blocks: pageBlocks }) => [
+    `<document index="${citation.index}" source="${escapeXml(citation.url)}" title="${escapeXml(citation.title)}">`,
+    '<document_content>',
+    escapeXml(pageBlocks.map(b => b.content).join('\n\n')),
+    '</document_content>',
+    '</document>'
+  ].join('\n'));
+  return ['<documents>', ...documents, '</documents>'].join('\n') + '\n';
+}
+
+function firstLine(text: string, maxLength: number): string {
+  const line = text.split('\n').map(l => l.replace(/^[#\-\s]+/, '').trim()).find(Boolean) || '';
+  return line.length > maxLength ? `${line.slice(0, maxLength - 1)}…` : line;
+}
+
+// llms.txt (https://llmstxt.org): a title, a summary and a linked index of the pages
+function renderLlmsTxt(title: string, blocks: PromptBlock[], citations: Citation[]): string {
+  return [
+    `# ${title}`,
+    '',
+    `> ${citations.length} pages distilled by site2prompt.`,
+    '',
+    '## Pages',
+    '',
+    ...groupByUrl(blocks, citations).map(({ citation, blocks: pageBlocks }) =>
+      `- [${citation.title}](${citation.url}): ${firstLine(pageBlocks[0].content, 120)}`
+    )
+  ].join('\n') + '\n';
+}
+
+// llms-full.txt: the same header followed by the content of every page
+function renderLlmsFull(title: string, blocks: PromptBlock[], citations: Citation[]): string {
+  return [
+    `# ${title}`,
+    '',
+    `> ${citations.length} pages distilled by site2prompt.`,
+    '',
+    ...groupByUrl(blocks, citations).map(({ citation, blocks: pageBlocks }) =>
+      `## [${citation.title}](${citation.url})\n\n${pageBlocks.map(b => b.content).join('\n\n')}\n`
+    )
+  ].join('\n');
+}
+
+// Fills {{blocks}}, {{citations}}, {{title}} and {{date}}. Every block carries its
+// citation number, so sources survive even in a template without {{citations}}.
+function renderTemplate(template: string, title: string, blocks: PromptBlock[], citations: Citation[]): string {
+  const indexOf = (url: string) => citations.find(c => c.url === url)!.index;
+  const values: Record<string, string> = {
+    blocks: blocks.map(b => `${b.content} [${indexOf(b.url)}]`).join('\n\n'),
+    citations: citations.map(c => `[${c.index}] ${c.title} - ${c.url}`).join('\n'),
+    title,
+    date: new Date().toISOString().slice(0, 10)
+  };
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => values[key] ?? match);
+}
+
+// Drop blocks from the end (the least important) until the rendered file fits
+function fitToBudget(blocks: PromptBlock[], file: RenderedFile, budget: number): { content: string; blocks: number } {
+  let kept = blocks.length;
+  let content = file.render(blocks, buildCitations(blocks));
+  while (kept > 0 && countTokens(content) > budget) {
+    kept--;
+    const subset = blocks.slice(0, kept);
+    content = file.render(subset, buildCitations(subset));
+  }
+  return { content, blocks: kept };
+}
+
+// Compress a page's content and split it into blocks
+async function pageToBlocks(content: string, url: string, title: string, useLlm: boolean): Promise<PromptBlock[]> {
+  let processedContent = content;
+
+  if (useLlm) {
+    processedContent = await compressWithLLM(content);
+  } else {
+    processedContent = compressHeuristic(content);
+  }
+
+  return createBlocks(processedContent, url, title);
+}
+
 // Deduplicate blocks
 function deduplicateBlocks(blocks: PromptBlock[]): PromptBlock[] {
   const unique: PromptBlock[] = [];
@@ -225,6 +615,45 @@ async function main() {
       default: false,
       description: 'Enable OpenAI compression'
     })
+    .option('target', {
+      choices: TARGETS,
+      default: 'jsonl' as Target,
+      description: 'Output shape: jsonl (prompts.jsonl + prompts.csv), xml, llms-txt or template'
+    })
+    .option('template', {
+      type: 'string',
+      description: 'Template file for --target template; {{blocks}} is replaced with the pack'
+    })
+    .option('title', {
+      type: 'string',
+      description: 'Pack title for llms-txt and templates (default: the site host)'
+    })
+    .option('crawl', {
+      type: 'string',
+      description: 'Crawl a site from this root URL instead of --url/--urls'
+    })
+    .option('max-depth', {
+      type: 'number',
+      default: 2,
+      description: 'Link depth to follow from the crawl root'
+    })
+    .option('max-pages', {
+      type: 'number',
+      default: 50,
+      description: 'Maximum pages to crawl'
+    })
+    .option('include', {
+      type: 'array',
+      string: true,
+      default: [] as string[],
+      description: 'Only crawl URLs whose path matches one of these globs (e.g. "/docs/**")'
+    })
+    .option('exclude', {
+      type: 'array',
+      string: true,
+      default: [] as string[],
+      description: 'Skip URLs whose path matches any of these globs'
+    })
     .help()
     .argv;
 
@@ -248,11 +677,58 @@ async function main() {
     }
   }
   
-  if (urls.length === 0) {
-    console.error('[ERROR] No URLs provided. Use --url or --urls flags.');
+  if (argv.crawl && urls.length) {
+    console.error('[ERROR] --crawl cannot be combined with --url or --urls.');
+    process.exit(1);
+  }
+
+  if (argv.crawl) {
+    try {
+      if (!/^https?:$/.test(new URL(argv.crawl).protocol)) throw new Error();
+    } catch {
+      console.error(`[ERROR] --crawl needs an http(s) URL, got: ${argv.crawl}`);
+      process.exit(1);
+    }
+    if (argv['max-depth'] < 0 || argv['max-pages'] < 1) {
+      console.error('[ERROR] --max-depth must be 0 or more and --max-pages at least 1.');
+      process.exit(1);
+    }
+  } else if (urls.length === 0) {
+    console.error('[ERROR] No URLs provided. Use --url, --urls or --crawl.');
     process.exit(1);
   }
 
+  let template: string | undefined;
+  let templateOutput = 'prompt.txt';
+  if (argv.target === 'template') {
+    if (!argv.template) {
+      console.error('[ERROR] --target template needs --template <file>.');
+      process.exit(1);
+    }
+    try {
+      template = fs.readFileSync(argv.template, 'utf-8');
+    } catch (error) {
+      console.error(`[ERROR] Failed to read template file: ${argv.template}`);
+      process.exit(1);
+    }
+    if (!/\{\{\s*blocks\s*\}\}/.test(template)) {
+      console.error(`[ERROR] Template ${argv.template} has no {{blocks}} placeholder.`);
+      process.exit(1);
+    }
+    const unknown = [...template.matchAll(/\{\{\s*(\w+)\s*\}\}/g)]
+      .map(match => match[1])
+      .filter(key => !TEMPLATE_PLACEHOLDERS.includes(key));
+    if (unknown.length) {
+      console.warn(`[WARN] Unknown template placeholders left as-is: ${[...new Set(unknown)].join(', ')}`);
+    }
+    // system-prompt.md.hbs -> system-prompt.md
+    templateOutput = path.basename(argv.template).replace(/\.(hbs|handlebars)$/, '') || templateOutput;
+    if (path.resolve(argv.out, templateOutput) === path.resolve(argv.template)) {
+      console.error(`[ERROR] Rendering ${argv.template} into ${argv.out} would overwrite the template. Name it *.hbs or pick another --out.`);
+      process.exit(1);
+    }
+  }
+
   // Initialize Hyperbrowser
   const apiKey = process.env.HYPERBROWSER_API_KEY;
   if (!apiKey) {
@@ -262,8 +738,7 @@ async function main() {
 
   const hbClient = new Hyperbrowser({ apiKey });
   
-  console.log(`[START] Processing ${urls.length} URLs with budget ${argv.budget} tokens`);
-  
+  const useLlm = argv.llm && !!process.env.OPENAI_API_KEY;
   const stats: Stats = {
     totalUrls: urls.length,
     successfulScrapes: 0,
@@ -271,11 +746,38 @@ async function main() {
     totalTokens: 0,
     deduplicatedBlocks: 0,
     finalBlocks: 0,
-    llmCompressed: argv.llm && !!process.env.OPENAI_API_KEY
+    llmCompressed: useLlm,
+    target: argv.target
   };
   
   const allBlocks: PromptBlock[] = [];
   
+  if (argv.crawl) {
+    console.log(`[START] Crawling ${argv.crawl} (depth ${argv['max-depth']}, up to ${argv['max-pages']} pages) with budget ${argv.budget} tokens`);
+
+    const crawl = await crawlSite(hbClient, argv.crawl, {
+      maxDepth: argv['max-depth'],
+      maxPages: argv['max-pages'],
+      include: argv.include,
+      exclude: argv.exclude
+    });
+    stats.crawl = crawl.stats;
+    stats.totalUrls = crawl.stats.crawledPages;
+    stats.failedScrapes = crawl.failed;
+
+    for (const page of crawl.pages) {
+      if (!page.content.trim()) continue;
+      const blocks = await pageToBlocks(page.content, page.url, page.title, useLlm);
+      allBlocks.push(...blocks);
+      stats.successfulScrapes++;
+      console.log(`[SCRAPED] ${page.title} - ${blocks.length} blocks`);
+    }
+
+    console.log(`[CRAWL] ${crawl.stats.crawledPages} pages crawled, ${crawl.stats.discoveredUrls} URLs discovered (${crawl.stats.sitemapUrls} in sitemap), ${crawl.stats.skippedByRobots} blocked by robots.txt, ${crawl.stats.skippedByPattern} filtered by patterns`);
+  } else {
+    console.log(`[START] Processing ${urls.length} URLs with budget ${argv.budget} tokens`);
+  }
+  
   // Process each URL
   for (const url of urls) {
     try {
@@ -292,15 +794,7 @@ async function main() {
         const content = result.data.markdown || (result.data.html ? cleanHtml(result.data.html, url).content : '');
         
         if (content.trim()) {
-          let processedContent = content;
-          
-          if (argv.llm && process.env.OPENAI_API_KEY) {
-            processedContent = await compressWithLLM(content);
-          } else {
-            processedContent = compressHeuristic(content);
-          }
-          
-          const blocks = createBlocks(processedContent, url, title);
+          const blocks = await pageToBlocks(content, url, title, useLlm);
           allBlocks.push(...blocks);
           stats.successfulScrapes++;
           
@@ -343,36 +837,65 @@ async function main() {
   }
   
   // Write outputs
-  const jsonlPath = path.join(argv.out, 'prompts.jsonl');
-  const csvPath = path.join(argv.out, 'prompts.csv');
   const citationsPath = path.join(argv.out, 'citations.md');
   const statsPath = path.join(argv.out, 'stats.json');
+  const title = argv.title || new URL(argv.crawl || urls[0]).hostname;
+  let citedBlocks = finalBlocks;
   
-  // Write JSONL
-  const jsonlContent = finalBlocks.map(block => 
-    JSON.stringify({ 
-      prompt: block.content, 
-      metadata: { url: block.url, title: block.title, tokens: block.tokens }
-    })
-  ).join('\n');
-  fs.writeFileSync(jsonlPath, jsonlContent);
-  
-  // Write CSV
-  const csvContent = [
-    'url,title,content,tokens',
-    ...finalBlocks.map(block => 
-      `"${block.url}","${block.title}","${block.content.replace(/"/g, '""')}",${block.tokens}`
-    )
-  ].join('\n');
-  fs.writeFileSync(csvPath, csvContent);
+  if (argv.target === 'jsonl') {
+    const jsonlPath = path.join(argv.out, 'prompts.jsonl');
+    const csvPath = path.join(argv.out, 'prompts.csv');
+
+    // Write JSONL
+    const jsonlContent = finalBlocks.map(block => 
+      JSON.stringify({ 
+        prompt: block.content, 
+        metadata: { url: block.url, title: block.title, tokens: block.tokens }
+      })
+    ).join('\n');
+    fs.writeFileSync(jsonlPath, jsonlContent);
+    
+    // Write CSV
+    const csvContent = [
+      'url,title,content,tokens',
+      ...finalBlocks.map(block => 
+        `"${block.url}","${block.title}","${block.content.replace(/"/g, '""')}",${block.tokens}`
+      )
+    ].join('\n');
+    fs.writeFileSync(csvPath, csvContent);
+  } else {
+    const files: RenderedFile[] =
+      argv.target === 'xml' ? [{ name: 'prompt.xml', render: renderXml }]
+      : argv.target === 'llms-txt' ? [
+        { name: 'llms.txt', render: (blocks, citations) => renderLlmsTxt(title, blocks, citations) },
+        { name: 'llms-full.txt', render: (blocks, citations) => renderLlmsFull(title, blocks, citations) }
+      ]
+      : [{
+        name: templateOutput,
+        render: (blocks, citations) => renderTemplate(template!, title, blocks, citations)
+      }];
+
+    stats.renderedTokens = {};
+    // Blocks are dropped from the end, so the longest rendered prefix covers every cited source
+    let renderedBlocks = 0;
+    for (const file of files) {
+      const rendered = fitToBudget(finalBlocks, file, argv.budget);
+      renderedBlocks = Math.max(renderedBlocks, rendered.blocks);
+      fs.writeFileSync(path.join(argv.out, file.name), rendered.content);
+      stats.renderedTokens[file.name] = countTokens(rendered.content);
+      if (rendered.blocks < finalBlocks.length) {
+        console.log(`[BUDGET] ${file.name}: kept ${rendered.blocks}/${finalBlocks.length} blocks to fit ${argv.budget} tokens with markup`);
+      }
+      console.log(`[WRITE] ${path.join(argv.out, file.name)} (${stats.renderedTokens[file.name]} tokens)`);
+    }
+    citedBlocks = finalBlocks.slice(0, renderedBlocks);
+  }
   
   // Write citations
   const citationsContent = [
     '# Citations',
     '',
-    ...Array.from(new Set(finalBlocks.map(b => b.url))).map((url, i) => 
-      `${i + 1}. [${finalBlocks.find(b => b.url === url)?.title || 'Untitled'}](${url})`
-    )
+    ...buildCitations(citedBlocks).map(c => `${c.index}. [${c.title}](${c.url})`)
   ].join('\n');
   fs.writeFileSync(citationsPath, citationsContent);
   